@@ -56,7 +56,7 @@ export class Dashboard {
    */
   private async loadData(): Promise<void> {
     // Load all sessions
-    this.sessions = await db.getAllSessions();
+    this.sessions = await db.getAllSessions(undefined, 'battery');
 
     // Load CRS baseline
     const crsBaseline = await db.getBaseline('rolling', 'crs', null);
@@ -0,0 +1,198 @@
+/**
+ * Session Replay Viewer for CLST
+ * Plays a recorded session back through the test renderers from its raw_events
+ * with play/pause, speed control and a scrubber. Cursor and target trails are
+ * overlaid so tracking behaviour can be audited visually.
+ * Vanilla TypeScript - no framework dependencies
+ */
+
+import type { Session, RawEvent, StimulusState, TestState, ReplayOverlay } from '@/types';
+import { ReplayTimeline } from '@/lib/replay';
+
+export interface ReplayViewerOptions {
+  session: Session;
+  events: RawEvent[];
+  onClose?: () => void;
+}
+
+interface ReplayRenderer {
+  initialize(): Promise<void>;
+  updateFromEngine(stimulus: StimulusState, state: TestState): void;
+  setReplayOverlay(overlay: ReplayOverlay | null): void;
+  destroy(): void;
+}
+
+export class ReplayViewer {
+  private static readonly SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+  private container: HTMLElement;
+  private options: ReplayViewerOptions;
+  private timeline: ReplayTimeline;
+  private renderer: ReplayRenderer | null = null;
+  private root: HTMLDivElement | null = null;
+
+  private position = 0;       // replay ms
+  private speed = 1;
+  private playing = false;
+  private lastTick = 0;
+  private animId: number | null = null;
+
+  private boundTick: () => void;
+  private boundKeyDown: (e: KeyboardEvent) => void;
+
+  constructor(container: HTMLElement, options: ReplayViewerOptions) {
+    this.container = container;
+    this.options = options;
+    this.timeline = new ReplayTimeline(options.session, options.events);
+    this.boundTick = this.tick.bind(this);
+    this.boundKeyDown = this.onKeyDown.bind(this);
+  }
+
+  async render(): Promise<void> {
+    const s = this.options.session;
+    this.root = document.createElement('div');
+    Object.assign(this.root.style, {
+      position: 'fixed', top: '0', left: '0', width: '100vw', height: '100vh',
+      zIndex: '9999', background: '#1a1a2e'
+    });
+    this.container.appendChild(this.root);
+
+    if (this.timeline.isEmpty()) {
+      this.root.innerHTML = `<div style="display:flex;align-items:center;justify-content:center;height:100vh;color:#fff;flex-direction:column;gap:1rem">
+        <p>No raw events were stored for this session.</p>
+        <button id="rp-close" style="padding:.6rem 1.5rem;background:#2196f3;color:#fff;border:none;border-radius:8px;cursor:pointer">Close</button></div>`;
+      this.root.querySelector('#rp-close')?.addEventListener('click', () => this.close());
+      return;
+    }
+
+    const stage = document.createElement('div');
+    this.root.appendChild(stage);
+    this.renderer = await this.createRenderer(stage);
+
+    const duration = this.timeline.getDuration();
+    const bar = document.createElement('div');
+    Object.assign(bar.style, {
+      position: 'absolute', left: '0', right: '0', bottom: '0', zIndex: '10001',
+      display: 'flex', alignItems: 'center', gap: '.75rem', padding: '.6rem 1rem',
+      background: 'rgba(0,0,0,0.7)', color: '#fff', fontSize: '.85rem'
+    });
+    bar.innerHTML = `
+      <button id="rp-play" style="padding:.35rem .9rem;background:#2196f3;color:#fff;border:none;border-radius:6px;cursor:pointer;min-width:70px">▶ Play</button>
+      <select id="rp-speed" style="padding:.25rem;border-radius:6px">${ReplayViewer.SPEEDS.map(v => `<option value="${v}" ${v === 1 ? 'selected' : ''}>${v}×</option>`).join('')}</select>
+      <div style="flex:1;position:relative">
+        <input id="rp-scrub" type="range" min="0" max="${duration}" step="10" value="0" style="width:100%">
+        <div style="position:relative;height:14px;font-size:.7rem;color:#aaa">${this.timeline.getLayerMarkers().map(m =>
+          `<span style="position:absolute;left:${(m.offset / duration * 100).toFixed(2)}%">L${m.layer}</span>`).join('')}</div>
+      </div>
+      <span id="rp-time" style="font-family:monospace;min-width:110px;text-align:right"></span>
+      <span style="color:#888">${s.timestamp.toLocaleString()}</span>
+      <button id="rp-close" style="padding:.35rem .9rem;background:#616161;color:#fff;border:none;border-radius:6px;cursor:pointer">✕ Close</button>`;
+    this.root.appendChild(bar);
+
+    bar.querySelector('#rp-play')?.addEventListener('click', () => this.togglePlay());
+    bar.querySelector('#rp-speed')?.addEventListener('change', e => {
+      this.speed = parseFloat((e.target as HTMLSelectElement).value);
+    });
+    bar.querySelector('#rp-scrub')?.addEventListener('input', e => {
+      this.seek(parseFloat((e.target as HTMLInputElement).value));
+    });
+    bar.querySelector('#rp-close')?.addEventListener('click', () => this.close());
+    document.addEventListener('keydown', this.boundKeyDown);
+
+    this.seek(0);
+    this.lastTick = performance.now();
+    this.animId = requestAnimationFrame(this.boundTick);
+  }
+
+  destroy(): void {
+    this.playing = false;
+    if (this.animId !== null) cancelAnimationFrame(this.animId);
+    this.animId = null;
+    document.removeEventListener('keydown', this.boundKeyDown);
+    this.renderer?.destroy();
+    this.renderer = null;
+    this.root?.remove();
+    this.root = null;
+  }
+
+  // =========================================================================
+  // PLAYBACK
+  // =========================================================================
+
+  private togglePlay(): void {
+    if (!this.playing && this.position >= this.timeline.getDuration()) this.position = 0;
+    this.playing = !this.playing;
+    const btn = this.root?.querySelector('#rp-play');
+    if (btn) btn.textContent = this.playing ? '❚❚ Pause' : '▶ Play';
+  }
+
+  /**
+   * Runs every frame, also while paused: the renderers age effects against
+   * performance.now(), so the frame is re-shifted to keep a paused instant frozen.
+   */
+  private tick(): void {
+    const now = performance.now();
+    if (this.playing) {
+      this.position += (now - this.lastTick) * this.speed;
+      if (this.position >= this.timeline.getDuration()) this.togglePlay();
+    }
+    this.lastTick = now;
+    this.seek(this.position);
+    this.animId = requestAnimationFrame(this.boundTick);
+  }
+
+  private seek(position: number): void {
+    this.position = Math.max(0, Math.min(this.timeline.getDuration(), position));
+    // Shift recorded timestamps so the renderer sees the replayed instant as "now"
+    const offset = performance.now() - this.timeline.eventTimeAt(this.position);
+    const frame = this.timeline.frameAt(this.position, offset);
+    if (frame && this.renderer) {
+      this.renderer.updateFromEngine(frame.stimulus, frame.state);
+      this.renderer.setReplayOverlay(frame.overlay);
+    }
+
+    const scrub = this.root?.querySelector('#rp-scrub') as HTMLInputElement | null;
+    if (scrub && document.activeElement !== scrub) scrub.value = String(this.position);
+    const time = this.root?.querySelector('#rp-time');
+    if (time) time.textContent = `${this.fmt(this.position)} / ${this.fmt(this.timeline.getDuration())}`;
+  }
+
+  private onKeyDown(e: KeyboardEvent): void {
+    if (e.key === ' ') { e.preventDefault(); this.togglePlay(); }
+    else if (e.key === 'ArrowRight') this.seek(this.position + 5000);
+    else if (e.key === 'ArrowLeft') this.seek(this.position - 5000);
+    else if (e.key === 'Escape') this.close();
+  }
+
+  private close(): void {
+    this.destroy();
+    this.options.onClose?.();
+  }
+
+  // =========================================================================
+  // HELPERS
+  // =========================================================================
+
+  /** PixiJS first, Canvas2D fallback — same order as a live run */
+  private async createRenderer(stage: HTMLElement): Promise<ReplayRenderer> {
+    const config = this.options.session.configSnapshot;
+    try {
+      const { TestRenderer } = await import('@/lib/testRenderer');
+      const r = new TestRenderer(stage, config, null);
+      await r.initialize();
+      return r;
+    } catch (e) {
+      console.warn('PixiJS replay failed, falling back to Canvas2D:', e);
+      stage.innerHTML = '';
+      const { Canvas2DRenderer } = await import('@/lib/canvas2dRenderer');
+      const r = new Canvas2DRenderer(stage, config, null);
+      await r.initialize();
+      return r;
+    }
+  }
+
+  private fmt(ms: number): string {
+    const total = Math.floor(ms / 1000);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  }
+}
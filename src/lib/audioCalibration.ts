@@ -0,0 +1,49 @@
+/**
+ * Audio Latency Calibration for CLST
+ * Tap-along metronome: the user taps SPACE in time with a steady tone, and the
+ * median tap − tone asynchrony is the output latency the browser doesn't
+ * report (Bluetooth headsets, driver buffers). The result is stored per audio
+ * device in SessionConfig.audioLatencyCalibration.
+ *
+ * - Tone times are AudioManager's estimated output times with no residual
+ *   applied; tap times are keydown event.timeStamp (same timeline)
+ * - The first WARMUP_BEATS are ignored while the user locks on, and each tap
+ *   is matched to the nearest tone within half an interval
+ * - Taps usually lead a metronome by a few tens of ms, so the estimate errs
+ *   low; it is clamped to ±MAX_RESIDUAL_MS
+ */
+
+import { Statistics } from './statistics';
+
+export class AudioCalibration {
+  static readonly INTERVAL_MS = 600;
+  static readonly BEATS = 24;
+  static readonly WARMUP_BEATS = 4;
+  static readonly MIN_TAPS = 10;
+  static readonly MAX_RESIDUAL_MS = 300;
+
+  /**
+   * Residual latency (ms) from tone output times and tap times, both on the
+   * performance.now() timeline. Null with fewer than MIN_TAPS matched taps.
+   */
+  static residualLatencyMs(beatTimes: number[], tapTimes: number[]): number | null {
+    const beats = beatTimes.slice(AudioCalibration.WARMUP_BEATS);
+    const window = AudioCalibration.INTERVAL_MS / 2;
+    const asynchronies: number[] = [];
+    const used = new Set<number>();
+
+    for (const tap of tapTimes) {
+      let best = -1;
+      for (let i = 0; i < beats.length; i++) {
+        if (Math.abs(tap - beats[i]) < window && (best < 0 || Math.abs(tap - beats[i]) < Math.abs(tap - beats[best]))) best = i;
+      }
+      // One tap per tone — a double tap doesn't count twice
+      if (best < 0 || used.has(best)) continue;
+      used.add(best);
+      asynchronies.push(tap - beats[best]);
+    }
+    if (asynchronies.length < AudioCalibration.MIN_TAPS) return null;
+
+    return Statistics.clamp(Statistics.median(asynchronies), -AudioCalibration.MAX_RESIDUAL_MS, AudioCalibration.MAX_RESIDUAL_MS);
+  }
+}
@@ -1,6 +1,11 @@
 /**
  * Audio Manager for CLST
  * Handles precise audio playback using Web Audio API
+ *
+ * Output times are also given on the performance.now() timeline, so the engine
+ * can measure audio RTs from when a tone was heard. Latency the browser does
+ * not report (Bluetooth, driver buffers) can be added from a tap-along
+ * calibration (see audioCalibration.ts) via setResidualLatencyMs.
  */
 
 export type ToneType = 'high' | 'low' | 'distractor';
@@ -13,16 +18,19 @@ export interface AudioConfig {
 export interface PlaybackInfo {
   scheduledTime: number;  // When tone was scheduled (AudioContext time)
   actualTime: number;     // Estimated actual output time (compensated for latency)
+  outputPerformanceTime: number; // Same moment on the performance.now() timeline (ms)
   type: ToneType;
 }
 
 export class AudioManager {
   private audioContext: AudioContext | null = null;
   private audioBuffers: Map<ToneType, AudioBuffer> = new Map();
+  private nbackBuffers: AudioBuffer[] = [];
   private masterGain: GainNode | null = null;
   private currentSources: Set<AudioBufferSourceNode> = new Set();
   private isInitialized: boolean = false;
   private lastPlaybackTime: number = 0;
+  private residualLatency: number = 0; // seconds, from calibration
 
   // Audio file paths (relative to assets)
   private readonly AUDIO_FILES: Record<ToneType, string> = {
@@ -39,6 +47,10 @@ export class AudioManager {
     distractor: 550 // Hz - mid-range, different character (uses square wave)
   };
 
+  // N-back items — one pitch per NBACK_LETTERS entry, triangle wave so the
+  // stream doesn't sound like the high / low / distractor cues (300 / 550 / 1000 Hz)
+  private readonly NBACK_FREQUENCIES = [392, 440, 494, 659, 740, 831, 1175, 1319];
+
   // Configuration
   private volume: number = 0.5;
   private readonly TONE_DURATION = 0.25; // seconds (was 0.15 — longer for better perception under load)
@@ -128,6 +140,23 @@ export class AudioManager {
 
       this.audioBuffers.set(type as ToneType, buffer);
     }
+
+    this.nbackBuffers = this.NBACK_FREQUENCIES.map(frequency => {
+      const sampleRate = this.audioContext!.sampleRate;
+      const numSamples = Math.floor(this.TONE_DURATION * sampleRate);
+      const buffer = this.audioContext!.createBuffer(1, numSamples, sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < numSamples; i++) {
+        const t = i / sampleRate;
+        const phase = (frequency * t) % 1;
+        const value = 4 * Math.abs(phase - 0.5) - 1; // Triangle wave
+        let envelope = 1.0;
+        if (t < 0.005) envelope = t / 0.005;
+        else if (t > this.TONE_DURATION - 0.015) envelope = (this.TONE_DURATION - t) / 0.015;
+        data[i] = value * envelope * 0.3;
+      }
+      return buffer;
+    });
   }
 
   /**
@@ -143,13 +172,49 @@ export class AudioManager {
       this.audioContext.resume();
     }
 
+    const scheduledTime = this.startSource(this.createToneSource(type));
+
+    // Calculate actual output time with latency compensation
+    const latency = this.getLatency();
+    const actualTime = scheduledTime + latency;
+
+    return {
+      scheduledTime,
+      actualTime,
+      outputPerformanceTime: this.toPerformanceTime(scheduledTime),
+      type
+    };
+  }
+
+  /**
+   * Play an n-back item (index into NBACK_LETTERS); returns the scheduled AudioContext time
+   */
+  playNBackItem(item: number): number {
+    if (!this.isInitialized || !this.audioContext || !this.masterGain) {
+      throw new Error('AudioManager not initialized. Call init() first.');
+    }
+    const buffer = this.nbackBuffers[item];
+    if (!buffer) throw new Error(`Unknown n-back item ${item}`);
+
+    if (this.audioContext.state === 'suspended') {
+      this.audioContext.resume();
+    }
+
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    return this.startSource(source);
+  }
+
+  /**
+   * Schedule a source with spacing enforcement and track it until it ends
+   */
+  private startSource(source: AudioBufferSourceNode): number {
     // Calculate timing with spacing enforcement
-    const now = this.audioContext.currentTime;
+    const now = this.audioContext!.currentTime;
     const scheduledTime = Math.max(now, this.lastPlaybackTime + this.MIN_TONE_SPACING);
-    
-    // Create source and connect to master gain
-    const source = this.createToneSource(type);
-    source.connect(this.masterGain);
+
+    // Connect to master gain
+    source.connect(this.masterGain!);
 
     // Schedule playback
     source.start(scheduledTime);
@@ -163,16 +228,7 @@ export class AudioManager {
 
     // Update last playback time
     this.lastPlaybackTime = scheduledTime;
-
-    // Calculate actual output time with latency compensation
-    const latency = this.getLatency();
-    const actualTime = scheduledTime + latency;
-
-    return {
-      scheduledTime,
-      actualTime,
-      type
-    };
+    return scheduledTime;
   }
 
   /**
@@ -271,7 +327,7 @@ export class AudioManager {
 
   /**
    * Get audio output latency
-   * Returns estimated latency in seconds
+   * Returns estimated latency in seconds (browser-reported + calibrated residual)
    */
   getLatency(): number {
     if (!this.audioContext) {
@@ -283,7 +339,30 @@ export class AudioManager {
     const baseLatency = this.audioContext.baseLatency || 0;
     const outputLatency = this.audioContext.outputLatency || 0;
 
-    return baseLatency + outputLatency;
+    return baseLatency + outputLatency + this.residualLatency;
+  }
+
+  /**
+   * Latency the browser doesn't report, measured by tap-along calibration.
+   * Set to 0 while calibrating so the measurement isn't offset by an old value.
+   */
+  setResidualLatencyMs(ms: number): void {
+    this.residualLatency = ms / 1000;
+  }
+
+  /**
+   * performance.now() time (ms) at which a sample scheduled for contextTime
+   * leaves the output device
+   */
+  private toPerformanceTime(contextTime: number): number {
+    const ctx = this.audioContext!;
+    const stamp = ctx.getOutputTimestamp?.();
+    if (stamp?.contextTime && stamp.performanceTime) {
+      // The output timestamp pairs a context time with when the device played it,
+      // so the reported output latency is already included
+      return stamp.performanceTime + (contextTime - stamp.contextTime + this.residualLatency) * 1000;
+    }
+    return performance.now() + (contextTime - ctx.currentTime + this.getLatency()) * 1000;
   }
 
   /**
@@ -358,6 +437,7 @@ export class AudioManager {
 
     // Clear buffers
     this.audioBuffers.clear();
+    this.nbackBuffers = [];
 
     this.isInitialized = false;
   }
@@ -0,0 +1,49 @@
+/**
+ * Background Metrics for CLST
+ * Computes a finished session's trials, layer metrics and metric values in a
+ * Web Worker (metricsWorker.ts), so the "Test Complete" screen stays
+ * responsive while a long session is processed.
+ *
+ * Falls back to the main thread when workers are unavailable or the worker
+ * fails to load; the result is identical either way.
+ */
+
+import type { LayerDefinition, RawEvent } from '@/types';
+import { MetricsCalculator, type SessionComputation } from './metricsCalculator';
+import type { MetricsWorkerRequest, MetricsWorkerResponse } from './metricsWorker';
+
+export class BackgroundMetrics {
+  static computeSession(
+    sessionId: string,
+    layers: LayerDefinition[],
+    events: RawEvent[],
+    monitorRefreshRate: number
+  ): Promise<SessionComputation> {
+    const onMainThread = () => MetricsCalculator.computeSession(sessionId, layers, events, monitorRefreshRate);
+    if (typeof Worker === 'undefined') return Promise.resolve().then(onMainThread);
+
+    return new Promise((resolve, reject) => {
+      let worker: Worker | null = null;
+      const fallback = (reason: unknown) => {
+        worker?.terminate();
+        console.warn('Metrics worker failed, computing on the main thread:', reason);
+        try { resolve(onMainThread()); } catch (err) { reject(err); }
+      };
+
+      try {
+        worker = new Worker(new URL('./metricsWorker.ts', import.meta.url), { type: 'module' });
+      } catch (err) {
+        fallback(err);
+        return;
+      }
+      worker.onmessage = (e: MessageEvent<MetricsWorkerResponse>) => {
+        if (!e.data.ok) { fallback(e.data.error); return; }
+        worker?.terminate();
+        resolve(e.data.result);
+      };
+      worker.onerror = e => { e.preventDefault(); fallback(e.message); };
+      const request: MetricsWorkerRequest = { sessionId, layers, events, monitorRefreshRate };
+      worker.postMessage(request);
+    });
+  }
+}
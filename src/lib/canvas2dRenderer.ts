@@ -1,16 +1,23 @@
 /**
  * Canvas2D Fallback Renderer for CLST
  * Used when PixiJS WebGL initialization fails (e.g., WebView2 without GPU)
+ * engine may be null for session replay (no input, no audio, trail overlay)
+ * Cursor input uses coalesced pointer events and clicks / keys pass
+ * event.timeStamp, as in TestRenderer; each frame reports the previous one's
+ * presentation so visual onsets are stamped when they reached the screen, and
+ * audio cues report their output time. Focus / visibility and pointer-lock
+ * changes are forwarded to the engine.
  */
 
-import type { SessionConfig, StimulusState, TestState, InterLayerInfo } from '@/types';
+import type { SessionConfig, StimulusState, TestState, InterLayerInfo, ReplayOverlay } from '@/types';
 import { TestEngine } from '@/lib/testEngine';
 import { getAudioManager } from '@/lib/audioManager';
+import { AUDIO_RESPONSE_KEYS, NBACK_LETTERS } from '@/lib/protocol';
 
 export class Canvas2DRenderer {
   private container: HTMLElement;
   private config: SessionConfig;
-  private engine: TestEngine;
+  private engine: TestEngine | null;
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private animId: number | null = null;
@@ -20,14 +27,17 @@ export class Canvas2DRenderer {
   private lastStimulus: StimulusState | null = null;
   private lastState: TestState | null = null;
   private lastPlayedAudioCueTime: number = 0;  // Track last played audio cue to avoid replays
+  private lastPlayedNBackOnset: number = -1;
   private overlay: HTMLDivElement | null = null;
+  private replayOverlay: ReplayOverlay | null = null;
 
-  private boundMouseMove: (e: MouseEvent) => void;
+  private boundPointerMove: (e: PointerEvent) => void;
   private boundClick: (e: MouseEvent) => void;
   private boundKeyDown: (e: KeyboardEvent) => void;
   private boundPointerLock: () => void;
+  private boundFocusChange: () => void;
 
-  constructor(container: HTMLElement, config: SessionConfig, engine: TestEngine) {
+  constructor(container: HTMLElement, config: SessionConfig, engine: TestEngine | null) {
     this.container = container;
     this.config = config;
     this.engine = engine;
@@ -42,19 +52,30 @@ export class Canvas2DRenderer {
     this.cursorX = config.monitorResolution.width / 2;
     this.cursorY = config.monitorResolution.height / 2;
 
-    this.boundMouseMove = this.onMouseMove.bind(this);
+    this.boundPointerMove = this.onPointerMove.bind(this);
     this.boundClick = this.onClick.bind(this);
     this.boundKeyDown = this.onKeyDown.bind(this);
     this.boundPointerLock = this.onPointerLockChange.bind(this);
+    this.boundFocusChange = this.onFocusChange.bind(this);
   }
 
   async initialize(): Promise<void> {
     this.container.appendChild(this.canvas);
-    this.canvas.addEventListener('click', this.boundClick);
-    document.addEventListener('keydown', this.boundKeyDown);
-    document.addEventListener('pointerlockchange', this.boundPointerLock);
-    document.addEventListener('mousemove', this.boundMouseMove);
-    const loop = () => { this.render(); this.animId = requestAnimationFrame(loop); };
+    if (this.engine) {
+      this.canvas.addEventListener('click', this.boundClick);
+      document.addEventListener('keydown', this.boundKeyDown);
+      document.addEventListener('pointerlockchange', this.boundPointerLock);
+      document.addEventListener('pointermove', this.boundPointerMove);
+      window.addEventListener('blur', this.boundFocusChange);
+      window.addEventListener('focus', this.boundFocusChange);
+      document.addEventListener('visibilitychange', this.boundFocusChange);
+    }
+    const loop = (t: number) => {
+      this.engine?.markFramePresented(t);
+      this.render();
+      this.engine?.markFrameDrawn();
+      this.animId = requestAnimationFrame(loop);
+    };
     this.animId = requestAnimationFrame(loop);
   }
 
@@ -63,15 +84,25 @@ export class Canvas2DRenderer {
     this.lastState = state;
 
     // Play audio cue if a new one was emitted (same logic as PixiJS renderer)
-    if (stim.lastAudioCue) {
+    if (this.engine && stim.lastAudioCue) {
       const cueAge = performance.now() - stim.lastAudioCue.onsetTime;
       if (cueAge < 50 && stim.lastAudioCue.onsetTime !== this.lastPlayedAudioCueTime) {
         this.lastPlayedAudioCueTime = stim.lastAudioCue.onsetTime;
         try {
-          getAudioManager().play(stim.lastAudioCue.tone);
+          const info = getAudioManager().play(stim.lastAudioCue.tone);
+          this.engine.markAudioCueOutput(stim.lastAudioCue.onsetTime, info.outputPerformanceTime);
         } catch { /* audio not ready */ }
       }
     }
+
+    // Audio n-back item: play once per onset
+    if (this.engine && stim.nbackStimulus?.modality === 'audio' &&
+        stim.nbackStimulus.onsetTime !== this.lastPlayedNBackOnset) {
+      this.lastPlayedNBackOnset = stim.nbackStimulus.onsetTime;
+      try {
+        getAudioManager().playNBackItem(stim.nbackStimulus.item);
+      } catch { /* audio not ready */ }
+    }
   }
 
   private render(): void {
@@ -86,13 +117,13 @@ export class Canvas2DRenderer {
 
     // Progress text
     const elapsed = (performance.now() - state.layerStartTime) / 1000;
-    const remaining = Math.max(0, state.layerDuration - elapsed);
+    const remaining = Math.max(0, state.layerDuration / 1000 - elapsed);
     ctx.fillStyle = '#666';
     ctx.font = '14px Arial';
     ctx.textAlign = 'right';
     ctx.fillText(`Layer ${state.currentLayer} | ${Math.ceil(remaining)}s`, W - 20, 24);
 
-    // Layer 0: Simple stimulus (green circle)
+    // Simple RT stimulus (green circle)
     if (stim.simpleStimulus?.visible) {
       ctx.beginPath();
       ctx.arc(stim.simpleStimulus.x, stim.simpleStimulus.y, 30, 0, Math.PI * 2);
@@ -100,7 +131,30 @@ export class Canvas2DRenderer {
       ctx.fill();
     }
 
-    // Layer 1+: Target (blue circle)
+    // Go/No-Go stimulus (green = click, red = withhold)
+    if (stim.goNoGoStimulus) {
+      ctx.beginPath();
+      ctx.arc(stim.goNoGoStimulus.x, stim.goNoGoStimulus.y, 45, 0, Math.PI * 2);
+      ctx.fillStyle = stim.goNoGoStimulus.kind === 'go' ? '#4caf50' : '#f44336';
+      ctx.fill();
+    }
+
+    // Replay trails (drawn under the live shapes)
+    if (this.replayOverlay) {
+      const drawPath = (pts: { x: number; y: number }[], color: string) => {
+        if (pts.length < 2) return;
+        ctx.beginPath();
+        ctx.moveTo(pts[0].x, pts[0].y);
+        for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      };
+      drawPath(this.replayOverlay.targetPath, 'rgba(33,150,243,0.6)');
+      drawPath(this.replayOverlay.cursorPath, 'rgba(255,255,255,0.6)');
+    }
+
+    // Tracking target (blue circle)
     if (stim.target) {
       ctx.beginPath();
       ctx.arc(stim.target.x, stim.target.y, stim.target.radius || 20, 0, Math.PI * 2);
@@ -134,6 +188,25 @@ export class Canvas2DRenderer {
       }
     }
 
+    // Visual n-back letter (above the tracking area)
+    if (stim.nbackStimulus?.modality === 'visual') {
+      ctx.fillStyle = '#e0e0e0';
+      ctx.font = 'bold 56px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(NBACK_LETTERS[stim.nbackStimulus.item], W / 2, 200);
+    }
+
+    // PVT counter (red ms digits at centre, frozen on the RT after a response)
+    if (stim.pvtCounter) {
+      const elapsed = (stim.pvtCounter.stoppedAt ?? performance.now()) - stim.pvtCounter.onsetTime;
+      ctx.fillStyle = '#ff1744';
+      ctx.font = 'bold 72px "Courier New", monospace';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(Math.max(0, Math.floor(elapsed))).padStart(3, '0'), W / 2, H / 2);
+      ctx.textBaseline = 'alphabetic';
+    }
+
     // Peripheral flash (digit in corner — "down" pushed up to avoid cooldown bar overlap)
     if (stim.peripheralFlash) {
       const pf = stim.peripheralFlash;
@@ -191,36 +264,44 @@ export class Canvas2DRenderer {
     }
   }
 
-  private onMouseMove(e: MouseEvent): void {
-    if (this.isPointerLocked) {
-      this.cursorX = Math.max(0, Math.min(this.canvas.width, this.cursorX + e.movementX));
-      this.cursorY = Math.max(0, Math.min(this.canvas.height, this.cursorY + e.movementY));
-    } else {
-      const rect = this.canvas.getBoundingClientRect();
-      this.cursorX = (e.clientX - rect.left) * (this.canvas.width / rect.width);
-      this.cursorY = (e.clientY - rect.top) * (this.canvas.height / rect.height);
+  private onPointerMove(e: PointerEvent): void {
+    const rect = this.canvas.getBoundingClientRect();
+    const moves = e.getCoalescedEvents?.() ?? [];
+    for (const m of moves.length > 0 ? moves : [e]) {
+      if (this.isPointerLocked) {
+        this.cursorX = Math.max(0, Math.min(this.canvas.width, this.cursorX + m.movementX));
+        this.cursorY = Math.max(0, Math.min(this.canvas.height, this.cursorY + m.movementY));
+      } else {
+        this.cursorX = (m.clientX - rect.left) * (this.canvas.width / rect.width);
+        this.cursorY = (m.clientY - rect.top) * (this.canvas.height / rect.height);
+      }
+      this.engine?.handleCursorPosition(this.cursorX, this.cursorY, m.timeStamp);
     }
-    this.engine.handleCursorPosition(this.cursorX, this.cursorY);
   }
 
-  private onClick(_e: MouseEvent): void {
-    if (!this.isPointerLocked && this.lastState?.currentLayer && this.lastState.currentLayer >= 1) {
+  private onClick(e: MouseEvent): void {
+    if (!this.isPointerLocked && this.lastState?.components.includes('tracking')) {
       this.canvas.requestPointerLock();
     }
-    this.engine.handleClick(this.cursorX, this.cursorY);
+    this.engine?.handleClick(this.cursorX, this.cursorY, e.timeStamp);
   }
 
   private onKeyDown(e: KeyboardEvent): void {
     if (e.key === 'Escape') {
       if (document.pointerLockElement) document.exitPointerLock();
-      this.engine.stop();
+      this.engine?.stop();
       return;
     }
-    this.engine.handleKeyPress(e.key);
+    this.engine?.handleKeyPress(e.key, e.timeStamp);
   }
 
   private onPointerLockChange(): void {
     this.isPointerLocked = document.pointerLockElement === this.canvas;
+    this.engine?.handlePointerLockChange(this.isPointerLocked);
+  }
+
+  private onFocusChange(): void {
+    this.engine?.handleFocusChange(document.hasFocus() && document.visibilityState === 'visible');
   }
 
   showCountdown(seconds: number): Promise<void> {
@@ -255,40 +336,50 @@ export class Canvas2DRenderer {
       gap:'1.5rem',padding:'2rem',textAlign:'center',overflowY:'auto'
     });
 
-    // Build practice section based on next layer
+    // Build practice section from the components the next layer adds
+    const newAudio = info.newComponents.includes('audio');
+    const newPeripheral = info.newComponents.includes('peripheral');
+    const newCooldown = info.newComponents.includes('cooldown');
     let practiceHTML = '';
-    if (info.nextLayer === 2) {
-      practiceHTML = `
+    if (newAudio) {
+      const discrimination = this.config.audioResponseMode === 'discrimination';
+      const highKey = discrimination ? AUDIO_RESPONSE_KEYS.high.toUpperCase() : 'SPACE';
+      const lowKey = discrimination ? AUDIO_RESPONSE_KEYS.low.toUpperCase() : 'SPACE';
+      const toneHint = discrimination
+        ? `Press ${highKey} for the high tone and ${lowKey} for the low tone. Ignore the distractor (buzzy sound).`
+        : 'Press SPACE for the high or low tone. Ignore the distractor (buzzy sound).';
+      practiceHTML += `
         <div style="background:rgba(255,255,255,0.08);border-radius:12px;padding:1.25rem;margin:0.5rem 0;max-width:450px;width:100%">
           <p style="color:#90caf9;font-weight:600;margin-bottom:0.75rem;font-size:.95rem">🎧 Practice: Listen to the tones</p>
-          <p style="color:#999;font-size:.82rem;margin-bottom:1rem">Press SPACE for the high or low tone. Ignore the distractor (buzzy sound).</p>
+          <p style="color:#999;font-size:.82rem;margin-bottom:1rem">${toneHint}</p>
           <div style="display:flex;gap:.75rem;justify-content:center;flex-wrap:wrap">
-            <button class="practice-tone-btn" data-tone="high" style="padding:.5rem 1.25rem;background:#1565c0;color:#fff;border:none;border-radius:8px;cursor:pointer;font-size:.9rem">▶ High (respond)</button>
-            <button class="practice-tone-btn" data-tone="low" style="padding:.5rem 1.25rem;background:#6a1b9a;color:#fff;border:none;border-radius:8px;cursor:pointer;font-size:.9rem">▶ Low (respond)</button>
+            <button class="practice-tone-btn" data-tone="high" style="padding:.5rem 1.25rem;background:#1565c0;color:#fff;border:none;border-radius:8px;cursor:pointer;font-size:.9rem">▶ High (${highKey})</button>
+            <button class="practice-tone-btn" data-tone="low" style="padding:.5rem 1.25rem;background:#6a1b9a;color:#fff;border:none;border-radius:8px;cursor:pointer;font-size:.9rem">▶ Low (${lowKey})</button>
             <button class="practice-tone-btn" data-tone="distractor" style="padding:.5rem 1.25rem;background:#c62828;color:#fff;border:none;border-radius:8px;cursor:pointer;font-size:.9rem">▶ Distractor (ignore)</button>
           </div>
         </div>`;
-    } else if (info.nextLayer === 3) {
-      practiceHTML = `
+    }
+    if (newPeripheral || newCooldown) {
+      practiceHTML += `
         <div style="background:rgba(255,255,255,0.08);border-radius:12px;padding:1.25rem;margin:0.5rem 0;max-width:450px;width:100%">
           <p style="color:#90caf9;font-weight:600;margin-bottom:0.75rem;font-size:.95rem">🎯 Practice: New mechanics</p>
-          <div style="margin-bottom:.75rem">
+          ${newPeripheral ? `<div style="margin-bottom:.75rem">
             <p style="color:#ff9800;font-size:.95rem;margin-bottom:.25rem">Peripheral numbers</p>
             <p style="color:#999;font-size:.82rem">Numbers flash at screen edges. Press the matching number key (0-9).</p>
             <div id="practice-periph" style="margin-top:.5rem;height:50px;display:flex;align-items:center;justify-content:center">
               <button id="show-periph" style="padding:.4rem 1rem;background:#e65100;color:#fff;border:none;border-radius:6px;cursor:pointer;font-size:.85rem">Show example</button>
             </div>
-          </div>
-          <div>
+          </div>` : ''}
+          ${newCooldown ? `<div>
             <p style="color:#4caf50;font-size:.95rem;margin-bottom:.25rem">Cooldown bar</p>
             <p style="color:#999;font-size:.82rem">A bar fills at the bottom of the screen. Press F when it turns green and pulses.</p>
-          </div>
+          </div>` : ''}
         </div>`;
     }
 
     this.overlay.innerHTML = `
       <h2 style="color:#4caf50">✓ Layer ${info.completedLayer} Complete</h2>
-      <h3>Next: Layer ${info.nextLayer}</h3>
+      <h3>Next: Layer ${info.nextLayer} — ${info.nextLayerName}</h3>
       <p style="color:#ccc;max-width:500px">${info.description}</p>
       ${info.newElements.length ? `<p style="color:#ff9800;font-size:.9rem">New: ${info.newElements.join(', ')}</p>` : ''}
       <p style="color:#888;font-size:.85rem">${info.controls.map((c: any) => `<kbd style="background:rgba(255,255,255,0.15);padding:.15rem .4rem;border-radius:4px;font-family:monospace;color:#ffeb3b">${c.key}</kbd> ${c.action}`).join(' · ')}</p>
@@ -298,14 +389,15 @@ export class Canvas2DRenderer {
     document.body.appendChild(this.overlay);
 
     // Wire up practice buttons
-    if (info.nextLayer === 2) {
+    if (newAudio) {
       this.overlay.querySelectorAll('.practice-tone-btn').forEach(btn => {
         btn.addEventListener('click', () => {
           const tone = (btn as HTMLElement).dataset.tone as 'high' | 'low' | 'distractor';
           try { getAudioManager().play(tone); } catch {}
         });
       });
-    } else if (info.nextLayer === 3) {
+    }
+    if (newPeripheral) {
       const showPeriphBtn = this.overlay.querySelector('#show-periph');
       const periphArea = this.overlay.querySelector('#practice-periph');
       if (showPeriphBtn && periphArea) {
@@ -339,6 +431,14 @@ export class Canvas2DRenderer {
     }, 1000);
   }
 
+  setReplayOverlay(overlay: ReplayOverlay | null): void {
+    this.replayOverlay = overlay;
+    if (overlay?.cursor) {
+      this.cursorX = overlay.cursor.x;
+      this.cursorY = overlay.cursor.y;
+    }
+  }
+
   showComplete(): void {
     const ctx = this.ctx;
     ctx.fillStyle = '#1a1a2e';
@@ -355,7 +455,10 @@ export class Canvas2DRenderer {
     this.canvas.removeEventListener('click', this.boundClick);
     document.removeEventListener('keydown', this.boundKeyDown);
     document.removeEventListener('pointerlockchange', this.boundPointerLock);
-    document.removeEventListener('mousemove', this.boundMouseMove);
+    document.removeEventListener('pointermove', this.boundPointerMove);
+    window.removeEventListener('blur', this.boundFocusChange);
+    window.removeEventListener('focus', this.boundFocusChange);
+    document.removeEventListener('visibilitychange', this.boundFocusChange);
     if (document.pointerLockElement === this.canvas) document.exitPointerLock();
     this.overlay?.remove();
     try { this.canvas.remove(); } catch {}
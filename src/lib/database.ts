@@ -2,6 +2,10 @@
  * Database Manager for CLST
  * Interfaces with Tauri's SQL plugin for local data persistence
  *
+ * Migrations are additive (ensureColumn, one "vN:" step per SCHEMA_VERSION).
+ * Events are spooled while a test runs and moved to raw_events with the
+ * session; scalar metrics are stored long-format in metric_values.
+ *
  * FIXES from code review:
  * - layer_metrics schema matches insert columns
  * - weight_profiles schema has is_custom and weights (JSON) columns
@@ -15,8 +19,15 @@
 import Database from '@tauri-apps/plugin-sql';
 import type {
   Session, PreSessionCheckin, RawEvent, LayerMetrics,
-  BaselineStats, WeightProfile
+  BaselineStats, WeightProfile, ProtocolDefinition, SessionType,
+  TrialRecord, TrialKind, MetricValue, SessionJournal, SessionStatus
 } from '@/types';
+import { ProtocolManager } from './protocol';
+import { ScoringEngine } from './scoringEngine';
+import { MetricRegistry } from './metricRegistry';
+import { EventBuffer } from './eventBuffer';
+
+const SCHEMA_VERSION = 21;
 
 export class DatabaseManager {
   private static instance: DatabaseManager | null = null;
@@ -85,10 +96,43 @@ export class DatabaseManager {
         checkin_id TEXT,
         profile_id TEXT,
         system_stalls INTEGER DEFAULT 0,
+        protocol_id TEXT,
+        protocol_snapshot TEXT,
+        lpis TEXT,
+        session_type TEXT NOT NULL DEFAULT 'battery',
+        input_lag TEXT,
+        onset_jitter TEXT,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    // v4: protocol-driven batteries
+    await this.ensureColumn(db, 'sessions', 'protocol_id', 'TEXT');
+    await this.ensureColumn(db, 'sessions', 'protocol_snapshot', 'TEXT');
+    await this.ensureColumn(db, 'sessions', 'lpis', 'TEXT');
+
+    // v8: standalone PVT sessions
+    await this.ensureColumn(db, 'sessions', 'session_type', "TEXT NOT NULL DEFAULT 'battery'");
+
+    // v10: input dispatch-lag report
+    await this.ensureColumn(db, 'sessions', 'input_lag', 'TEXT');
+
+    // v11: stimulus onset-jitter report
+    await this.ensureColumn(db, 'sessions', 'onset_jitter', 'TEXT');
+
+    // v17: metrics / scoring pipeline version
+    await this.ensureColumn(db, 'sessions', 'pipeline_version', 'INTEGER');
+
+    // v18: events lost to a full event buffer
+    await this.ensureColumn(db, 'sessions', 'dropped_events', 'INTEGER DEFAULT 0');
+
+    // v20: completed / aborted / invalid, and where an aborted test stopped
+    await this.ensureColumn(db, 'sessions', 'status', "TEXT NOT NULL DEFAULT 'completed'");
+    await this.ensureColumn(db, 'sessions', 'abort_info', 'TEXT');
+
+    // v21: validity score and quality flags (SessionValidator)
+    await this.ensureColumn(db, 'sessions', 'validity', 'TEXT');
+
     await db.execute(`
       CREATE TABLE IF NOT EXISTS session_tags (
         session_id TEXT NOT NULL,
@@ -110,6 +154,26 @@ export class DatabaseManager {
       )
     `);
 
+    // v12: per-trial records (MetricsCalculator.extractTrials)
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS trials (
+        session_id TEXT NOT NULL,
+        layer INTEGER NOT NULL,
+        trial_index INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        onset_us REAL,
+        response_us REAL,
+        rt_ms REAL,
+        outcome TEXT NOT NULL,
+        response_key TEXT,
+        stimulus TEXT,
+        excluded INTEGER DEFAULT 0,
+        PRIMARY KEY (session_id, layer, trial_index),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+    await db.execute('CREATE INDEX IF NOT EXISTS idx_trials_kind ON trials(kind)');
+
     // FIX: Schema matches the columns used in saveLayerMetrics
     await db.execute(`
       CREATE TABLE IF NOT EXISTS layer_metrics (
@@ -133,11 +197,132 @@ export class DatabaseManager {
         cooldown_miss_count INTEGER,
         mean_peripheral_rt REAL,
         peripheral_miss_rate REAL,
+        discrimination_accuracy REAL,
+        wrong_key_errors INTEGER,
+        d_prime REAL,
+        criterion REAL,
+        mean_go_rt REAL,
+        commission_rate REAL,
+        omission_rate REAL,
+        nback_hit_rate REAL,
+        nback_false_alarm_rate REAL,
+        nback_d_prime REAL,
+        mean_nback_rt REAL,
+        pvt_mean_speed REAL,
+        pvt_lapses INTEGER,
+        pvt_false_starts INTEGER,
+        pvt_fastest10_rt REAL,
+        pvt_slowest10_speed REAL,
+        pvt_slope REAL,
+        tracking_gain_low REAL,
+        tracking_gain_mid REAL,
+        tracking_gain_high REAL,
+        tracking_phase_lag_low REAL,
+        tracking_phase_lag_mid REAL,
+        tracking_phase_lag_high REAL,
+        tracking_time_delay REAL,
+        tracking_coherence REAL,
+        tracking_remnant REAL,
         FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
         UNIQUE(session_id, layer)
       )
     `);
 
+    // v5: audio discrimination mode
+    await this.ensureColumn(db, 'layer_metrics', 'discrimination_accuracy', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'wrong_key_errors', 'INTEGER');
+    await this.ensureColumn(db, 'layer_metrics', 'd_prime', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'criterion', 'REAL');
+
+    // v6: go/no-go inhibition
+    await this.ensureColumn(db, 'layer_metrics', 'mean_go_rt', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'commission_rate', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'omission_rate', 'REAL');
+
+    // v7: n-back working-memory stream
+    await this.ensureColumn(db, 'layer_metrics', 'nback_hit_rate', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'nback_false_alarm_rate', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'nback_d_prime', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'mean_nback_rt', 'REAL');
+
+    // v8: PVT outcomes
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_mean_speed', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_lapses', 'INTEGER');
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_false_starts', 'INTEGER');
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_fastest10_rt', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_slowest10_speed', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'pvt_slope', 'REAL');
+
+    // v9: tracking transfer function
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_gain_low', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_gain_mid', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_gain_high', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_phase_lag_low', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_phase_lag_mid', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_phase_lag_high', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_time_delay', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_coherence', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_remnant', 'REAL');
+
+    // v13: ex-Gaussian RT fits
+    for (const prefix of ['rt', 'audio_rt', 'peripheral_rt']) {
+      for (const param of ['mu', 'sigma', 'tau', 'fit_d']) {
+        await this.ensureColumn(db, 'layer_metrics', `${prefix}_${param}`, 'REAL');
+      }
+    }
+
+    // v14: time-on-task series (JSON) and slopes
+    await this.ensureColumn(db, 'layer_metrics', 'time_on_task', 'TEXT');
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_error_slope', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'rt_slope', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'miss_rate_slope', 'REAL');
+
+    // v15: dual-task costs
+    await this.ensureColumn(db, 'layer_metrics', 'tracking_cost', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'audio_rt_cost', 'REAL');
+    await this.ensureColumn(db, 'layer_metrics', 'cost_per_task', 'REAL');
+
+    // v16: long-format metric values (MetricRegistry)
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS metric_values (
+        session_id TEXT NOT NULL,
+        layer INTEGER NOT NULL,
+        metric TEXT NOT NULL,
+        value REAL NOT NULL,
+        PRIMARY KEY (session_id, layer, metric),
+        FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+      )
+    `);
+    await db.execute('CREATE INDEX IF NOT EXISTS idx_metric_values_metric ON metric_values(metric, layer)');
+
+    // v18: events of the test in progress (no session row yet, hence no foreign key)
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS event_spool (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        layer INTEGER NOT NULL,
+        event_type TEXT NOT NULL,
+        timestamp_us REAL NOT NULL,
+        data TEXT
+      )
+    `);
+    await db.execute('CREATE INDEX IF NOT EXISTS idx_event_spool_session ON event_spool(session_id)');
+
+    // v19: journal of the test in progress (crash recovery)
+    await db.execute(`
+      CREATE TABLE IF NOT EXISTS session_journal (
+        session_id TEXT PRIMARY KEY,
+        started_at TEXT NOT NULL,
+        config_snapshot TEXT NOT NULL,
+        protocol_snapshot TEXT NOT NULL,
+        checkin_id TEXT,
+        completed_layers TEXT NOT NULL DEFAULT '[]',
+        system_stalls INTEGER DEFAULT 0,
+        dropped_events INTEGER DEFAULT 0,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     // FIX: Consistent column name 'scope', matching save/get methods
     await db.execute(`
       CREATE TABLE IF NOT EXISTS baselines (
@@ -193,25 +378,60 @@ export class DatabaseManager {
       )
     `);
 
-    // Insert default weight profile if not exists
-    const defaultWeights = JSON.stringify({
-      alpha: 0.35,
-      L0: { rt: 0.6, rt_variance: 0.4 },
-      L1: { track_error: 0.35, track_variance: 0.25, jerk: 0.20, overshoot: 0.20 },
-      L2: { track_error: 0.25, audio_rt: 0.25, audio_accuracy: 0.20, prp: 0.30 },
-      L3: { track_error: 0.15, audio_rt: 0.15, prp: 0.20, cooldown: 0.15, periph_rt: 0.15, periph_miss: 0.20 }
-    });
-
+    // Insert the built-in weight profile, or refresh it when the defaults gained metrics
+    const defaultProfile = ScoringEngine.getDefaultWeightProfile();
     await db.execute(
-      `INSERT OR IGNORE INTO weight_profiles (id, name, is_custom, weights)
-       VALUES ('balanced', 'Balanced', 0, ?)`,
-      [defaultWeights]
+      `INSERT INTO weight_profiles (id, name, is_custom, weights) VALUES (?, ?, 0, ?)
+       ON CONFLICT(id) DO UPDATE SET weights = excluded.weights WHERE is_custom = 0`,
+      [defaultProfile.id, defaultProfile.name, JSON.stringify(defaultProfile.weights)]
     );
 
+    // v16: metric_values backfill, once — later sessions store their values when saved
+    if (version < 16) await this.backfillMetricValues();
+
+    // v20: sessions recovered by v19 were marked with a 'partial' tag instead of a status
+    if (version < 20) {
+      await db.execute(
+        `UPDATE sessions SET status = 'aborted' WHERE id IN (SELECT session_id FROM session_tags WHERE tag = 'partial')`
+      );
+      await db.execute(`DELETE FROM session_tags WHERE tag = 'partial'`);
+    }
+
     // Set schema version
     await db.execute(
-      `INSERT OR REPLACE INTO user_config (key, value, updated_at) VALUES ('schema_version', '3', CURRENT_TIMESTAMP)`
+      `INSERT OR REPLACE INTO user_config (key, value, updated_at) VALUES ('schema_version', ?, CURRENT_TIMESTAMP)`,
+      [String(SCHEMA_VERSION)]
+    );
+  }
+
+  /**
+   * Derive metric_values for sessions stored before v16 from their layer
+   * metrics and trials. Sessions without layer metrics have nothing to derive
+   */
+  private async backfillMetricValues(): Promise<void> {
+    const db = this.ensureDB();
+    const pending = await db.select<Array<{ id: string }>>(
+      `SELECT id FROM sessions
+       WHERE id IN (SELECT DISTINCT session_id FROM layer_metrics)
+         AND id NOT IN (SELECT DISTINCT session_id FROM metric_values)`
     );
+    for (const { id } of pending) {
+      const session = await this.getSession(id);
+      if (!session) continue;
+      const values = MetricRegistry.computeSession(
+        id, session.protocol.layers, await this.getLayerMetrics(id), await this.getTrials(id)
+      );
+      await this.saveMetricValues(values);
+    }
+    if (pending.length > 0) console.log(`Backfilled metric values for ${pending.length} sessions`);
+  }
+
+  /** Add a column to an existing table if it is missing (keeps data from earlier schema versions) */
+  private async ensureColumn(database: Database, table: string, column: string, definition: string): Promise<void> {
+    const columns = await database.select<Array<{ name: string }>>(`PRAGMA table_info(${table})`);
+    if (!columns.some(c => c.name === column)) {
+      await database.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
   }
 
   private async getSchemaVersion(database: Database): Promise<number> {
@@ -241,18 +461,32 @@ export class DatabaseManager {
   // =========================================================================
 
   async saveSession(session: Session): Promise<string> {
+    await this.insertSession(session);
+    return session.id;
+  }
+
+  /** Session row and tags; the caller owns the transaction, if any */
+  private async insertSession(session: Session): Promise<void> {
     const db = this.ensureDB();
     await db.execute(
       `INSERT INTO sessions (
         id, timestamp, config_snapshot, lpi_0, lpi_1, lpi_2, lpi_3,
-        degradation_coeff, crs, notes, checkin_id, profile_id, system_stalls
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        degradation_coeff, crs, notes, checkin_id, profile_id, system_stalls,
+        protocol_id, protocol_snapshot, lpis, session_type, input_lag, onset_jitter, pipeline_version,
+        dropped_events, status, abort_info, validity
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         session.id, session.timestamp.toISOString(),
         JSON.stringify(session.configSnapshot),
         session.lpi0, session.lpi1, session.lpi2, session.lpi3,
         session.degradationCoeff, session.crs, session.notes,
-        session.checkinId, session.profileId, session.systemStalls
+        session.checkinId, session.profileId, session.systemStalls,
+        session.protocol.id, JSON.stringify(session.protocol), JSON.stringify(session.lpis),
+        session.sessionType, session.inputLag ? JSON.stringify(session.inputLag) : null,
+        session.onsetJitter ? JSON.stringify(session.onsetJitter) : null,
+        session.pipelineVersion, session.droppedEvents,
+        session.status, session.abort ? JSON.stringify(session.abort) : null,
+        session.validity ? JSON.stringify(session.validity) : null
       ]
     );
 
@@ -261,7 +495,23 @@ export class DatabaseManager {
         await db.execute('INSERT INTO session_tags (session_id, tag) VALUES (?, ?)', [session.id, tag]);
       }
     }
-    return session.id;
+  }
+
+  /** Rewrite a session's scores, session-level reports and pipeline version (Recompute) */
+  async updateSessionResults(session: Session): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute(
+      `UPDATE sessions SET lpi_0 = ?, lpi_1 = ?, lpi_2 = ?, lpi_3 = ?, lpis = ?,
+        degradation_coeff = ?, crs = ?, input_lag = ?, onset_jitter = ?, pipeline_version = ?
+       WHERE id = ?`,
+      [
+        session.lpi0, session.lpi1, session.lpi2, session.lpi3, JSON.stringify(session.lpis),
+        session.degradationCoeff, session.crs,
+        session.inputLag ? JSON.stringify(session.inputLag) : null,
+        session.onsetJitter ? JSON.stringify(session.onsetJitter) : null,
+        session.pipelineVersion, session.id
+      ]
+    );
   }
 
   async getSession(id: string): Promise<Session | null> {
@@ -276,27 +526,52 @@ export class DatabaseManager {
   }
 
   // FIX: Uses LEFT JOIN to avoid N+1 tag queries
-  async getAllSessions(limit?: number): Promise<Session[]> {
+  async getAllSessions(limit?: number, sessionType?: SessionType): Promise<Session[]> {
     const db = this.ensureDB();
-    const query = limit
-      ? 'SELECT s.*, GROUP_CONCAT(st.tag) as tags_csv FROM sessions s LEFT JOIN session_tags st ON s.id = st.session_id GROUP BY s.id ORDER BY s.timestamp DESC LIMIT ?'
-      : 'SELECT s.*, GROUP_CONCAT(st.tag) as tags_csv FROM sessions s LEFT JOIN session_tags st ON s.id = st.session_id GROUP BY s.id ORDER BY s.timestamp DESC';
-    const params = limit ? [limit] : [];
+    const where = sessionType ? 'WHERE s.session_type = ? ' : '';
+    const query = `SELECT s.*, GROUP_CONCAT(st.tag) as tags_csv FROM sessions s LEFT JOIN session_tags st ON s.id = st.session_id ${where}GROUP BY s.id ORDER BY s.timestamp DESC${limit ? ' LIMIT ?' : ''}`;
+    const params: unknown[] = [];
+    if (sessionType) params.push(sessionType);
+    if (limit) params.push(limit);
     const results = await db.select<any[]>(query, params);
     return results.map(row => this.rowToSession(row, row.tags_csv ? row.tags_csv.split(',') : []));
   }
 
-  async getSessionCount(): Promise<number> {
+  /** Sessions in the whole database, or only those scored against one baseline scope */
+  async getSessionCount(scope?: string): Promise<number> {
+    if (scope) return (await this.getScopeSessions(scope)).length;
     const db = this.ensureDB();
     const results = await db.select<Array<{ count: number }>>('SELECT COUNT(*) as count FROM sessions');
     return results[0]?.count ?? 0;
   }
 
+  /** Sessions scored against `scope` (ScoringEngine.baselineScope), newest first; aborted and invalid ones left out */
+  private async getScopeSessions(scope: string): Promise<Session[]> {
+    const type: SessionType = scope === 'rolling' ? 'battery' : 'pvt';
+    return (await this.getAllSessions(undefined, type))
+      .filter(s => ScoringEngine.baselineScope(s.protocol) === scope && ScoringEngine.entersBaseline(s));
+  }
+
   private rowToSession(row: any, tags: string[]): Session {
+    // Sessions from before v4 have no protocol columns — they ran the standard battery
+    let protocol: ProtocolDefinition;
+    try {
+      protocol = row.protocol_snapshot
+        ? ProtocolManager.parse(row.protocol_snapshot)
+        : ProtocolManager.resolve(row.protocol_id ?? undefined);
+    } catch {
+      protocol = ProtocolManager.resolve(row.protocol_id ?? undefined);
+    }
+    const lpis: Record<number, number | null> = row.lpis
+      ? JSON.parse(row.lpis)
+      : { 0: row.lpi_0, 1: row.lpi_1, 2: row.lpi_2, 3: row.lpi_3 };
     return {
       id: row.id,
       timestamp: new Date(row.timestamp),
+      sessionType: row.session_type === 'pvt' ? 'pvt' : 'battery',
       configSnapshot: JSON.parse(row.config_snapshot || '{}'),
+      protocol,
+      lpis,
       lpi0: row.lpi_0,
       lpi1: row.lpi_1,
       lpi2: row.lpi_2,
@@ -307,7 +582,14 @@ export class DatabaseManager {
       tags,
       checkinId: row.checkin_id,
       profileId: row.profile_id || 'balanced',
-      systemStalls: row.system_stalls || 0
+      systemStalls: row.system_stalls || 0,
+      inputLag: row.input_lag ? JSON.parse(row.input_lag) : null,
+      onsetJitter: row.onset_jitter ? JSON.parse(row.onset_jitter) : null,
+      pipelineVersion: row.pipeline_version ?? null,
+      droppedEvents: row.dropped_events || 0,
+      status: row.status ?? 'completed',
+      abort: row.abort_info ? JSON.parse(row.abort_info) : null,
+      validity: row.validity ? JSON.parse(row.validity) : null
     };
   }
 
@@ -358,32 +640,176 @@ export class DatabaseManager {
   }
 
   // =========================================================================
-  // RAW EVENTS — batched insert
+  // RAW EVENTS — batched insert, one transaction per chunk
   // =========================================================================
 
   async saveRawEvents(events: RawEvent[]): Promise<void> {
+    await this.insertEvents('raw_events', events);
+  }
+
+  /** Append events of the test in progress (TestEngine's onFlushEvents sink) */
+  async spoolEvents(events: RawEvent[]): Promise<void> {
+    await this.insertEvents('event_spool', events);
+  }
+
+  /** Spooled events of a session, in recording order */
+  async getSpooledEvents(sessionId: string): Promise<RawEvent[]> {
     const db = this.ensureDB();
-    if (events.length === 0) return;
+    const results = await db.select<any[]>(
+      'SELECT layer, event_type, timestamp_us, data FROM event_spool WHERE session_id = ? ORDER BY id',
+      [sessionId]
+    );
+    return results.map(r => this.rowToRawEvent(sessionId, r));
+  }
 
-    await db.execute('BEGIN TRANSACTION');
-    try {
-      // Batch in groups of 200
-      const batchSize = 200;
-      for (let i = 0; i < events.length; i += batchSize) {
-        const batch = events.slice(i, i + batchSize);
-        const placeholders = batch.map(() => '(?, ?, ?, ?, ?)').join(', ');
-        const params: any[] = [];
-        for (const event of batch) {
-          params.push(
-            event.sessionId, event.layer, event.eventType,
-            event.timestampUs, JSON.stringify(event.data)
-          );
-        }
-        await db.execute(
-          `INSERT INTO raw_events (session_id, layer, event_type, timestamp_us, data) VALUES ${placeholders}`,
-          params
+  /** Move a saved session's spooled events into raw_events; the caller owns the transaction */
+  private async moveSpooledEvents(sessionId: string): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute(
+      `INSERT INTO raw_events (session_id, layer, event_type, timestamp_us, data)
+       SELECT session_id, layer, event_type, timestamp_us, data FROM event_spool WHERE session_id = ? ORDER BY id`,
+      [sessionId]
+    );
+    await db.execute('DELETE FROM event_spool WHERE session_id = ?', [sessionId]);
+  }
+
+  async discardSpooledEvents(sessionId: string): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute('DELETE FROM event_spool WHERE session_id = ?', [sessionId]);
+  }
+
+  // =========================================================================
+  // SESSION JOURNAL — test in progress
+  // =========================================================================
+
+  async openJournal(journal: SessionJournal): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute(
+      `INSERT OR REPLACE INTO session_journal (
+        session_id, started_at, config_snapshot, protocol_snapshot, checkin_id,
+        completed_layers, system_stalls, dropped_events
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        journal.sessionId, journal.startedAt.toISOString(), JSON.stringify(journal.configSnapshot),
+        JSON.stringify(journal.protocol), journal.checkinId, JSON.stringify(journal.completedLayers),
+        journal.systemStalls, journal.droppedEvents
+      ]
+    );
+  }
+
+  /** Record a layer whose events are all spooled, with the engine's counters at that point */
+  async journalLayer(sessionId: string, layer: number, systemStalls: number, droppedEvents: number): Promise<void> {
+    const db = this.ensureDB();
+    const rows = await db.select<Array<{ completed_layers: string }>>(
+      'SELECT completed_layers FROM session_journal WHERE session_id = ?', [sessionId]
+    );
+    if (rows.length === 0) return;
+    const layers: number[] = JSON.parse(rows[0].completed_layers || '[]');
+    if (!layers.includes(layer)) layers.push(layer);
+    await db.execute(
+      `UPDATE session_journal SET completed_layers = ?, system_stalls = ?, dropped_events = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE session_id = ?`,
+      [JSON.stringify(layers), systemStalls, droppedEvents, sessionId]
+    );
+  }
+
+  /** The oldest test left unfinished (app closed or crashed mid-test), if any */
+  async getOpenJournal(): Promise<SessionJournal | null> {
+    const db = this.ensureDB();
+    const rows = await db.select<any[]>('SELECT * FROM session_journal ORDER BY started_at LIMIT 1');
+    if (rows.length === 0) return null;
+    const r = rows[0];
+    return {
+      sessionId: r.session_id,
+      startedAt: new Date(r.started_at),
+      protocol: ProtocolManager.parse(r.protocol_snapshot),
+      configSnapshot: JSON.parse(r.config_snapshot),
+      checkinId: r.checkin_id,
+      completedLayers: JSON.parse(r.completed_layers || '[]'),
+      systemStalls: r.system_stalls || 0,
+      droppedEvents: r.dropped_events || 0
+    };
+  }
+
+  /** The session was saved: drop its journal (its spooled events were committed) */
+  async finishJournal(sessionId: string): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute('DELETE FROM session_journal WHERE session_id = ?', [sessionId]);
+  }
+
+  /** Throw an unfinished test away: journal and spooled events */
+  async discardJournal(sessionId: string): Promise<void> {
+    await this.finishJournal(sessionId);
+    await this.discardSpooledEvents(sessionId);
+  }
+
+  private async insertEvents(table: 'raw_events' | 'event_spool', events: RawEvent[]): Promise<void> {
+    const db = this.ensureDB();
+    // Committed every EventBuffer chunk so a long session never holds one giant transaction
+    const chunkSize = EventBuffer.CHUNK_SIZE;
+    for (let start = 0; start < events.length; start += chunkSize) {
+      await db.execute('BEGIN TRANSACTION');
+      try {
+        await this.insertEventRows(table, events.slice(start, start + chunkSize));
+        await db.execute('COMMIT');
+      } catch (error) {
+        await db.execute('ROLLBACK');
+        throw error;
+      }
+    }
+  }
+
+  /** Batches of 200 rows; the caller owns the transaction */
+  private async insertEventRows(table: 'raw_events' | 'event_spool', events: RawEvent[]): Promise<void> {
+    const db = this.ensureDB();
+    const batchSize = 200;
+    for (let i = 0; i < events.length; i += batchSize) {
+      const batch = events.slice(i, i + batchSize);
+      const placeholders = batch.map(() => '(?, ?, ?, ?, ?)').join(', ');
+      const params: any[] = [];
+      for (const event of batch) {
+        params.push(
+          event.sessionId, event.layer, event.eventType,
+          event.timestampUs, JSON.stringify(event.data)
         );
       }
+      await db.execute(
+        `INSERT INTO ${table} (session_id, layer, event_type, timestamp_us, data) VALUES ${placeholders}`,
+        params
+      );
+    }
+  }
+
+  async getRawEvents(sessionId: string): Promise<RawEvent[]> {
+    const db = this.ensureDB();
+    const results = await db.select<any[]>(
+      'SELECT layer, event_type, timestamp_us, data FROM raw_events WHERE session_id = ? ORDER BY timestamp_us, id',
+      [sessionId]
+    );
+    return results.map(r => this.rowToRawEvent(sessionId, r));
+  }
+
+  private rowToRawEvent(sessionId: string, r: any): RawEvent {
+    return {
+      sessionId,
+      layer: r.layer,
+      eventType: r.event_type,
+      timestampUs: r.timestamp_us,
+      data: JSON.parse(r.data || '{}')
+    };
+  }
+
+  // =========================================================================
+  // TRIALS
+  // =========================================================================
+
+  async saveTrials(trials: TrialRecord[]): Promise<void> {
+    const db = this.ensureDB();
+    if (trials.length === 0) return;
+
+    await db.execute('BEGIN TRANSACTION');
+    try {
+      await this.insertTrials(trials);
       await db.execute('COMMIT');
     } catch (error) {
       await db.execute('ROLLBACK');
@@ -391,6 +817,74 @@ export class DatabaseManager {
     }
   }
 
+  /** Batched trial inserts; the caller owns the transaction */
+  private async insertTrials(trials: TrialRecord[]): Promise<void> {
+    const db = this.ensureDB();
+    const batchSize = 100;
+    for (let i = 0; i < trials.length; i += batchSize) {
+      const batch = trials.slice(i, i + batchSize);
+      const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+      const params: any[] = [];
+      for (const t of batch) {
+        params.push(
+          t.sessionId, t.layer, t.trialIndex, t.kind, t.onsetUs, t.responseUs, t.rtMs,
+          t.outcome, t.responseKey, JSON.stringify(t.stimulus), t.excluded ? 1 : 0
+        );
+      }
+      await db.execute(
+        `INSERT OR REPLACE INTO trials (session_id, layer, trial_index, kind, onset_us, response_us, rt_ms, outcome, response_key, stimulus, excluded) VALUES ${placeholders}`,
+        params
+      );
+    }
+  }
+
+  /** A session's trials (optionally one layer), in layer / trial order */
+  async getTrials(sessionId: string, layer?: number): Promise<TrialRecord[]> {
+    const db = this.ensureDB();
+    const where = layer != null ? ' AND layer = ?' : '';
+    const results = await db.select<any[]>(
+      `SELECT * FROM trials WHERE session_id = ?${where} ORDER BY layer, trial_index`,
+      layer != null ? [sessionId, layer] : [sessionId]
+    );
+    return results.map(r => this.rowToTrial(r));
+  }
+
+  /** One kind of trial across sessions, oldest session first (excluded trials left out unless asked for) */
+  async getTrialsByKind(kind: TrialKind, options: { includeExcluded?: boolean; sessionType?: SessionType } = {}): Promise<TrialRecord[]> {
+    const db = this.ensureDB();
+    let query = 'SELECT t.* FROM trials t JOIN sessions s ON s.id = t.session_id WHERE t.kind = ?';
+    const params: unknown[] = [kind];
+    if (!options.includeExcluded) query += ' AND t.excluded = 0';
+    if (options.sessionType) { query += ' AND s.session_type = ?'; params.push(options.sessionType); }
+    const results = await db.select<any[]>(`${query} ORDER BY s.timestamp, t.layer, t.trial_index`, params);
+    return results.map(r => this.rowToTrial(r));
+  }
+
+  /** Mark a trial as excluded from (or restored to) its layer's aggregates */
+  async setTrialExcluded(sessionId: string, layer: number, trialIndex: number, excluded: boolean): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute(
+      'UPDATE trials SET excluded = ? WHERE session_id = ? AND layer = ? AND trial_index = ?',
+      [excluded ? 1 : 0, sessionId, layer, trialIndex]
+    );
+  }
+
+  private rowToTrial(r: any): TrialRecord {
+    return {
+      sessionId: r.session_id,
+      layer: r.layer,
+      trialIndex: r.trial_index,
+      kind: r.kind,
+      onsetUs: r.onset_us ?? null,
+      responseUs: r.response_us ?? null,
+      rtMs: r.rt_ms ?? null,
+      outcome: r.outcome,
+      responseKey: r.response_key ?? null,
+      stimulus: JSON.parse(r.stimulus || '{}'),
+      excluded: r.excluded === 1
+    };
+  }
+
   // =========================================================================
   // LAYER METRICS
   // =========================================================================
@@ -404,8 +898,20 @@ export class DatabaseManager {
         mean_tracking_error, tracking_error_variance, mean_jerk, overshoot_rate,
         mean_audio_rt, audio_accuracy, audio_false_positives, mean_prp_duration,
         mean_cooldown_delay, cooldown_miss_count,
-        mean_peripheral_rt, peripheral_miss_rate
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        mean_peripheral_rt, peripheral_miss_rate,
+        discrimination_accuracy, wrong_key_errors, d_prime, criterion,
+        mean_go_rt, commission_rate, omission_rate,
+        nback_hit_rate, nback_false_alarm_rate, nback_d_prime, mean_nback_rt,
+        pvt_mean_speed, pvt_lapses, pvt_false_starts, pvt_fastest10_rt, pvt_slowest10_speed, pvt_slope,
+        tracking_gain_low, tracking_gain_mid, tracking_gain_high,
+        tracking_phase_lag_low, tracking_phase_lag_mid, tracking_phase_lag_high,
+        tracking_time_delay, tracking_coherence, tracking_remnant,
+        rt_mu, rt_sigma, rt_tau, rt_fit_d,
+        audio_rt_mu, audio_rt_sigma, audio_rt_tau, audio_rt_fit_d,
+        peripheral_rt_mu, peripheral_rt_sigma, peripheral_rt_tau, peripheral_rt_fit_d,
+        time_on_task, tracking_error_slope, rt_slope, miss_rate_slope,
+        tracking_cost, audio_rt_cost, cost_per_task
+      ) VALUES (${new Array(64).fill('?').join(', ')})`,
       [
         metrics.sessionId, metrics.layer,
         metrics.meanRT ?? null, metrics.rtVariance ?? null, metrics.rtStd ?? null,
@@ -415,7 +921,23 @@ export class DatabaseManager {
         metrics.meanAudioRT ?? null, metrics.audioAccuracy ?? null,
         metrics.audioFalsePositives ?? null, metrics.meanPRPDuration ?? null,
         metrics.meanCooldownDelay ?? null, metrics.cooldownMissCount ?? null,
-        metrics.meanPeripheralRT ?? null, metrics.peripheralMissRate ?? null
+        metrics.meanPeripheralRT ?? null, metrics.peripheralMissRate ?? null,
+        metrics.discriminationAccuracy ?? null, metrics.wrongKeyErrors ?? null,
+        metrics.dPrime ?? null, metrics.criterion ?? null,
+        metrics.meanGoRT ?? null, metrics.commissionRate ?? null, metrics.omissionRate ?? null,
+        metrics.nbackHitRate ?? null, metrics.nbackFalseAlarmRate ?? null,
+        metrics.nbackDPrime ?? null, metrics.meanNBackRT ?? null,
+        metrics.pvtMeanSpeed ?? null, metrics.pvtLapses ?? null, metrics.pvtFalseStarts ?? null,
+        metrics.pvtFastest10RT ?? null, metrics.pvtSlowest10Speed ?? null, metrics.pvtSlope ?? null,
+        metrics.trackingGainLow ?? null, metrics.trackingGainMid ?? null, metrics.trackingGainHigh ?? null,
+        metrics.trackingPhaseLagLow ?? null, metrics.trackingPhaseLagMid ?? null, metrics.trackingPhaseLagHigh ?? null,
+        metrics.trackingTimeDelay ?? null, metrics.trackingCoherence ?? null, metrics.trackingRemnant ?? null,
+        metrics.rtMu ?? null, metrics.rtSigma ?? null, metrics.rtTau ?? null, metrics.rtFitD ?? null,
+        metrics.audioRTMu ?? null, metrics.audioRTSigma ?? null, metrics.audioRTTau ?? null, metrics.audioRTFitD ?? null,
+        metrics.peripheralRTMu ?? null, metrics.peripheralRTSigma ?? null, metrics.peripheralRTTau ?? null, metrics.peripheralRTFitD ?? null,
+        metrics.timeOnTask ? JSON.stringify(metrics.timeOnTask) : null,
+        metrics.trackingErrorSlope ?? null, metrics.rtSlope ?? null, metrics.missRateSlope ?? null,
+        metrics.trackingCost ?? null, metrics.audioRTCost ?? null, metrics.costPerTask ?? null
       ]
     );
   }
@@ -425,7 +947,11 @@ export class DatabaseManager {
     const results = await db.select<any[]>(
       'SELECT * FROM layer_metrics WHERE session_id = ? ORDER BY layer', [sessionId]
     );
-    return results.map(r => ({
+    return results.map(r => this.rowToLayerMetrics(r));
+  }
+
+  private rowToLayerMetrics(r: any): LayerMetrics {
+    return {
       sessionId: r.session_id,
       layer: r.layer,
       meanRT: r.mean_rt ?? undefined,
@@ -445,7 +971,156 @@ export class DatabaseManager {
       cooldownMissCount: r.cooldown_miss_count ?? undefined,
       meanPeripheralRT: r.mean_peripheral_rt ?? undefined,
       peripheralMissRate: r.peripheral_miss_rate ?? undefined,
-    }));
+      discriminationAccuracy: r.discrimination_accuracy ?? undefined,
+      wrongKeyErrors: r.wrong_key_errors ?? undefined,
+      dPrime: r.d_prime ?? undefined,
+      criterion: r.criterion ?? undefined,
+      meanGoRT: r.mean_go_rt ?? undefined,
+      commissionRate: r.commission_rate ?? undefined,
+      omissionRate: r.omission_rate ?? undefined,
+      nbackHitRate: r.nback_hit_rate ?? undefined,
+      nbackFalseAlarmRate: r.nback_false_alarm_rate ?? undefined,
+      nbackDPrime: r.nback_d_prime ?? undefined,
+      meanNBackRT: r.mean_nback_rt ?? undefined,
+      pvtMeanSpeed: r.pvt_mean_speed ?? undefined,
+      pvtLapses: r.pvt_lapses ?? undefined,
+      pvtFalseStarts: r.pvt_false_starts ?? undefined,
+      pvtFastest10RT: r.pvt_fastest10_rt ?? undefined,
+      pvtSlowest10Speed: r.pvt_slowest10_speed ?? undefined,
+      pvtSlope: r.pvt_slope ?? undefined,
+      trackingGainLow: r.tracking_gain_low ?? undefined,
+      trackingGainMid: r.tracking_gain_mid ?? undefined,
+      trackingGainHigh: r.tracking_gain_high ?? undefined,
+      trackingPhaseLagLow: r.tracking_phase_lag_low ?? undefined,
+      trackingPhaseLagMid: r.tracking_phase_lag_mid ?? undefined,
+      trackingPhaseLagHigh: r.tracking_phase_lag_high ?? undefined,
+      trackingTimeDelay: r.tracking_time_delay ?? undefined,
+      trackingCoherence: r.tracking_coherence ?? undefined,
+      trackingRemnant: r.tracking_remnant ?? undefined,
+      rtMu: r.rt_mu ?? undefined,
+      rtSigma: r.rt_sigma ?? undefined,
+      rtTau: r.rt_tau ?? undefined,
+      rtFitD: r.rt_fit_d ?? undefined,
+      audioRTMu: r.audio_rt_mu ?? undefined,
+      audioRTSigma: r.audio_rt_sigma ?? undefined,
+      audioRTTau: r.audio_rt_tau ?? undefined,
+      audioRTFitD: r.audio_rt_fit_d ?? undefined,
+      peripheralRTMu: r.peripheral_rt_mu ?? undefined,
+      peripheralRTSigma: r.peripheral_rt_sigma ?? undefined,
+      peripheralRTTau: r.peripheral_rt_tau ?? undefined,
+      peripheralRTFitD: r.peripheral_rt_fit_d ?? undefined,
+      timeOnTask: r.time_on_task ? JSON.parse(r.time_on_task) : undefined,
+      trackingErrorSlope: r.tracking_error_slope ?? undefined,
+      rtSlope: r.rt_slope ?? undefined,
+      missRateSlope: r.miss_rate_slope ?? undefined,
+      trackingCost: r.tracking_cost ?? undefined,
+      audioRTCost: r.audio_rt_cost ?? undefined,
+      costPerTask: r.cost_per_task ?? undefined,
+    };
+  }
+
+  /** Swap a session's derived data (layer metrics, metric values, trials) for a recomputed set */
+  async replaceSessionMetrics(
+    sessionId: string, layerMetrics: LayerMetrics[], metricValues: MetricValue[], trials: TrialRecord[]
+  ): Promise<void> {
+    const db = this.ensureDB();
+    // One transaction: a failed insert must not leave the session without its stored metrics
+    await db.execute('BEGIN TRANSACTION');
+    try {
+      await db.execute('DELETE FROM layer_metrics WHERE session_id = ?', [sessionId]);
+      await db.execute('DELETE FROM metric_values WHERE session_id = ?', [sessionId]);
+      await db.execute('DELETE FROM trials WHERE session_id = ?', [sessionId]);
+      for (const m of layerMetrics) await this.saveLayerMetrics(m);
+      await this.insertMetricValues(metricValues);
+      await this.insertTrials(trials);
+      await db.execute('COMMIT');
+    } catch (error) {
+      await db.execute('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Save a finished (or aborted) test: session row, layer metrics, metric values,
+   * trials, its spooled and still-buffered events, and drop its journal. One
+   * transaction, so a failure leaves the journal and spool for recovery.
+   */
+  async saveSessionResults(
+    session: Session, layerMetrics: LayerMetrics[], metricValues: MetricValue[],
+    trials: TrialRecord[], unspooledEvents: RawEvent[]
+  ): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute('BEGIN TRANSACTION');
+    try {
+      await this.insertSession(session);
+      for (const m of layerMetrics) await this.saveLayerMetrics(m);
+      await this.insertMetricValues(metricValues);
+      await this.moveSpooledEvents(session.id);
+      await this.insertEventRows('raw_events', unspooledEvents);
+      await this.insertTrials(trials);
+      await db.execute('DELETE FROM session_journal WHERE session_id = ?', [session.id]);
+      await db.execute('COMMIT');
+    } catch (error) {
+      await db.execute('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // =========================================================================
+  // METRIC VALUES (long format)
+  // =========================================================================
+
+  async saveMetricValues(values: MetricValue[]): Promise<void> {
+    const db = this.ensureDB();
+    if (values.length === 0) return;
+
+    await db.execute('BEGIN TRANSACTION');
+    try {
+      await this.insertMetricValues(values);
+      await db.execute('COMMIT');
+    } catch (error) {
+      await db.execute('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /** Batched metric-value inserts; the caller owns the transaction */
+  private async insertMetricValues(values: MetricValue[]): Promise<void> {
+    const db = this.ensureDB();
+    const batchSize = 200;
+    for (let i = 0; i < values.length; i += batchSize) {
+      const batch = values.slice(i, i + batchSize);
+      const placeholders = batch.map(() => '(?, ?, ?, ?)').join(', ');
+      const params: any[] = [];
+      for (const v of batch) params.push(v.sessionId, v.layer, v.metric, v.value);
+      await db.execute(
+        `INSERT OR REPLACE INTO metric_values (session_id, layer, metric, value) VALUES ${placeholders}`,
+        params
+      );
+    }
+  }
+
+  async getMetricValues(sessionId: string): Promise<MetricValue[]> {
+    const db = this.ensureDB();
+    const results = await db.select<any[]>(
+      'SELECT * FROM metric_values WHERE session_id = ? ORDER BY layer', [sessionId]
+    );
+    return results.map(r => this.rowToMetricValue(r));
+  }
+
+  /** Metric values of every session (optionally one session type), oldest first */
+  async getAllMetricValues(sessionType?: SessionType): Promise<MetricValue[]> {
+    const db = this.ensureDB();
+    const where = sessionType ? ' WHERE s.session_type = ?' : '';
+    const results = await db.select<any[]>(
+      `SELECT mv.* FROM metric_values mv JOIN sessions s ON s.id = mv.session_id${where} ORDER BY s.timestamp, mv.layer`,
+      sessionType ? [sessionType] : []
+    );
+    return results.map(r => this.rowToMetricValue(r));
+  }
+
+  private rowToMetricValue(r: any): MetricValue {
+    return { sessionId: r.session_id, layer: r.layer, metric: r.metric, value: r.value };
   }
 
   // =========================================================================
@@ -463,6 +1138,22 @@ export class DatabaseManager {
     );
   }
 
+  /** Replace a scope's per-layer metric baselines (session-level ones such as 'crs' are kept) */
+  async replaceBaselines(
+    scope: string, baselines: Array<{ metricName: string; layer: number; stats: BaselineStats }>
+  ): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute('BEGIN TRANSACTION');
+    try {
+      await db.execute('DELETE FROM baselines WHERE scope = ? AND layer IS NOT NULL', [scope]);
+      for (const b of baselines) await this.saveBaseline(scope, b.metricName, b.layer, b.stats);
+      await db.execute('COMMIT');
+    } catch (error) {
+      await db.execute('ROLLBACK');
+      throw error;
+    }
+  }
+
   async getBaseline(scope: string, metricName: string, layer: number | null): Promise<BaselineStats | null> {
     const db = this.ensureDB();
     const results = await db.select<any[]>(
@@ -479,58 +1170,33 @@ export class DatabaseManager {
   }
 
   // FIX: Skips calibration sessions correctly (first 5 chronologically, not most recent)
-  async updateRollingBaseline(metricName: string, layer: number, windowSize: number = 20): Promise<void> {
-    const db = this.ensureDB();
-    const allSessions = await this.getAllSessions();
-    // getAllSessions returns DESC — reverse to get chronological order
+  async updateRollingBaseline(
+    metricName: string, layer: number, windowSize: number = 20, scope: string = 'rolling'
+  ): Promise<void> {
+    const allSessions = await this.getScopeSessions(scope);
+    // Sessions come back DESC — reverse to get chronological order
     const chronological = [...allSessions].reverse();
     // Skip first 5 (calibration)
     const postCalibration = chronological.slice(5);
     // Take the most recent W from post-calibration
     const recent = postCalibration.slice(-windowSize);
 
-    if (recent.length === 0) return;
-
+    const db = this.ensureDB();
     const values: number[] = [];
     for (const session of recent) {
-      const metrics = await this.getLayerMetrics(session.id);
-      const layerMetric = metrics.find(m => m.layer === layer);
-      if (layerMetric) {
-        const value = this.extractMetricValue(layerMetric, metricName);
-        if (value !== null) values.push(value);
-      }
+      const rows = await db.select<Array<{ value: number }>>(
+        'SELECT value FROM metric_values WHERE session_id = ? AND layer = ? AND metric = ?',
+        [session.id, layer, metricName]
+      );
+      if (rows.length > 0) values.push(rows[0].value);
+    }
+    // Nothing left in the window (e.g. its only session was marked invalid): drop the stale baseline
+    if (values.length === 0) {
+      await db.execute('DELETE FROM baselines WHERE scope = ? AND metric_name = ? AND layer = ?', [scope, metricName, layer]);
+      return;
     }
-    if (values.length === 0) return;
 
-    // Compute stats
-    const sorted = [...values].sort((a, b) => a - b);
-    const n = sorted.length;
-    const median = n % 2 === 1 ? sorted[Math.floor(n / 2)] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
-    const q1Index = Math.floor(n / 4);
-    const q3Index = Math.floor(3 * n / 4);
-    const q1 = sorted[q1Index], q3 = sorted[q3Index], iqr = q3 - q1;
-    const deviations = values.map(v => Math.abs(v - median)).sort((a, b) => a - b);
-    const madMedian = deviations[Math.floor(deviations.length / 2)];
-
-    await this.saveBaseline('rolling', metricName, layer, {
-      median, madScaled: 1.4826 * madMedian, q1, q3, iqr,
-      minVal: sorted[0], maxVal: sorted[n - 1], windowSize: values.length
-    });
-  }
-
-  private extractMetricValue(metrics: LayerMetrics, metricName: string): number | null {
-    const map: Record<string, keyof LayerMetrics> = {
-      'rt': 'meanRT', 'rt_variance': 'rtVariance',
-      'track_error': 'meanTrackingError', 'track_variance': 'trackingErrorVariance',
-      'jerk': 'meanJerk', 'overshoot': 'overshootRate',
-      'audio_rt': 'meanAudioRT', 'audio_accuracy': 'audioAccuracy',
-      'prp': 'meanPRPDuration', 'cooldown': 'meanCooldownDelay',
-      'periph_rt': 'meanPeripheralRT', 'periph_miss': 'peripheralMissRate'
-    };
-    const key = map[metricName];
-    if (!key) return null;
-    const value = metrics[key];
-    return typeof value === 'number' ? value : null;
+    await this.saveBaseline(scope, metricName, layer, ScoringEngine.rollingBaselineStats(values));
   }
 
   // =========================================================================
@@ -553,6 +1219,30 @@ export class DatabaseManager {
     );
   }
 
+  // =========================================================================
+  // CUSTOM PROTOCOLS (stored as a JSON array in user_config)
+  // =========================================================================
+
+  async getCustomProtocols(): Promise<ProtocolDefinition[]> {
+    const json = await this.getConfig('custom_protocols');
+    if (!json) return [];
+    const protocols: ProtocolDefinition[] = [];
+    for (const raw of JSON.parse(json) as unknown[]) {
+      try { protocols.push(ProtocolManager.parse(raw)); }
+      catch (e) { console.warn('Skipping invalid stored protocol:', e); }
+    }
+    return protocols;
+  }
+
+  /** Insert or replace a custom protocol by id. Built-in ids are reserved. */
+  async saveCustomProtocol(protocol: ProtocolDefinition): Promise<void> {
+    if (ProtocolManager.listBuiltin().some(p => p.id === protocol.id)) {
+      throw new Error(`Protocol id "${protocol.id}" is reserved for a built-in protocol`);
+    }
+    const existing = (await this.getCustomProtocols()).filter(p => p.id !== protocol.id);
+    await this.setConfig('custom_protocols', JSON.stringify([...existing, protocol]));
+  }
+
   // =========================================================================
   // WEIGHT PROFILES
   // =========================================================================
@@ -587,6 +1277,11 @@ export class DatabaseManager {
     await db.execute('UPDATE sessions SET notes = ? WHERE id = ?', [notes, sessionId]);
   }
 
+  async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    const db = this.ensureDB();
+    await db.execute('UPDATE sessions SET status = ? WHERE id = ?', [status, sessionId]);
+  }
+
   async addSessionTag(sessionId: string, tag: string): Promise<void> {
     const db = this.ensureDB();
     await db.execute('INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES (?, ?)', [sessionId, tag]);
@@ -606,13 +1301,17 @@ export class DatabaseManager {
   async exportAllSessions(): Promise<string> {
     const sessions = await this.getAllSessions();
     if (sessions.length === 0) return '';
-    const headers = ['Session ID','Timestamp','CRS','DC','LPI L0','LPI L1','LPI L2','LPI L3','System Stalls','Tags','Notes'];
+    const headers = ['Session ID','Timestamp','Type','Protocol','CRS','DC','LPI L0','LPI L1','LPI L2','LPI L3','System Stalls','Dropped Events','Input Lag Mean (ms)','Input Lag P95 (ms)','Onset Delay Mean (ms)','Onset Jitter SD (ms)','Pipeline Version','Status','Abort Layer','Abort Time (s)','Abort Reason','Validity Score','Quality Flags','Tags','Notes'];
     const rows = sessions.map(s => [
-      s.id, s.timestamp.toISOString(),
+      s.id, s.timestamp.toISOString(), s.sessionType, s.protocol.id,
       s.crs?.toString() ?? '', s.degradationCoeff?.toString() ?? '',
       s.lpi0?.toString() ?? '', s.lpi1?.toString() ?? '',
       s.lpi2?.toString() ?? '', s.lpi3?.toString() ?? '',
-      s.systemStalls.toString(), s.tags.join(';'),
+      s.systemStalls.toString(), s.droppedEvents.toString(), s.inputLag?.meanMs.toFixed(2) ?? '', s.inputLag?.p95Ms.toFixed(2) ?? '',
+      s.onsetJitter?.meanMs.toFixed(2) ?? '', s.onsetJitter?.sdMs.toFixed(2) ?? '',
+      s.pipelineVersion?.toString() ?? '', s.status, s.abort?.layer?.toString() ?? '',
+      s.abort?.elapsedSeconds?.toFixed(1) ?? '', (s.abort?.reason || '').replace(/,/g, ';'),
+      s.validity?.score.toString() ?? '', s.validity?.flags.map(f => f.message).join(';') ?? '', s.tags.join(';'),
       (s.notes || '').replace(/,/g, ';').replace(/\n/g, ' ')
     ]);
     return [headers, ...rows].map(r => r.join(',')).join('\n');
@@ -627,6 +1326,7 @@ export class DatabaseManager {
     const results = await db.select<any[]>(
       `SELECT c.sleep_quality, c.current_state, c.stress_level, c.substances, s.crs
        FROM checkins c INNER JOIN sessions s ON s.checkin_id = c.id
+       WHERE s.session_type = 'battery' AND s.status = 'completed'
        ORDER BY s.timestamp`
     );
     return results.map(r => ({
@@ -639,7 +1339,11 @@ export class DatabaseManager {
   async deleteAllData(): Promise<void> {
     const db = this.ensureDB();
     await db.execute('DELETE FROM raw_events');
+    await db.execute('DELETE FROM event_spool');
+    await db.execute('DELETE FROM session_journal');
+    await db.execute('DELETE FROM trials');
     await db.execute('DELETE FROM layer_metrics');
+    await db.execute('DELETE FROM metric_values');
     await db.execute('DELETE FROM session_tags');
     await db.execute('DELETE FROM baselines');
     await db.execute('DELETE FROM sessions');
@@ -0,0 +1,141 @@
+/**
+ * Event Buffer for CLST
+ * Chunked ring buffer behind TestEngine.recordEvent (Section 11.3: slots are
+ * pre-allocated, nothing is allocated per event during a layer).
+ *
+ * - Events fill CHUNK_SIZE chunks from a fixed pool; a full chunk is sealed
+ *   and the next free one taken
+ * - flush() hands sealed chunks to a sink (the database spool) one chunk per
+ *   call and returns each to the pool once its call resolves, so session
+ *   length is bounded by the database, not the pool — as long as chunks are
+ *   flushed in time
+ * - An event arriving with no free chunk is dropped and counted
+ */
+
+import type { RawEvent } from '@/types';
+
+/** Receives flushed events, at most one chunk per call; the slots are reused once it resolves */
+export type EventSink = (events: RawEvent[]) => Promise<void>;
+
+interface SealedChunk {
+  slots: RawEvent[];
+  length: number;
+}
+
+export class EventBuffer {
+  static readonly CHUNK_SIZE = 4096;
+
+  private readonly sessionId: string;
+  private readonly free: RawEvent[][] = [];
+  private readonly sealed: SealedChunk[] = [];
+  private current: RawEvent[];
+  private fill = 0;
+  private droppedCount = 0;
+  private flushing: Promise<void> = Promise.resolve();
+
+  /** capacity: events the pool holds before anything is flushed (rounded up to whole chunks) */
+  constructor(sessionId: string, capacity: number) {
+    this.sessionId = sessionId;
+    const chunks = Math.max(2, Math.ceil(capacity / EventBuffer.CHUNK_SIZE));
+    for (let i = 0; i < chunks; i++) this.free.push(this.allocateChunk());
+    this.current = this.free.pop()!;
+  }
+
+  /** Events dropped because every chunk was full or still being flushed */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  /** Full chunks waiting for a flush */
+  get sealedChunks(): number {
+    return this.sealed.length;
+  }
+
+  /** Events recorded but not yet flushed */
+  get size(): number {
+    return this.sealed.reduce((n, c) => n + c.length, 0) + this.fill;
+  }
+
+  /** Slot for the next event, or null (counted as dropped) when the pool is exhausted */
+  next(): RawEvent | null {
+    if (this.fill === EventBuffer.CHUNK_SIZE) {
+      const chunk = this.free.pop();
+      if (!chunk) {
+        this.droppedCount++;
+        return null;
+      }
+      this.sealed.push({ slots: this.current, length: this.fill });
+      this.current = chunk;
+      this.fill = 0;
+    }
+    return this.current[this.fill++];
+  }
+
+  /** Events not yet flushed, in recording order */
+  events(): RawEvent[] {
+    return [
+      ...this.sealed.flatMap(c => c.slots.slice(0, c.length)),
+      ...this.current.slice(0, this.fill)
+    ];
+  }
+
+  /**
+   * Seal the partly filled chunk too (end of a layer / of the test), so the
+   * next flush takes every event recorded so far. Keeps filling it when no
+   * chunk is free.
+   */
+  seal(): void {
+    if (this.fill === 0) return;
+    const chunk = this.free.pop();
+    if (!chunk) return;
+    this.sealed.push({ slots: this.current, length: this.fill });
+    this.current = chunk;
+    this.fill = 0;
+  }
+
+  /** Forget everything buffered (new run); chunks being flushed return when their sink resolves */
+  reset(): void {
+    for (const chunk of this.sealed.splice(0)) this.free.push(chunk.slots);
+    this.fill = 0;
+    this.droppedCount = 0;
+  }
+
+  /**
+   * Hand sealed chunks to the sink, oldest first. Stops before the first
+   * chunk holding an event in `hold` (still waiting for a timestamp), so
+   * flushed events are final. Flushes run one at a time, one sink call per
+   * chunk: when a call rejects, that chunk and the ones after it stay
+   * buffered (those already written are not written again) and the
+   * rejection is passed on.
+   */
+  flush(sink: EventSink, hold: ReadonlySet<RawEvent> = new Set()): Promise<void> {
+    const run = this.flushing.then(async () => {
+      let count = 0;
+      while (count < this.sealed.length &&
+        !this.sealed[count].slots.slice(0, this.sealed[count].length).some(e => hold.has(e))) count++;
+      const chunks = this.sealed.splice(0, count);
+
+      for (let i = 0; i < chunks.length; i++) {
+        try {
+          await sink(chunks[i].slots.slice(0, chunks[i].length));
+        } catch (error) {
+          this.sealed.unshift(...chunks.slice(i));
+          throw error;
+        }
+        this.free.push(chunks[i].slots);
+      }
+    });
+    this.flushing = run.catch(() => undefined);
+    return run;
+  }
+
+  private allocateChunk(): RawEvent[] {
+    return Array.from({ length: EventBuffer.CHUNK_SIZE }, () => ({
+      sessionId: this.sessionId,
+      layer: 0,
+      eventType: 'cursor_pos' as const,
+      timestampUs: 0,
+      data: {}
+    }));
+  }
+}
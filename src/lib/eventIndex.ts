@@ -0,0 +1,119 @@
+/**
+ * Indexed Event Access for CLST
+ * Time-sorted views over a layer's raw events, so the metrics find a window
+ * by binary search instead of re-filtering the whole event list per stimulus
+ * or per 100 ms step.
+ *
+ * - EventTimeline: events of one stream (e.g. audio-key presses) with their
+ *   timestamps in a Float64Array; first match inside an open interval
+ * - TrackingSeries: the cursor/target stream as parallel typed arrays with
+ *   the per-sample error precomputed; window means over [from, to)
+ */
+
+import type { RawEvent } from '@/types';
+
+/** First index i with times[i] >= value (times ascending) */
+function lowerBound(times: Float64Array, value: number, length = times.length): number {
+  let lo = 0, hi = length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < value) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/** First index i with times[i] > value (times ascending) */
+function upperBound(times: Float64Array, value: number, length = times.length): number {
+  let lo = 0, hi = length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] <= value) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+export class EventTimeline {
+  /** Events in time order (stable for equal timestamps) */
+  readonly events: RawEvent[];
+  readonly times: Float64Array;
+
+  constructor(events: RawEvent[]) {
+    this.events = [...events].sort((a, b) => a.timestampUs - b.timestampUs);
+    this.times = Float64Array.from(this.events, e => e.timestampUs);
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  /** First event with fromUs < t < toUs that satisfies match */
+  firstBetween(fromUs: number, toUs: number, match?: (e: RawEvent) => boolean): RawEvent | undefined {
+    for (let i = upperBound(this.times, fromUs); i < this.events.length && this.times[i] < toUs; i++) {
+      if (!match || match(this.events[i])) return this.events[i];
+    }
+    return undefined;
+  }
+}
+
+export class TrackingSeries {
+  readonly length: number;
+  readonly t: Float64Array;
+  readonly cx: Float64Array;
+  readonly cy: Float64Array;
+  readonly tx: Float64Array;
+  readonly ty: Float64Array;
+  /** Target radius (20 px when not recorded) */
+  readonly radius: Float64Array;
+  /** Cursor → target distance */
+  readonly error: Float64Array;
+
+  private constructor(samples: RawEvent[]) {
+    const n = this.length = samples.length;
+    this.t = new Float64Array(n);
+    this.cx = new Float64Array(n);
+    this.cy = new Float64Array(n);
+    this.tx = new Float64Array(n);
+    this.ty = new Float64Array(n);
+    this.radius = new Float64Array(n);
+    this.error = new Float64Array(n);
+    samples.forEach((e, i) => {
+      const d = e.data;
+      this.t[i] = e.timestampUs;
+      this.cx[i] = d.cursorX!; this.cy[i] = d.cursorY!;
+      this.tx[i] = d.targetX!; this.ty[i] = d.targetY!;
+      this.radius[i] = d.targetRadius || 20;
+      this.error[i] = Math.sqrt((d.cursorX! - d.targetX!) ** 2 + (d.cursorY! - d.targetY!) ** 2);
+    });
+  }
+
+  /**
+   * Cursor/target pairs in time order: the uniform engine-clocked samples,
+   * or mouse-move events for sessions recorded before sampling existed.
+   * Samples missing a coordinate are dropped.
+   */
+  static from(events: RawEvent[]): TrackingSeries {
+    const samples = events.filter(e => e.eventType === 'cursor_sample');
+    return new TrackingSeries((samples.length > 0 ? samples : events.filter(e => e.eventType === 'cursor_pos'))
+      .filter(e => e.data.cursorX != null && e.data.cursorY != null && e.data.targetX != null && e.data.targetY != null)
+      .sort((a, b) => a.timestampUs - b.timestampUs));
+  }
+
+  /** The series itself, or one built from raw events */
+  static of(source: RawEvent[] | TrackingSeries): TrackingSeries {
+    return source instanceof TrackingSeries ? source : TrackingSeries.from(source);
+  }
+
+  /** First sample index at or after us */
+  indexAt(us: number): number {
+    return lowerBound(this.t, us, this.length);
+  }
+
+  /** Mean error of the samples with fromUs ≤ t < toUs; null when there are none */
+  meanError(fromUs: number, toUs: number): number | null {
+    const start = this.indexAt(fromUs), end = this.indexAt(toUs);
+    if (end <= start) return null;
+    let total = 0;
+    for (let i = start; i < end; i++) total += this.error[i];
+    return total / (end - start);
+  }
+}
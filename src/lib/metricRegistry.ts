@@ -0,0 +1,209 @@
+/**
+ * Metric Registry for CLST
+ * One definition per scalar layer metric: name, label, unit, the components
+ * that yield it, direction, whether it is scored, and how to compute it.
+ * Storage (the long-format metric_values table), rolling baselines, LPI
+ * scoring and the result cards all read the registry, so a new metric is a
+ * new entry here — no schema change, no extra lookup tables.
+ *
+ * - Built-in metrics read MetricsCalculator's LayerMetrics; a plugged-in
+ *   metric can compute from the layer's trials instead
+ * - Registry order is display order
+ * - Names are the baseline / weight-profile keys and must stay stable
+ */
+
+import type { LayerMetrics, LayerDefinition, MetricContext, MetricDefinition, MetricUnit, MetricValue, TrialRecord } from '@/types';
+import { DEFAULT_NBACK } from './protocol';
+
+/** Compute function for a metric read straight off LayerMetrics */
+const field = (key: keyof LayerMetrics) => ({ metrics }: MetricContext): number | undefined => {
+  const value = metrics[key];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const UNIT_FORMAT: Record<MetricUnit, { decimals: number; suffix: string; scale?: number; signed?: boolean }> = {
+  ms: { decimals: 1, suffix: 'ms' },
+  px: { decimals: 1, suffix: 'px' },
+  fraction: { decimals: 0, suffix: '%', scale: 100 },
+  count: { decimals: 0, suffix: '' },
+  number: { decimals: 1, suffix: '' },
+  ratio: { decimals: 2, suffix: '' },
+  degrees: { decimals: 0, suffix: '°' },
+  per_second: { decimals: 2, suffix: '/s' },
+  per_minute: { decimals: 1, suffix: '/min' },
+  percent_change: { decimals: 0, suffix: '%', signed: true },
+  ms_per_minute: { decimals: 1, suffix: 'ms/min' },
+  px_per_minute: { decimals: 1, suffix: 'px/min' },
+  fraction_per_minute: { decimals: 1, suffix: ' pp/min', scale: 100 },
+};
+
+const BUILT_IN_METRICS: MetricDefinition[] = [
+  // Simple RT
+  { name: 'rt', label: 'Mean Reaction Time', unit: 'ms', components: ['simple_rt'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanRT') },
+  { name: 'rt_variance', label: 'RT Variance', unit: 'number', components: ['simple_rt'], higherIsBetter: false, scored: true, display: 'never', compute: field('rtVariance') },
+  { name: 'rt_std', label: 'RT Std Dev', unit: 'ms', components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'always', compute: field('rtStd') },
+  { name: 'anticipations', label: 'Anticipations', unit: 'count', components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'always', compute: field('anticipationCount') },
+  { name: 'lapses', label: 'Lapses', unit: 'count', components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'always', compute: field('lapseCount') },
+  { name: 'rt_mu', label: 'RT μ', unit: 'ms', decimals: 0, components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'present', compute: field('rtMu') },
+  { name: 'rt_sigma', label: 'RT σ', unit: 'ms', decimals: 0, components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'present', compute: field('rtSigma') },
+  { name: 'rt_tau', label: 'RT τ', unit: 'ms', decimals: 0, components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'present', compute: field('rtTau') },
+  { name: 'rt_fit_d', label: 'RT Fit (KS D)', unit: 'ratio', decimals: 3, components: ['simple_rt'], higherIsBetter: false, scored: false, display: 'present', compute: field('rtFitD') },
+
+  // Go/No-Go
+  { name: 'go_rt', label: 'Go Reaction Time', unit: 'ms', components: ['go_nogo'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanGoRT') },
+  { name: 'commission', label: 'Commission Errors', unit: 'fraction', components: ['go_nogo'], higherIsBetter: false, scored: true, display: 'always', compute: field('commissionRate') },
+  { name: 'omission', label: 'Omissions', unit: 'fraction', components: ['go_nogo'], higherIsBetter: false, scored: true, display: 'always', compute: field('omissionRate') },
+
+  // Tracking
+  { name: 'track_error', label: 'Tracking Error', unit: 'px', components: ['tracking'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanTrackingError') },
+  { name: 'track_variance', label: 'Tracking Error Variance', unit: 'number', components: ['tracking'], higherIsBetter: false, scored: true, display: 'never', compute: field('trackingErrorVariance') },
+  { name: 'jerk', label: 'Movement Jerk', unit: 'number', components: ['tracking'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanJerk') },
+  { name: 'overshoot', label: 'Overshoots', unit: 'per_minute', components: ['tracking'], higherIsBetter: false, scored: true, display: 'always', compute: field('overshootRate') },
+  { name: 'track_gain_low', label: 'Gain (Low)', unit: 'ratio', components: ['tracking'], higherIsBetter: true, scored: false, display: 'present', compute: field('trackingGainLow') },
+  { name: 'track_gain_mid', label: 'Gain (Mid)', unit: 'ratio', components: ['tracking'], higherIsBetter: true, scored: false, display: 'present', compute: field('trackingGainMid') },
+  { name: 'track_gain_high', label: 'Gain (High)', unit: 'ratio', components: ['tracking'], higherIsBetter: true, scored: false, display: 'present', compute: field('trackingGainHigh') },
+  { name: 'track_phase_low', label: 'Phase Lag (Low)', unit: 'degrees', components: ['tracking'], higherIsBetter: false, scored: false, display: 'present', compute: field('trackingPhaseLagLow') },
+  { name: 'track_phase_mid', label: 'Phase Lag (Mid)', unit: 'degrees', components: ['tracking'], higherIsBetter: false, scored: false, display: 'present', compute: field('trackingPhaseLagMid') },
+  { name: 'track_phase_high', label: 'Phase Lag (High)', unit: 'degrees', components: ['tracking'], higherIsBetter: false, scored: false, display: 'present', compute: field('trackingPhaseLagHigh') },
+  { name: 'track_delay', label: 'Effective Delay', unit: 'ms', components: ['tracking'], higherIsBetter: false, scored: false, display: 'present', compute: field('trackingTimeDelay') },
+  { name: 'track_coherence', label: 'Coherence', unit: 'fraction', components: ['tracking'], higherIsBetter: true, scored: false, display: 'present', compute: field('trackingCoherence') },
+  { name: 'track_remnant', label: 'Remnant', unit: 'fraction', components: ['tracking'], higherIsBetter: false, scored: false, display: 'present', compute: field('trackingRemnant') },
+
+  // Audio
+  { name: 'audio_rt', label: 'Audio Response', unit: 'ms', components: ['audio'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanAudioRT') },
+  { name: 'audio_accuracy', label: 'Audio Accuracy', unit: 'fraction', components: ['audio'], higherIsBetter: true, scored: true, display: 'always', compute: field('audioAccuracy') },
+  { name: 'audio_false_positives', label: 'Audio False Positives', unit: 'count', components: ['audio'], higherIsBetter: false, scored: false, display: 'never', compute: field('audioFalsePositives') },
+  { name: 'prp', label: 'Recovery Period', unit: 'ms', components: ['audio'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanPRPDuration') },
+  { name: 'audio_rt_mu', label: 'Audio RT μ', unit: 'ms', decimals: 0, components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('audioRTMu') },
+  { name: 'audio_rt_sigma', label: 'Audio RT σ', unit: 'ms', decimals: 0, components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('audioRTSigma') },
+  { name: 'audio_rt_tau', label: 'Audio RT τ', unit: 'ms', decimals: 0, components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('audioRTTau') },
+  { name: 'audio_rt_fit_d', label: 'Audio RT Fit (KS D)', unit: 'ratio', decimals: 3, components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('audioRTFitD') },
+  // Discrimination mode only — absent in detection sessions, so simply not scored there
+  { name: 'audio_discrim', label: 'Tone Discrimination', unit: 'fraction', components: ['audio'], higherIsBetter: true, scored: true, display: 'present', compute: field('discriminationAccuracy') },
+  { name: 'wrong_key', label: 'Wrong-Key Errors', unit: 'count', components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('wrongKeyErrors') },
+  { name: 'audio_dprime', label: 'd′ (High vs Low)', unit: 'ratio', components: ['audio'], higherIsBetter: true, scored: true, display: 'present', compute: field('dPrime') },
+  { name: 'audio_criterion', label: 'Criterion c', unit: 'ratio', components: ['audio'], higherIsBetter: false, scored: false, display: 'present', compute: field('criterion') },
+
+  // N-back
+  { name: 'nback_hit', label: l => `${(l.nback ?? DEFAULT_NBACK).n}-back Hits`, unit: 'fraction', components: ['nback'], higherIsBetter: true, scored: true, display: 'always', compute: field('nbackHitRate') },
+  { name: 'nback_fa', label: 'N-back False Alarms', unit: 'fraction', components: ['nback'], higherIsBetter: false, scored: true, display: 'always', compute: field('nbackFalseAlarmRate') },
+  { name: 'nback_dprime', label: 'N-back d′', unit: 'ratio', components: ['nback'], higherIsBetter: true, scored: true, display: 'always', compute: field('nbackDPrime') },
+  { name: 'nback_rt', label: 'N-back Response', unit: 'ms', components: ['nback'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanNBackRT') },
+
+  // Cooldown
+  { name: 'cooldown', label: 'Cooldown Delay', unit: 'ms', components: ['cooldown'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanCooldownDelay') },
+  { name: 'cooldown_misses', label: 'Cooldown Misses', unit: 'count', components: ['cooldown'], higherIsBetter: false, scored: false, display: 'never', compute: field('cooldownMissCount') },
+
+  // Peripheral
+  { name: 'periph_rt', label: 'Peripheral Response', unit: 'ms', components: ['peripheral'], higherIsBetter: false, scored: true, display: 'always', compute: field('meanPeripheralRT') },
+  { name: 'periph_miss', label: 'Peripheral Missed', unit: 'fraction', components: ['peripheral'], higherIsBetter: false, scored: true, display: 'always', compute: field('peripheralMissRate') },
+  { name: 'peripheral_rt_mu', label: 'Peripheral RT μ', unit: 'ms', decimals: 0, components: ['peripheral'], higherIsBetter: false, scored: false, display: 'present', compute: field('peripheralRTMu') },
+  { name: 'peripheral_rt_sigma', label: 'Peripheral RT σ', unit: 'ms', decimals: 0, components: ['peripheral'], higherIsBetter: false, scored: false, display: 'present', compute: field('peripheralRTSigma') },
+  { name: 'peripheral_rt_tau', label: 'Peripheral RT τ', unit: 'ms', decimals: 0, components: ['peripheral'], higherIsBetter: false, scored: false, display: 'present', compute: field('peripheralRTTau') },
+  { name: 'peripheral_rt_fit_d', label: 'Peripheral RT Fit (KS D)', unit: 'ratio', decimals: 3, components: ['peripheral'], higherIsBetter: false, scored: false, display: 'present', compute: field('peripheralRTFitD') },
+
+  // Dual-task costs and time-on-task slopes. The built-in weight profile
+  // leaves these at weight 0 — a custom profile opts in per layer.
+  { name: 'track_cost', label: 'Tracking Error Cost', unit: 'percent_change', components: ['tracking'], higherIsBetter: false, scored: true, display: 'present', compute: field('trackingCost') },
+  { name: 'audio_rt_cost', label: 'Audio RT Cost', unit: 'percent_change', components: ['audio'], higherIsBetter: false, scored: true, display: 'present', compute: field('audioRTCost') },
+  { name: 'cost_per_task', label: 'Cost per Added Task', unit: 'percent_change', components: [], higherIsBetter: false, scored: true, display: 'present', compute: field('costPerTask') },
+  { name: 'track_error_slope', label: 'Tracking Error Trend', unit: 'px_per_minute', components: [], higherIsBetter: false, scored: true, display: 'never', compute: field('trackingErrorSlope') },
+  { name: 'rt_slope', label: 'RT Trend', unit: 'ms_per_minute', components: [], higherIsBetter: false, scored: true, display: 'never', compute: field('rtSlope') },
+  { name: 'miss_slope', label: 'Miss Rate Trend', unit: 'fraction_per_minute', components: [], higherIsBetter: false, scored: true, display: 'never', compute: field('missRateSlope') },
+
+  // PVT
+  { name: 'pvt_speed', label: 'Mean 1/RT', unit: 'per_second', components: ['pvt'], higherIsBetter: true, scored: true, display: 'always', compute: field('pvtMeanSpeed') },
+  { name: 'pvt_lapses', label: 'Lapses (≥500ms)', unit: 'count', components: ['pvt'], higherIsBetter: false, scored: true, display: 'always', compute: field('pvtLapses') },
+  { name: 'pvt_false_starts', label: 'False Starts', unit: 'count', components: ['pvt'], higherIsBetter: false, scored: true, display: 'always', compute: field('pvtFalseStarts') },
+  { name: 'pvt_fastest', label: 'Fastest 10% RT', unit: 'ms', components: ['pvt'], higherIsBetter: false, scored: true, display: 'always', compute: field('pvtFastest10RT') },
+  { name: 'pvt_slowest', label: 'Slowest 10% 1/RT', unit: 'per_second', components: ['pvt'], higherIsBetter: true, scored: true, display: 'always', compute: field('pvtSlowest10Speed') },
+  { name: 'pvt_slope', label: 'Time-on-Task Slope', unit: 'ms_per_minute', components: ['pvt'], higherIsBetter: false, scored: true, display: 'always', compute: field('pvtSlope') },
+];
+
+export class MetricRegistry {
+  private static readonly definitions: MetricDefinition[] = [...BUILT_IN_METRICS];
+
+  /** Add a metric; it is stored, baselined, scored and shown like the built-ins */
+  static register(definition: MetricDefinition): void {
+    if (MetricRegistry.get(definition.name)) {
+      throw new Error(`Metric '${definition.name}' is already registered`);
+    }
+    MetricRegistry.definitions.push(definition);
+  }
+
+  static all(): readonly MetricDefinition[] {
+    return MetricRegistry.definitions;
+  }
+
+  static get(name: string): MetricDefinition | undefined {
+    return MetricRegistry.definitions.find(d => d.name === name);
+  }
+
+  /** Metrics a layer can yield, by the components it runs */
+  static forLayer(layer: LayerDefinition): MetricDefinition[] {
+    return MetricRegistry.definitions.filter(d =>
+      d.components.length === 0 || d.components.some(c => layer.components.includes(c)));
+  }
+
+  /** LPI candidates of a layer (also the baseline keys kept for it) */
+  static scoredForLayer(layer: LayerDefinition): MetricDefinition[] {
+    return MetricRegistry.forLayer(layer).filter(d => d.scored);
+  }
+
+  // =========================================================================
+  // COMPUTATION
+  // =========================================================================
+
+  /** Long-format values of one layer; metrics that come out missing or non-finite are left out */
+  static computeLayer(sessionId: string, ctx: MetricContext): MetricValue[] {
+    const values: MetricValue[] = [];
+    for (const def of MetricRegistry.forLayer(ctx.layer)) {
+      const value = def.compute(ctx);
+      if (value !== undefined && Number.isFinite(value)) {
+        values.push({ sessionId, layer: ctx.layer.id, metric: def.name, value });
+      }
+    }
+    return values;
+  }
+
+  /** Long-format values of a whole session from the calculator's layer metrics and trials */
+  static computeSession(
+    sessionId: string, layers: LayerDefinition[], layerMetrics: LayerMetrics[], trials: TrialRecord[]
+  ): MetricValue[] {
+    return layers.flatMap(layer => {
+      const metrics = layerMetrics.find(m => m.layer === layer.id);
+      if (!metrics) return [];
+      const layerTrials = trials.filter(t => t.layer === layer.id && !t.excluded);
+      return MetricRegistry.computeLayer(sessionId, { layer, metrics, trials: layerTrials });
+    });
+  }
+
+  /** One layer's values keyed by metric name */
+  static byName(values: MetricValue[], layer: number): Record<string, number> {
+    const named: Record<string, number> = {};
+    for (const v of values) if (v.layer === layer) named[v.metric] = v.value;
+    return named;
+  }
+
+  // =========================================================================
+  // DISPLAY
+  // =========================================================================
+
+  static label(definition: MetricDefinition, layer: LayerDefinition): string {
+    return typeof definition.label === 'function' ? definition.label(layer) : definition.label;
+  }
+
+  static format(definition: MetricDefinition, value: number | undefined): string {
+    if (value === undefined) return '—';
+    const f = UNIT_FORMAT[definition.unit];
+    const text = (value * (f.scale ?? 1)).toFixed(definition.decimals ?? f.decimals);
+    return `${f.signed && value >= 0 ? '+' : ''}${text}${f.suffix}`;
+  }
+
+  /** Result-card label/value pairs for a layer, in registry order */
+  static displayItems(layer: LayerDefinition, values: Record<string, number>): [string, string][] {
+    return MetricRegistry.forLayer(layer)
+      .filter(d => d.display === 'always' || (d.display === 'present' && values[d.name] !== undefined))
+      .map(d => [MetricRegistry.label(d, layer), MetricRegistry.format(d, values[d.name])]);
+  }
+}
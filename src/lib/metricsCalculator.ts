@@ -2,94 +2,276 @@
  * Metrics Calculator for CLST
  * Implements Section 10.1 (RAW METRIC COMPUTATION)
  *
+ * computeSession is the one path from raw events to stored metrics (live,
+ * simulator, recompute): per-trial records first, layer aggregates from
+ * those, then dual-task costs across layers. PIPELINE_VERSION is stored
+ * with every session.
+ *
  * FIXES from code review:
  * - Audio response uses SPACE key (not Q/E)
  * - Peripheral detection uses digit keys (not arrow keys)
  * - Downsampling uses sliding index O(n+m) instead of O(n*m)
  */
 
-import type { RawEvent, LayerMetrics } from '@/types';
+import type { RawEvent, LayerMetrics, LayerComponent, LayerDefinition, TrackingTransferFunction, TrackingSpectrumPoint, InputLagReport, OnsetJitterReport, ExGaussianFit, TimeOnTaskSeries, TimeOnTaskBin, TrialRecord, TrialKind, TrialOutcome, MetricValue } from '@/types';
+import { Statistics } from './statistics';
+import { AUDIO_RESPONSE_KEYS, NBACK_MATCH_KEY, PVT_RESPONSE_KEY } from './protocol';
+import { MetricRegistry } from './metricRegistry';
+import { EventTimeline, TrackingSeries } from './eventIndex';
+
+/** A trial before it is numbered within its layer */
+type TrialDraft = Omit<TrialRecord, 'sessionId' | 'layer' | 'trialIndex' | 'excluded'>;
+
+/** Everything computeSession derives from a session's raw events */
+export interface SessionComputation {
+  trials: TrialRecord[];
+  layerMetrics: LayerMetrics[];
+  metricValues: MetricValue[];
+}
 
 export class MetricsCalculator {
-  private static readonly RT_MIN_MS = 100;
+  /**
+   * Version of the events → metrics → scores pipeline, stored with each
+   * session. Bump it with any change that alters stored metrics or scores,
+   * so older sessions show up as due for a recompute.
+   */
+  static readonly PIPELINE_VERSION = 1;
+
+  /** RTs below this are anticipations (also read by SessionValidator) */
+  static readonly RT_MIN_MS = 100;
   private static readonly RT_MAX_MS = 1500;
+  private static readonly GO_NOGO_RESPONSE_WINDOW_MS = 1000;
   private static readonly PRP_WINDOW_PRE_MS = 500;
   private static readonly PRP_WINDOW_POST_MS = 100;
   private static readonly PRP_MAX_MS = 2000;
   private static readonly PRP_THRESHOLD_MULTIPLIER = 1.2;
   private static readonly PERIPHERAL_TIMEOUT_MS = 2000;
+  private static readonly NBACK_RESPONSE_WINDOW_MS = 2500;
+  private static readonly PVT_LAPSE_MS = 500;
+  private static readonly PVT_TIMEOUT_MS = 30000;
+  private static readonly EXGAUSS_MIN_N = 10;             // RTs needed before tau means anything
+  private static readonly TIME_ON_TASK_BIN_S = 5;
+  private static readonly TIME_ON_TASK_MIN_BINS = 3;       // non-empty bins needed for a slope
+  // Stimulus-response trials in the RT / miss-rate series (cooldown delays are not RTs)
+  private static readonly TIME_ON_TASK_KINDS: TrialKind[] = ['simple_rt', 'go', 'audio', 'peripheral', 'nback', 'pvt'];
+  // Raw metric a component carries across layers → where its dual-task cost goes
+  private static readonly DUAL_TASK_MEASURES = [
+    { component: 'tracking', key: 'meanTrackingError', cost: 'trackingCost' },
+    { component: 'audio', key: 'meanAudioRT', cost: 'audioRTCost' }
+  ] as const;
   private static readonly CANONICAL_SAMPLE_RATE = 60;
   private static readonly SYSTEM_STALL_MULTIPLIER = 3;
+  private static readonly SPECTRUM_SEGMENT = 512;          // samples at 60 Hz (~8.5 s, 0.117 Hz bins)
+  private static readonly SPECTRUM_MAX_HZ = 1.5;
+  private static readonly SPECTRUM_MIN_TARGET_POWER = 0.001; // of the strongest bin; below = H undefined
+  private static readonly DELAY_MIN_COHERENCE = 0.5;
+  private static readonly TRACKING_BANDS = {
+    low: [0.05, 0.3], mid: [0.3, 0.7], high: [0.7, 1.5]
+  } as const;
+
+  // =========================================================================
+  // TRIALS
+  // =========================================================================
+
+  /**
+   * Per-trial records for one layer, in onset order: every stimulus with the
+   * response matched to it, plus PVT presses that no stimulus owned. Onsets and
+   * responses are on the presentation / dispatch timeline (atOnsetTime /
+   * atInputTime). Outcomes only say what happened — RT thresholds
+   * (anticipation, lapse, too-fast PVT responses) are applied by the aggregates.
+   *
+   * Matching: a stimulus owns the first qualifying response after its onset,
+   * within its window (see each aggregate below), cut short by the next
+   * stimulus of the same stream.
+   */
+  static extractTrials(sessionId: string, layer: number, events: RawEvent[]): TrialRecord[] {
+    const onsets = (...types: RawEvent['eventType'][]) => events
+      .filter(e => types.includes(e.eventType))
+      .map(e => this.atOnsetTime(e))
+      .sort((a, b) => a.timestampUs - b.timestampUs);
+    const responses = (match: (e: RawEvent) => boolean) => new EventTimeline(events
+      .filter(e => (e.eventType === 'click' || e.eventType === 'keypress') && match(e))
+      .map(e => this.atInputTime(e)));
+    const first = (list: EventTimeline, from: number, to: number) => list.firstBetween(from, to);
+    const drafts: TrialDraft[] = [];
+
+    // Simple RT — window runs until the next stimulus
+    const simple = onsets('stimulus_onset');
+    const clicks = responses(e => e.eventType === 'click');
+    simple.forEach((stim, i) => {
+      const response = first(clicks, stim.timestampUs, simple[i + 1]?.timestampUs ?? Infinity);
+      drafts.push(this.trial('simple_rt', stim, response, response ? 'hit' : 'miss'));
+    });
+
+    // Go/No-Go — GO_NOGO_RESPONSE_WINDOW_MS
+    const goNoGo = onsets('go_stimulus', 'nogo_stimulus');
+    goNoGo.forEach((stim, i) => {
+      const end = Math.min(stim.timestampUs + MetricsCalculator.GO_NOGO_RESPONSE_WINDOW_MS * 1000, goNoGo[i + 1]?.timestampUs ?? Infinity);
+      const response = first(clicks, stim.timestampUs, end);
+      drafts.push(stim.eventType === 'go_stimulus'
+        ? this.trial('go', stim, response, response ? 'hit' : 'miss')
+        : this.trial('nogo', stim, response, response ? 'false_alarm' : 'correct_rejection'));
+    });
+
+    // Audio — first press on the layer's audio keys within RT_MAX_MS
+    const discrimination = this.isDiscrimination(events);
+    const audioKeys: string[] = discrimination
+      ? [AUDIO_RESPONSE_KEYS.high, AUDIO_RESPONSE_KEYS.low]
+      : [AUDIO_RESPONSE_KEYS.detection];
+    const audioPresses = responses(e => e.eventType === 'keypress' && audioKeys.includes(e.data.key ?? ''));
+    for (const cue of onsets('audio_cue')) {
+      const response = first(audioPresses, cue.timestampUs, cue.timestampUs + MetricsCalculator.RT_MAX_MS * 1000);
+      if (cue.data.tone === 'distractor') {
+        drafts.push(this.trial('distractor', cue, response, response ? 'false_alarm' : 'correct_rejection'));
+      } else {
+        const outcome: TrialOutcome = !response ? 'miss'
+          : discrimination && response.data.key !== cue.data.expectedKey ? 'wrong_key' : 'hit';
+        drafts.push(this.trial('audio', cue, response, outcome));
+      }
+    }
+
+    // Cooldown — first F after ready, before the next ready
+    const ready = onsets('cooldown_ready');
+    const fPresses = responses(e => e.eventType === 'keypress' && e.data.key === 'f');
+    ready.forEach((r, i) => {
+      const response = first(fPresses, r.timestampUs, ready[i + 1]?.timestampUs ?? Infinity);
+      drafts.push(this.trial('cooldown', r, response, response ? 'hit' : 'miss'));
+    });
+
+    // Peripheral — the flashed digit within PERIPHERAL_TIMEOUT_MS
+    const keypresses = responses(e => e.eventType === 'keypress');
+    for (const flash of onsets('peripheral_flash')) {
+      const digit = flash.data.digit?.toString();
+      const response = digit == null ? undefined : keypresses.firstBetween(
+        flash.timestampUs, flash.timestampUs + MetricsCalculator.PERIPHERAL_TIMEOUT_MS * 1000, k => k.data.key === digit);
+      drafts.push(this.trial('peripheral', flash, response, response ? 'hit' : 'miss'));
+    }
+
+    // N-back — first R within NBACK_RESPONSE_WINDOW_MS
+    const items = onsets('nback_stimulus');
+    const matchPresses = responses(e => e.eventType === 'keypress' && e.data.key === NBACK_MATCH_KEY);
+    items.forEach((item, i) => {
+      const end = Math.min(item.timestampUs + MetricsCalculator.NBACK_RESPONSE_WINDOW_MS * 1000, items[i + 1]?.timestampUs ?? Infinity);
+      const response = first(matchPresses, item.timestampUs, end);
+      drafts.push(item.data.isTarget
+        ? this.trial('nback', item, response, response ? 'hit' : 'miss')
+        : this.trial('nback', item, response, response ? 'false_alarm' : 'correct_rejection'));
+    });
+
+    // PVT — first SPACE within PVT_TIMEOUT_MS; unowned presses are false starts
+    // (only on PVT layers — SPACE is also the audio detection key)
+    const pvtStimuli = onsets('pvt_stimulus');
+    const pvtPresses = pvtStimuli.length === 0 ? new EventTimeline([])
+      : responses(e => e.eventType === 'keypress' && e.data.key === PVT_RESPONSE_KEY);
+    const owned = new Set<RawEvent>();
+    pvtStimuli.forEach((stim, i) => {
+      const end = Math.min(stim.timestampUs + MetricsCalculator.PVT_TIMEOUT_MS * 1000, pvtStimuli[i + 1]?.timestampUs ?? Infinity);
+      const response = first(pvtPresses, stim.timestampUs, end);
+      if (response) owned.add(response);
+      drafts.push(this.trial('pvt', stim, response, response ? 'hit' : 'miss'));
+    });
+    for (const press of pvtPresses.events) {
+      if (!owned.has(press)) drafts.push(this.trial('pvt', null, press, 'false_start'));
+    }
+
+    return drafts
+      .sort((a, b) => (a.onsetUs ?? a.responseUs!) - (b.onsetUs ?? b.responseUs!))
+      .map((t, trialIndex) => ({ sessionId, layer, trialIndex, ...t, excluded: false }));
+  }
+
+  private static trial(kind: TrialKind, stim: RawEvent | null, response: RawEvent | undefined, outcome: TrialOutcome): TrialDraft {
+    // Timing fields live in onsetUs / responseUs; the rest describes the stimulus
+    const { onsetTimeUs: _onset, outputTimeUs: _output, ...stimulus } = stim?.data ?? {};
+    return {
+      kind,
+      onsetUs: stim?.timestampUs ?? null,
+      responseUs: response?.timestampUs ?? null,
+      rtMs: stim && response ? (response.timestampUs - stim.timestampUs) / 1000 : null,
+      outcome,
+      responseKey: response?.eventType === 'keypress' ? response.data.key ?? null : null,
+      stimulus
+    };
+  }
+
+  /** Ex-Gaussian fit of one RT set; null below EXGAUSS_MIN_N */
+  private static exGaussian(rts: number[]): ExGaussianFit | null {
+    return rts.length >= MetricsCalculator.EXGAUSS_MIN_N ? Statistics.exGaussianFit(rts) : null;
+  }
+
+  private static ofKind(trials: TrialRecord[], ...kinds: TrialKind[]): TrialRecord[] {
+    return trials.filter(t => kinds.includes(t.kind));
+  }
+
+  private static mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+  }
 
   // =========================================================================
   // LAYER 0: SIMPLE REACTION TIME
   // =========================================================================
 
-  static reactionTime(events: RawEvent[]): {
+  /** RTs under RT_MIN_MS are anticipations, over RT_MAX_MS lapses; unanswered stimuli don't count */
+  static reactionTime(trials: TrialRecord[]): {
     meanRT: number;
     rtVariance: number;
     rtStd: number;
     anticipationCount: number;
     lapseCount: number;
+    exGaussian: ExGaussianFit | null;
   } {
-    const validRTs: number[] = [];
-    let anticipationCount = 0;
-    let lapseCount = 0;
-
-    const stimuli = events
-      .filter(e => e.eventType === 'stimulus_onset')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const responses = events
-      .filter(e => e.eventType === 'click')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    for (const response of responses) {
-      let matchedStimulus = null;
-      for (let i = stimuli.length - 1; i >= 0; i--) {
-        if (stimuli[i].timestampUs < response.timestampUs) {
-          matchedStimulus = stimuli[i];
-          break;
-        }
-      }
-      if (matchedStimulus) {
-        const rtMs = (response.timestampUs - matchedStimulus.timestampUs) / 1000;
-        if (rtMs < MetricsCalculator.RT_MIN_MS) {
-          anticipationCount++;
-        } else if (rtMs > MetricsCalculator.RT_MAX_MS) {
-          lapseCount++;
-        } else {
-          validRTs.push(rtMs);
-        }
-      }
-    }
+    const rts = this.ofKind(trials, 'simple_rt').flatMap(t => t.rtMs != null ? [t.rtMs] : []);
+    const validRTs = rts.filter(rt => rt >= MetricsCalculator.RT_MIN_MS && rt <= MetricsCalculator.RT_MAX_MS);
+    const anticipationCount = rts.filter(rt => rt < MetricsCalculator.RT_MIN_MS).length;
+    const lapseCount = rts.filter(rt => rt > MetricsCalculator.RT_MAX_MS).length;
 
     if (validRTs.length === 0) {
-      return { meanRT: 0, rtVariance: 0, rtStd: 0, anticipationCount, lapseCount };
+      return { meanRT: 0, rtVariance: 0, rtStd: 0, anticipationCount, lapseCount, exGaussian: null };
     }
 
-    const meanRT = validRTs.reduce((sum, rt) => sum + rt, 0) / validRTs.length;
+    const meanRT = this.mean(validRTs);
     const variance = validRTs.reduce((sum, rt) => sum + (rt - meanRT) ** 2, 0) / validRTs.length;
 
-    return { meanRT, rtVariance: variance, rtStd: Math.sqrt(variance), anticipationCount, lapseCount };
+    return {
+      meanRT, rtVariance: variance, rtStd: Math.sqrt(variance), anticipationCount, lapseCount,
+      exGaussian: this.exGaussian(validRTs)
+    };
+  }
+
+  // =========================================================================
+  // GO/NO-GO INHIBITION
+  // =========================================================================
+
+  /**
+   * Each stimulus owns the first click in its response window (up to
+   * GO_NOGO_RESPONSE_WINDOW_MS, cut short by the next stimulus).
+   * Go RT only counts responses at or above RT_MIN_MS; faster ones still
+   * count as responses, so they are not omissions.
+   */
+  static goNoGo(trials: TrialRecord[]): {
+    meanGoRT: number;
+    commissionRate: number;
+    omissionRate: number;
+  } {
+    const go = this.ofKind(trials, 'go');
+    const nogo = this.ofKind(trials, 'nogo');
+    const goRTs = go.flatMap(t => t.rtMs != null && t.rtMs >= MetricsCalculator.RT_MIN_MS ? [t.rtMs] : []);
+
+    return {
+      meanGoRT: this.mean(goRTs),
+      commissionRate: nogo.length > 0 ? nogo.filter(t => t.outcome === 'false_alarm').length / nogo.length : 0,
+      omissionRate: go.length > 0 ? go.filter(t => t.outcome === 'miss').length / go.length : 0
+    };
   }
 
   // =========================================================================
   // LAYER 1+: TRACKING METRICS
   // =========================================================================
 
-  static trackingError(events: RawEvent[]): {
+  static trackingError(tracking: RawEvent[] | TrackingSeries): {
     meanTrackingError: number;
     trackingErrorVariance: number;
   } {
-    const errors: number[] = [];
-    for (const event of events) {
-      if (event.eventType !== 'cursor_pos') continue;
-      const d = event.data;
-      if (d.cursorX != null && d.cursorY != null && d.targetX != null && d.targetY != null) {
-        errors.push(Math.sqrt((d.cursorX - d.targetX) ** 2 + (d.cursorY - d.targetY) ** 2));
-      }
-    }
+    const errors = TrackingSeries.of(tracking).error;
     if (errors.length === 0) return { meanTrackingError: 0, trackingErrorVariance: 0 };
     const mean = errors.reduce((s, e) => s + e, 0) / errors.length;
     const variance = errors.length > 1
@@ -170,26 +352,148 @@ export class MetricsCalculator {
     return result;
   }
 
+  /**
+   * Target → cursor transfer function (Welch cross-spectral estimate).
+   * Cursor and target are resampled to 60 Hz and cut into mean-removed,
+   * Hann-windowed segments with 50 % overlap; x and y are pooled as two
+   * realizations of the same operator. Per bin H = S_tc / S_tt and
+   * γ² = |S_tc|² / (S_tt · S_cc). Band values use the pooled spectra of the
+   * band; the time delay is the through-origin slope of phase lag against
+   * ω over coherent bins. Null when there is not one full segment.
+   */
+  static trackingTransferFunction(tracking: RawEvent[] | TrackingSeries): TrackingTransferFunction | null {
+    const N = MetricsCalculator.SPECTRUM_SEGMENT;
+    const rate = MetricsCalculator.CANONICAL_SAMPLE_RATE;
+    const samples = this.resampleTracking(TrackingSeries.of(tracking));
+    if (!samples || samples.tx.length < N) return null;
+
+    const bins = Math.floor(MetricsCalculator.SPECTRUM_MAX_HZ * N / rate);
+    const stt = new Float64Array(bins + 1), scc = new Float64Array(bins + 1);
+    const stcRe = new Float64Array(bins + 1), stcIm = new Float64Array(bins + 1);
+    const hann = Float64Array.from({ length: N }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (N - 1)));
+
+    const segment = (src: Float64Array, start: number) => {
+      let mean = 0;
+      for (let i = 0; i < N; i++) mean += src[start + i];
+      mean /= N;
+      const re = new Float64Array(N), im = new Float64Array(N);
+      for (let i = 0; i < N; i++) re[i] = (src[start + i] - mean) * hann[i];
+      Statistics.fft(re, im);
+      return { re, im };
+    };
+
+    for (const [target, cursor] of [[samples.tx, samples.cx], [samples.ty, samples.cy]]) {
+      for (let start = 0; start + N <= target.length; start += N / 2) {
+        const T = segment(target, start), C = segment(cursor, start);
+        for (let k = 1; k <= bins; k++) {
+          stt[k] += T.re[k] ** 2 + T.im[k] ** 2;
+          scc[k] += C.re[k] ** 2 + C.im[k] ** 2;
+          // conj(T) · C
+          stcRe[k] += T.re[k] * C.re[k] + T.im[k] * C.im[k];
+          stcIm[k] += T.re[k] * C.im[k] - T.im[k] * C.re[k];
+        }
+      }
+    }
+
+    const freq = (k: number) => k * rate / N;
+    const maxTarget = Math.max(...stt.slice(1));
+    if (maxTarget <= 0) return null;
+
+    // Per-bin transfer function, phase unwrapped upward from the lowest bin
+    const points: TrackingSpectrumPoint[] = [];
+    let prevLag: number | null = null;
+    for (let k = 1; k <= bins; k++) {
+      if (stt[k] < maxTarget * MetricsCalculator.SPECTRUM_MIN_TARGET_POWER) continue;
+      let lag = -Math.atan2(stcIm[k], stcRe[k]);
+      if (prevLag !== null) {
+        while (lag - prevLag > Math.PI) lag -= 2 * Math.PI;
+        while (lag - prevLag < -Math.PI) lag += 2 * Math.PI;
+      }
+      prevLag = lag;
+      const cross = stcRe[k] ** 2 + stcIm[k] ** 2;
+      points.push({
+        frequencyHz: freq(k),
+        gain: Math.sqrt(cross) / stt[k],
+        phaseLagDeg: lag * 180 / Math.PI,
+        coherence: scc[k] > 0 ? cross / (stt[k] * scc[k]) : 0
+      });
+    }
+
+    const band = ([lo, hi]: readonly [number, number]) => {
+      let re = 0, im = 0, power = 0;
+      for (let k = 1; k <= bins; k++) {
+        if (freq(k) < lo || freq(k) >= hi) continue;
+        re += stcRe[k]; im += stcIm[k]; power += stt[k];
+      }
+      return power > 0
+        ? { gain: Math.sqrt(re * re + im * im) / power, phaseLagDeg: -Math.atan2(im, re) * 180 / Math.PI }
+        : { gain: 0, phaseLagDeg: 0 };
+    };
+    const bands = MetricsCalculator.TRACKING_BANDS;
+
+    // Effective delay: phase lag (rad) ≈ ω·τ over the coherent bins
+    let sxy = 0, sxx = 0;
+    for (const p of points) {
+      if (p.coherence < MetricsCalculator.DELAY_MIN_COHERENCE) continue;
+      const w = 2 * Math.PI * p.frequencyHz;
+      sxy += w * p.phaseLagDeg * Math.PI / 180;
+      sxx += w * w;
+    }
+
+    // Coherence weighted by target power; remnant = incoherent share of cursor power
+    let cohNum = 0, cohDen = 0, remnant = 0, cursorPower = 0;
+    for (let k = 1; k <= bins; k++) {
+      if (freq(k) < bands.low[0]) continue;
+      const g = stt[k] > 0 && scc[k] > 0 ? (stcRe[k] ** 2 + stcIm[k] ** 2) / (stt[k] * scc[k]) : 0;
+      cohNum += g * stt[k]; cohDen += stt[k];
+      remnant += scc[k] * (1 - g); cursorPower += scc[k];
+    }
+
+    return {
+      points,
+      bands: { low: band(bands.low), mid: band(bands.mid), high: band(bands.high) },
+      timeDelayMs: sxx > 0 ? sxy / sxx * 1000 : null,
+      coherence: cohDen > 0 ? cohNum / cohDen : 0,
+      remnant: cursorPower > 0 ? remnant / cursorPower : 0
+    };
+  }
+
+  /** Cursor and target on the canonical 60 Hz grid (linear interpolation) */
+  private static resampleTracking(pos: TrackingSeries): { tx: Float64Array; ty: Float64Array; cx: Float64Array; cy: Float64Array } | null {
+    if (pos.length < 2) return null;
+
+    const stepUs = 1e6 / MetricsCalculator.CANONICAL_SAMPLE_RATE;
+    const n = Math.floor((pos.t[pos.length - 1] - pos.t[0]) / stepUs);
+    const out = { tx: new Float64Array(n), ty: new Float64Array(n), cx: new Float64Array(n), cy: new Float64Array(n) };
+    let j = 0;
+    for (let i = 0; i < n; i++) {
+      const t = pos.t[0] + i * stepUs;
+      while (j < pos.length - 2 && pos.t[j + 1] < t) j++;
+      const span = pos.t[j + 1] - pos.t[j];
+      const f = span === 0 ? 0 : (t - pos.t[j]) / span;
+      out.tx[i] = pos.tx[j] + f * (pos.tx[j + 1] - pos.tx[j]);
+      out.ty[i] = pos.ty[j] + f * (pos.ty[j + 1] - pos.ty[j]);
+      out.cx[i] = pos.cx[j] + f * (pos.cx[j + 1] - pos.cx[j]);
+      out.cy[i] = pos.cy[j] + f * (pos.cy[j + 1] - pos.cy[j]);
+    }
+    return out;
+  }
+
   /**
    * Overshoot detection (Layer 1+)
    */
-  static overshootRate(events: RawEvent[], layerDurationSeconds: number): number {
-    const cursorPositions = events
-      .filter(e => e.eventType === 'cursor_pos')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
+  static overshootRate(tracking: RawEvent[] | TrackingSeries, layerDurationSeconds: number): number {
+    const series = TrackingSeries.of(tracking);
 
-    if (cursorPositions.length < 3) return 0;
+    if (series.length < 3) return 0;
 
     let overshootCount = 0;
     let lastError = Infinity;
     let wasApproaching = false;
 
-    for (const event of cursorPositions) {
-      const d = event.data;
-      if (d.cursorX == null || d.targetX == null) continue;
-
-      const error = Math.sqrt((d.cursorX - d.targetX) ** 2 + (d.cursorY! - d.targetY!) ** 2);
-      const targetRadius = d.targetRadius || 20;
+    for (let i = 0; i < series.length; i++) {
+      const error = series.error[i];
+      const targetRadius = series.radius[i];
 
       if (error < lastError) {
         wasApproaching = true;
@@ -213,112 +517,105 @@ export class MetricsCalculator {
   /**
    * Audio RT and accuracy.
    * FIX: Uses SPACE key for audio response (not Q/E).
-   * Tone discrimination (high vs low) is not key-mapped — any SPACE press
-   * within the window counts as a response. Accuracy = correct detection
+   * A response is the first audio-key press within the window — SPACE in
+   * detection mode, either tone key in discrimination mode (which key was
+   * right is scored by audioDiscrimination). Sessions recorded before cues
+   * carried expectedKey are detection mode. Accuracy = correct detection
    * (responded to signal, did not respond to distractor).
    */
-  static audioMetrics(events: RawEvent[]): {
+  static audioMetrics(trials: TrialRecord[]): {
     meanAudioRT: number;
     audioAccuracy: number;
     audioFalsePositives: number;
+    exGaussian: ExGaussianFit | null;
   } {
-    const signalCues = events
-      .filter(e => e.eventType === 'audio_cue' && e.data.tone !== 'distractor')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const distractorCues = events
-      .filter(e => e.eventType === 'audio_cue' && e.data.tone === 'distractor')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const spaceResponses = events
-      .filter(e => e.eventType === 'keypress' && e.data.key === ' ')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
+    const signals = this.ofKind(trials, 'audio');
+    // Detection counts any audio key — a wrong tone key is still a detected tone
+    const audioRTs = signals.flatMap(t => t.rtMs != null && t.rtMs >= MetricsCalculator.RT_MIN_MS ? [t.rtMs] : []);
 
-    const audioRTs: number[] = [];
-    let hits = 0;
-
-    for (const cue of signalCues) {
-      const response = spaceResponses.find(r =>
-        r.timestampUs > cue.timestampUs &&
-        r.timestampUs < cue.timestampUs + (MetricsCalculator.RT_MAX_MS * 1000)
-      );
-      if (response) {
-        const rt = (response.timestampUs - cue.timestampUs) / 1000;
-        if (rt >= MetricsCalculator.RT_MIN_MS) {
-          audioRTs.push(rt);
-          hits++;
-        }
-      }
-    }
-
-    // False positives: SPACE pressed during distractor window
-    let falsePositives = 0;
-    for (const dist of distractorCues) {
-      const falseResp = spaceResponses.find(r =>
-        r.timestampUs > dist.timestampUs &&
-        r.timestampUs < dist.timestampUs + (MetricsCalculator.RT_MAX_MS * 1000)
-      );
-      if (falseResp) falsePositives++;
-    }
+    return {
+      meanAudioRT: this.mean(audioRTs),
+      audioAccuracy: signals.length > 0 ? audioRTs.length / signals.length : 0,
+      // False positives: audio key pressed during distractor window
+      audioFalsePositives: this.ofKind(trials, 'distractor').filter(t => t.outcome === 'false_alarm').length,
+      exGaussian: this.exGaussian(audioRTs)
+    };
+  }
 
-    const totalSignals = signalCues.length;
+  /**
+   * Two-alternative discrimination (only when cues carry tone keys).
+   * Treats "high" as the signal: H = P(high key | high tone),
+   * F = P(high key | low tone), with the log-linear correction
+   * (+0.5 / +1) so perfect or empty cells stay finite.
+   * Returns null for detection-mode layers.
+   */
+  static audioDiscrimination(trials: TrialRecord[]): {
+    discriminationAccuracy: number;
+    wrongKeyErrors: number;
+    dPrime: number;
+    criterion: number;
+  } | null {
+    const cues = this.ofKind(trials, 'audio').filter(t => t.stimulus.tone === 'high' || t.stimulus.tone === 'low');
+    const isDiscrimination = cues.some(t =>
+      t.stimulus.expectedKey === AUDIO_RESPONSE_KEYS.high || t.stimulus.expectedKey === AUDIO_RESPONSE_KEYS.low);
+    if (cues.length === 0 || !isDiscrimination) return null;
+
+    const high = cues.filter(t => t.stimulus.tone === 'high');
+    const low = cues.filter(t => t.stimulus.tone === 'low');
+    const highKey = (t: TrialRecord) => t.responseKey === AUDIO_RESPONSE_KEYS.high;
+
+    const zH = this.correctedZ(high.filter(highKey).length, high.length);
+    const zF = this.correctedZ(low.filter(highKey).length, low.length);
     return {
-      meanAudioRT: audioRTs.length > 0
-        ? audioRTs.reduce((s, r) => s + r, 0) / audioRTs.length
-        : 0,
-      audioAccuracy: totalSignals > 0 ? hits / totalSignals : 0,
-      audioFalsePositives: falsePositives
+      discriminationAccuracy: cues.filter(t => t.responseKey === t.stimulus.expectedKey).length / cues.length,
+      wrongKeyErrors: cues.filter(t => t.outcome === 'wrong_key').length,
+      dPrime: zH - zF,
+      criterion: -(zH + zF) / 2
     };
   }
 
+  /** z of a log-linear corrected rate: (count + 0.5) / (trials + 1) */
+  private static correctedZ(count: number, trials: number): number {
+    return Statistics.normalQuantile((count + 0.5) / (trials + 1));
+  }
+
+  private static isDiscrimination(events: RawEvent[]): boolean {
+    return events.some(e => e.eventType === 'audio_cue' &&
+      (e.data.expectedKey === AUDIO_RESPONSE_KEYS.high || e.data.expectedKey === AUDIO_RESPONSE_KEYS.low));
+  }
+
   // =========================================================================
   // LAYER 2+: PRP DURATION
   // =========================================================================
 
-  static prpDuration(events: RawEvent[]): number {
-    const audioCues = events
-      .filter(e => e.eventType === 'audio_cue' && e.data.tone !== 'distractor')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
+  /** Tracking recovery after answered audio cues (trials), from the tracking stream (events) */
+  static prpDuration(tracking: RawEvent[] | TrackingSeries, trials: TrialRecord[]): number {
+    const answered = this.ofKind(trials, 'audio').filter(t => t.onsetUs != null && t.responseUs != null);
 
-    const keypresses = events
-      .filter(e => e.eventType === 'keypress' && e.data.key === ' ')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const cursorPositions = events
-      .filter(e => e.eventType === 'cursor_pos')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
+    const series = TrackingSeries.of(tracking);
 
     const prpDurations: number[] = [];
 
-    for (const cue of audioCues) {
-      const response = keypresses.find(k =>
-        k.timestampUs > cue.timestampUs &&
-        k.timestampUs < cue.timestampUs + MetricsCalculator.RT_MAX_MS * 1000
-      );
-      if (!response) continue;
+    for (const trial of answered) {
+      const cueUs = trial.onsetUs!, responseUs = trial.responseUs!;
 
       // Pre-cue tracking error (500ms window)
-      const preStart = cue.timestampUs - (MetricsCalculator.PRP_WINDOW_PRE_MS * 1000);
-      const preCursor = cursorPositions.filter(p =>
-        p.timestampUs >= preStart && p.timestampUs < cue.timestampUs
-      );
-      if (preCursor.length === 0) continue;
+      const preStart = cueUs - (MetricsCalculator.PRP_WINDOW_PRE_MS * 1000);
+      const preError = series.meanError(preStart, cueUs);
+      if (preError === null) continue;
 
-      const preError = this.computeMeanError(preCursor);
       const threshold = preError * MetricsCalculator.PRP_THRESHOLD_MULTIPLIER;
 
       // Post-response recovery (start 100ms after response)
-      const recoveryStart = response.timestampUs + (MetricsCalculator.PRP_WINDOW_POST_MS * 1000);
-      const recoveryEnd = response.timestampUs + (MetricsCalculator.PRP_MAX_MS * 1000);
+      const recoveryStart = responseUs + (MetricsCalculator.PRP_WINDOW_POST_MS * 1000);
+      const recoveryEnd = responseUs + (MetricsCalculator.PRP_MAX_MS * 1000);
 
       let prp = MetricsCalculator.PRP_MAX_MS;
 
       for (let time = recoveryStart; time <= recoveryEnd; time += 100000) {
-        const windowPos = cursorPositions.filter(p =>
-          p.timestampUs >= time && p.timestampUs < time + 100000
-        );
-        if (windowPos.length > 0 && this.computeMeanError(windowPos) <= threshold) {
-          prp = (time - response.timestampUs) / 1000;
+        const windowError = series.meanError(time, time + 100000);
+        if (windowError !== null && windowError <= threshold) {
+          prp = (time - responseUs) / 1000;
           break;
         }
       }
@@ -326,57 +623,21 @@ export class MetricsCalculator {
       prpDurations.push(prp);
     }
 
-    return prpDurations.length > 0
-      ? prpDurations.reduce((s, d) => s + d, 0) / prpDurations.length
-      : 0;
-  }
-
-  private static computeMeanError(positions: RawEvent[]): number {
-    if (positions.length === 0) return 0;
-    let total = 0;
-    for (const p of positions) {
-      const d = p.data;
-      total += Math.sqrt((d.cursorX! - d.targetX!) ** 2 + (d.cursorY! - d.targetY!) ** 2);
-    }
-    return total / positions.length;
+    return this.mean(prpDurations);
   }
 
   // =========================================================================
   // LAYER 3: COOLDOWN
   // =========================================================================
 
-  static cooldownDelay(events: RawEvent[]): {
+  static cooldownDelay(trials: TrialRecord[]): {
     meanCooldownDelay: number;
     cooldownMissCount: number;
   } {
-    const readyEvents = events
-      .filter(e => e.eventType === 'cooldown_ready')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const fPresses = events
-      .filter(e => e.eventType === 'keypress' && e.data.key === 'f')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const delays: number[] = [];
-    let missCount = 0;
-
-    for (let i = 0; i < readyEvents.length; i++) {
-      const ready = readyEvents[i];
-      const nextReady = readyEvents[i + 1];
-      const response = fPresses.find(k => k.timestampUs > ready.timestampUs);
-
-      if (response && (!nextReady || response.timestampUs < nextReady.timestampUs)) {
-        delays.push((response.timestampUs - ready.timestampUs) / 1000);
-      } else {
-        missCount++;
-      }
-    }
-
+    const cooldown = this.ofKind(trials, 'cooldown');
     return {
-      meanCooldownDelay: delays.length > 0
-        ? delays.reduce((s, d) => s + d, 0) / delays.length
-        : 0,
-      cooldownMissCount: missCount
+      meanCooldownDelay: this.mean(cooldown.flatMap(t => t.outcome === 'hit' && t.rtMs != null ? [t.rtMs] : [])),
+      cooldownMissCount: cooldown.filter(t => t.outcome === 'miss').length
     };
   }
 
@@ -385,43 +646,78 @@ export class MetricsCalculator {
   // FIX: Uses digit keys (0-9) matching the displayed digit, not arrow keys
   // =========================================================================
 
-  static peripheralDetection(events: RawEvent[]): {
+  static peripheralDetection(trials: TrialRecord[]): {
     meanPeripheralRT: number;
     peripheralMissRate: number;
+    exGaussian: ExGaussianFit | null;
   } {
-    const flashes = events
-      .filter(e => e.eventType === 'peripheral_flash')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
-
-    const keypresses = events
-      .filter(e => e.eventType === 'keypress')
-      .sort((a, b) => a.timestampUs - b.timestampUs);
+    const flashes = this.ofKind(trials, 'peripheral');
+    const rts = flashes.flatMap(t => t.outcome === 'hit' && t.rtMs != null ? [t.rtMs] : []);
+    return {
+      meanPeripheralRT: this.mean(rts),
+      peripheralMissRate: flashes.length > 0 ? flashes.filter(t => t.outcome === 'miss').length / flashes.length : 0,
+      exGaussian: this.exGaussian(rts)
+    };
+  }
 
-    const rts: number[] = [];
-    let missCount = 0;
+  // =========================================================================
+  // PRESENTATION & INPUT TIMING
+  // =========================================================================
 
-    for (const flash of flashes) {
-      const expectedDigit = flash.data.digit?.toString();
-      if (expectedDigit == null) { missCount++; continue; }
+  /**
+   * A stimulus moved to when it reached the person: its first frame on screen
+   * (onsetTimeUs) or, for audio cues, the tone's output time (outputTimeUs).
+   * Stimuli without one (older sessions, the simulator) keep the update time.
+   */
+  private static atOnsetTime(event: RawEvent): RawEvent {
+    const onset = event.data.onsetTimeUs ?? event.data.outputTimeUs;
+    return typeof onset === 'number' ? { ...event, timestampUs: onset } : event;
+  }
 
-      const response = keypresses.find(k =>
-        k.data.key === expectedDigit &&
-        k.timestampUs > flash.timestampUs &&
-        k.timestampUs < flash.timestampUs + (MetricsCalculator.PERIPHERAL_TIMEOUT_MS * 1000)
-      );
+  /**
+   * Engine update → presentation delay over a session's visual onsets; its SD
+   * is the onset jitter. Null when no onset was stamped.
+   */
+  static onsetJitter(events: RawEvent[]): OnsetJitterReport | null {
+    const delays = events
+      .filter(e => typeof e.data.onsetTimeUs === 'number')
+      .map(e => (e.data.onsetTimeUs - e.timestampUs) / 1000);
+    if (delays.length === 0) return null;
+    const mean = delays.reduce((s, d) => s + d, 0) / delays.length;
+    return {
+      count: delays.length,
+      meanMs: mean,
+      sdMs: Math.sqrt(delays.reduce((s, d) => s + (d - mean) ** 2, 0) / delays.length),
+      p95Ms: Statistics.quantile(delays, 0.95),
+      maxMs: Math.max(...delays)
+    };
+  }
 
-      if (response) {
-        rts.push((response.timestampUs - flash.timestampUs) / 1000);
-      } else {
-        missCount++;
-      }
-    }
+  /**
+   * A response moved to its dispatch time (event.timeStamp, the closest to
+   * the hardware we get). Events without one — older sessions, the
+   * simulator — keep the handler time.
+   */
+  private static atInputTime(event: RawEvent): RawEvent {
+    const dispatch = event.data.dispatchTimeUs;
+    return typeof dispatch === 'number' ? { ...event, timestampUs: dispatch } : event;
+  }
 
+  /**
+   * Dispatch → handler lag over a session's clicks and keypresses.
+   * Null when no event carries both times.
+   */
+  static inputLag(events: RawEvent[]): InputLagReport | null {
+    const lags = events
+      .filter(e => (e.eventType === 'click' || e.eventType === 'keypress') &&
+        typeof e.data.dispatchTimeUs === 'number' && typeof e.data.handlerTimeUs === 'number')
+      .map(e => (e.data.handlerTimeUs - e.data.dispatchTimeUs) / 1000);
+    if (lags.length === 0) return null;
     return {
-      meanPeripheralRT: rts.length > 0
-        ? rts.reduce((s, r) => s + r, 0) / rts.length
-        : 0,
-      peripheralMissRate: flashes.length > 0 ? missCount / flashes.length : 0
+      count: lags.length,
+      meanMs: lags.reduce((s, l) => s + l, 0) / lags.length,
+      p95Ms: Statistics.quantile(lags, 0.95),
+      maxMs: Math.max(...lags)
     };
   }
 
@@ -446,6 +742,178 @@ export class MetricsCalculator {
     return stallCount;
   }
 
+  // =========================================================================
+  // N-BACK WORKING MEMORY
+  // =========================================================================
+
+  /**
+   * Each item owns the first R press in its response window (up to
+   * NBACK_RESPONSE_WINDOW_MS, cut short by the next item). Hit rate over
+   * match items, false-alarm rate over non-match items, d′ with the same
+   * log-linear correction as audioDiscrimination. Null when no items were shown.
+   */
+  static nBack(trials: TrialRecord[]): {
+    nbackHitRate: number;
+    nbackFalseAlarmRate: number;
+    nbackDPrime: number;
+    meanNBackRT: number;
+  } | null {
+    const items = this.ofKind(trials, 'nback');
+    if (items.length === 0) return null;
+
+    const targets = items.filter(t => t.stimulus.isTarget);
+    const nonTargets = items.filter(t => !t.stimulus.isTarget);
+    const hits = targets.filter(t => t.outcome === 'hit');
+    const falseAlarms = nonTargets.filter(t => t.outcome === 'false_alarm').length;
+    const hitRTs = hits.flatMap(t => t.rtMs != null && t.rtMs >= MetricsCalculator.RT_MIN_MS ? [t.rtMs] : []);
+
+    return {
+      nbackHitRate: targets.length > 0 ? hits.length / targets.length : 0,
+      nbackFalseAlarmRate: nonTargets.length > 0 ? falseAlarms / nonTargets.length : 0,
+      nbackDPrime: this.correctedZ(hits.length, targets.length) - this.correctedZ(falseAlarms, nonTargets.length),
+      meanNBackRT: this.mean(hitRTs)
+    };
+  }
+
+  // =========================================================================
+  // PSYCHOMOTOR VIGILANCE TEST
+  // =========================================================================
+
+  /**
+   * Each stimulus owns the first SPACE press after its onset (before the next
+   * onset, up to PVT_TIMEOUT_MS). No press = timeout, counted as a lapse.
+   * Presses owned by no stimulus, and responses under RT_MIN_MS, are false
+   * starts; neither enters the RT-based outcomes. Slope is RT against time
+   * since the first stimulus, in ms per minute.
+   */
+  static pvt(trials: TrialRecord[]): {
+    pvtMeanSpeed: number;
+    pvtLapses: number;
+    pvtFalseStarts: number;
+    pvtFastest10RT: number;
+    pvtSlowest10Speed: number;
+    pvtSlope: number;
+  } {
+    const pvtTrials = this.ofKind(trials, 'pvt');
+    const stimuli = pvtTrials.filter(t => t.onsetUs != null);
+    const responded: { t: number; rt: number }[] = [];
+    let lapses = 0;
+    let falseStarts = pvtTrials.filter(t => t.outcome === 'false_start').length;
+
+    for (const trial of stimuli) {
+      if (trial.rtMs == null) { lapses++; continue; }
+      if (trial.rtMs < MetricsCalculator.RT_MIN_MS) { falseStarts++; continue; }
+      if (trial.rtMs >= MetricsCalculator.PVT_LAPSE_MS) lapses++;
+      responded.push({ t: (trial.onsetUs! - stimuli[0].onsetUs!) / 60000000, rt: trial.rtMs });
+    }
+
+    const rts = responded.map(tr => tr.rt).sort((a, b) => a - b);
+    const tenth = Math.max(1, Math.round(rts.length * 0.1));
+    return {
+      pvtMeanSpeed: this.mean(rts.map(rt => 1000 / rt)),
+      pvtLapses: lapses,
+      pvtFalseStarts: falseStarts,
+      pvtFastest10RT: this.mean(rts.slice(0, tenth)),
+      pvtSlowest10Speed: this.mean(rts.slice(-tenth).map(rt => 1000 / rt)),
+      pvtSlope: Statistics.linearRegression(responded.map(tr => tr.t), responded.map(tr => tr.rt)).slope
+    };
+  }
+
+  // =========================================================================
+  // TIME ON TASK
+  // =========================================================================
+
+  /**
+   * The layer cut into TIME_ON_TASK_BIN_S bins from layer_start: mean tracking
+   * error of the samples in each bin, and mean RT / miss rate of the trials
+   * whose stimulus appeared in it (responses ≥ RT_MIN_MS; only trials that
+   * needed a response count towards misses). Slopes are least squares over
+   * bin centres, per minute, once TIME_ON_TASK_MIN_BINS bins have a value.
+   * Null when no bin has anything.
+   */
+  static timeOnTask(
+    events: RawEvent[],
+    trials: TrialRecord[],
+    layerDurationSeconds: number,
+    tracking: TrackingSeries = TrackingSeries.from(events)
+  ): TimeOnTaskSeries | null {
+    const binS = MetricsCalculator.TIME_ON_TASK_BIN_S;
+    const startUs = events.find(e => e.eventType === 'layer_start')?.timestampUs ??
+      events.reduce((min, e) => Math.min(min, e.timestampUs), Infinity);
+    if (!Number.isFinite(startUs)) return null;
+    const binCount = Math.max(1, Math.ceil(layerDurationSeconds / binS));
+    const binOf = (us: number) => Math.min(binCount - 1, Math.max(0, Math.floor((us - startUs) / 1e6 / binS)));
+
+    const errorSum = new Float64Array(binCount), sampleCount = new Uint32Array(binCount);
+    for (let i = 0; i < tracking.length; i++) {
+      const bin = binOf(tracking.t[i]);
+      errorSum[bin] += tracking.error[i];
+      sampleCount[bin]++;
+    }
+
+    const responseTrials: TrialRecord[][] = Array.from({ length: binCount }, () => []);
+    for (const t of this.ofKind(trials, ...MetricsCalculator.TIME_ON_TASK_KINDS)) {
+      if (t.onsetUs != null && (t.outcome === 'hit' || t.outcome === 'miss' || t.outcome === 'wrong_key')) {
+        responseTrials[binOf(t.onsetUs)].push(t);
+      }
+    }
+
+    const bins: TimeOnTaskBin[] = responseTrials.map((binTrials, i) => {
+      const rts = binTrials.flatMap(t => t.rtMs != null && t.rtMs >= MetricsCalculator.RT_MIN_MS ? [t.rtMs] : []);
+      return {
+        startS: i * binS,
+        trackingError: sampleCount[i] > 0 ? errorSum[i] / sampleCount[i] : null,
+        meanRT: rts.length > 0 ? this.mean(rts) : null,
+        missRate: binTrials.length > 0 ? binTrials.filter(t => t.outcome === 'miss').length / binTrials.length : null
+      };
+    });
+    if (bins.every(b => b.trackingError == null && b.meanRT == null && b.missRate == null)) return null;
+
+    const slope = (key: 'trackingError' | 'meanRT' | 'missRate') => {
+      const filled = bins.filter(b => b[key] != null);
+      if (filled.length < MetricsCalculator.TIME_ON_TASK_MIN_BINS) return null;
+      return Statistics.linearRegression(filled.map(b => (b.startS + binS / 2) / 60), filled.map(b => b[key]!)).slope;
+    };
+    return {
+      binSeconds: binS,
+      bins,
+      trackingErrorSlope: slope('trackingError'),
+      rtSlope: slope('meanRT'),
+      missRateSlope: slope('missRate')
+    };
+  }
+
+  // =========================================================================
+  // DUAL-TASK COST
+  // =========================================================================
+
+  /**
+   * Copies of a session's layer metrics with dual-task costs filled in. For
+   * each measure, every layer that carries it is compared with the previous
+   * layer (protocol order) that did: cost = % increase of the raw metric.
+   * costPerTask divides each cost by the components the layer added and
+   * averages them. Reference values ≤ 0 give no cost.
+   */
+  static withDualTaskCosts(layers: LayerDefinition[], metrics: LayerMetrics[]): LayerMetrics[] {
+    const out = metrics.map(m => ({ ...m }));
+    const of = (layer: LayerDefinition) => out.find(m => m.layer === layer.id);
+    const perTask = new Map<LayerMetrics, number[]>();
+
+    for (const { component, key, cost } of MetricsCalculator.DUAL_TASK_MEASURES) {
+      const carrying = layers.filter(l => l.components.includes(component) && typeof of(l)?.[key] === 'number');
+      for (let i = 1; i < carrying.length; i++) {
+        const from = carrying[i - 1], to = carrying[i];
+        const reference = of(from)![key]!, target = of(to)!;
+        if (!(reference > 0)) continue;
+        target[cost] = (target[key]! - reference) / reference * 100;
+        const added = to.components.filter(c => !from.components.includes(c)).length;
+        if (added > 0) perTask.set(target, [...(perTask.get(target) ?? []), target[cost]! / added]);
+      }
+    }
+    for (const [m, costs] of perTask) m.costPerTask = this.mean(costs);
+    return out;
+  }
+
   // =========================================================================
   // MAIN ENTRY POINT
   // =========================================================================
@@ -455,49 +923,158 @@ export class MetricsCalculator {
     layer: number,
     events: RawEvent[],
     layerDurationSeconds: number,
-    monitorRefreshRate: number
+    monitorRefreshRate: number,
+    components: LayerComponent[],
+    trials?: TrialRecord[]   // stored trials, with the analyst's exclusions
   ): LayerMetrics {
     const metrics: LayerMetrics = { sessionId, layer };
+    const has = (c: LayerComponent) => components.includes(c);
+    const scored = (trials ?? this.extractTrials(sessionId, layer, events)).filter(t => !t.excluded);
+    const series = TrackingSeries.from(events);
 
-    // Layer 0: Simple RT
-    if (layer === 0) {
-      const rt = this.reactionTime(events);
+    // Simple RT
+    if (has('simple_rt')) {
+      const rt = this.reactionTime(scored);
       metrics.meanRT = rt.meanRT;
       metrics.rtVariance = rt.rtVariance;
       metrics.rtStd = rt.rtStd;
       metrics.anticipationCount = rt.anticipationCount;
       metrics.lapseCount = rt.lapseCount;
+      if (rt.exGaussian) {
+        metrics.rtMu = rt.exGaussian.mu;
+        metrics.rtSigma = rt.exGaussian.sigma;
+        metrics.rtTau = rt.exGaussian.tau;
+        metrics.rtFitD = rt.exGaussian.ksD;
+      }
     }
 
-    // Layer 1+: Tracking
-    if (layer >= 1) {
-      const tracking = this.trackingError(events);
+    // Go/No-Go
+    if (has('go_nogo')) {
+      const gng = this.goNoGo(scored);
+      metrics.meanGoRT = gng.meanGoRT;
+      metrics.commissionRate = gng.commissionRate;
+      metrics.omissionRate = gng.omissionRate;
+    }
+
+    // Tracking
+    if (has('tracking')) {
+      const tracking = this.trackingError(series);
       metrics.meanTrackingError = tracking.meanTrackingError;
       metrics.trackingErrorVariance = tracking.trackingErrorVariance;
       metrics.meanJerk = this.trackingJerk(events, monitorRefreshRate);
-      metrics.overshootRate = this.overshootRate(events, layerDurationSeconds);
+      metrics.overshootRate = this.overshootRate(series, layerDurationSeconds);
+      const tf = this.trackingTransferFunction(series);
+      if (tf) {
+        metrics.trackingGainLow = tf.bands.low.gain;
+        metrics.trackingGainMid = tf.bands.mid.gain;
+        metrics.trackingGainHigh = tf.bands.high.gain;
+        metrics.trackingPhaseLagLow = tf.bands.low.phaseLagDeg;
+        metrics.trackingPhaseLagMid = tf.bands.mid.phaseLagDeg;
+        metrics.trackingPhaseLagHigh = tf.bands.high.phaseLagDeg;
+        metrics.trackingTimeDelay = tf.timeDelayMs ?? undefined;
+        metrics.trackingCoherence = tf.coherence;
+        metrics.trackingRemnant = tf.remnant;
+      }
     }
 
-    // Layer 2+: Audio
-    if (layer >= 2) {
-      const audio = this.audioMetrics(events);
+    // Audio
+    if (has('audio')) {
+      const audio = this.audioMetrics(scored);
       metrics.meanAudioRT = audio.meanAudioRT;
       metrics.audioAccuracy = audio.audioAccuracy;
       metrics.audioFalsePositives = audio.audioFalsePositives;
-      metrics.meanPRPDuration = this.prpDuration(events);
+      if (audio.exGaussian) {
+        metrics.audioRTMu = audio.exGaussian.mu;
+        metrics.audioRTSigma = audio.exGaussian.sigma;
+        metrics.audioRTTau = audio.exGaussian.tau;
+        metrics.audioRTFitD = audio.exGaussian.ksD;
+      }
+      metrics.meanPRPDuration = this.prpDuration(series, scored);
+      const discrimination = this.audioDiscrimination(scored);
+      if (discrimination) {
+        metrics.discriminationAccuracy = discrimination.discriminationAccuracy;
+        metrics.wrongKeyErrors = discrimination.wrongKeyErrors;
+        metrics.dPrime = discrimination.dPrime;
+        metrics.criterion = discrimination.criterion;
+      }
     }
 
-    // Layer 3: Full load
-    if (layer === 3) {
-      const cooldown = this.cooldownDelay(events);
+    // Cooldown
+    if (has('cooldown')) {
+      const cooldown = this.cooldownDelay(scored);
       metrics.meanCooldownDelay = cooldown.meanCooldownDelay;
       metrics.cooldownMissCount = cooldown.cooldownMissCount;
+    }
 
-      const peripheral = this.peripheralDetection(events);
+    // Peripheral
+    if (has('peripheral')) {
+      const peripheral = this.peripheralDetection(scored);
       metrics.meanPeripheralRT = peripheral.meanPeripheralRT;
       metrics.peripheralMissRate = peripheral.peripheralMissRate;
+      if (peripheral.exGaussian) {
+        metrics.peripheralRTMu = peripheral.exGaussian.mu;
+        metrics.peripheralRTSigma = peripheral.exGaussian.sigma;
+        metrics.peripheralRTTau = peripheral.exGaussian.tau;
+        metrics.peripheralRTFitD = peripheral.exGaussian.ksD;
+      }
+    }
+
+    // PVT
+    if (has('pvt')) {
+      const pvt = this.pvt(scored);
+      metrics.pvtMeanSpeed = pvt.pvtMeanSpeed;
+      metrics.pvtLapses = pvt.pvtLapses;
+      metrics.pvtFalseStarts = pvt.pvtFalseStarts;
+      metrics.pvtFastest10RT = pvt.pvtFastest10RT;
+      metrics.pvtSlowest10Speed = pvt.pvtSlowest10Speed;
+      metrics.pvtSlope = pvt.pvtSlope;
+    }
+
+    // N-back
+    if (has('nback')) {
+      const nback = this.nBack(scored);
+      if (nback) {
+        metrics.nbackHitRate = nback.nbackHitRate;
+        metrics.nbackFalseAlarmRate = nback.nbackFalseAlarmRate;
+        metrics.nbackDPrime = nback.nbackDPrime;
+        metrics.meanNBackRT = nback.meanNBackRT;
+      }
+    }
+
+    // Time on task
+    const timeOnTask = this.timeOnTask(events, scored, layerDurationSeconds, series);
+    if (timeOnTask) {
+      metrics.timeOnTask = timeOnTask;
+      metrics.trackingErrorSlope = timeOnTask.trackingErrorSlope ?? undefined;
+      metrics.rtSlope = timeOnTask.rtSlope ?? undefined;
+      metrics.missRateSlope = timeOnTask.missRateSlope ?? undefined;
     }
 
     return metrics;
   }
+
+  /**
+   * Whole-session pipeline: trials per layer (`excluded` marks the analyst's
+   * exclusions), layer metrics with dual-task costs, and the registry's
+   * long-format values
+   */
+  static computeSession(
+    sessionId: string,
+    layers: LayerDefinition[],
+    events: RawEvent[],
+    monitorRefreshRate: number,
+    excluded: (trial: TrialRecord) => boolean = () => false
+  ): SessionComputation {
+    const trials: TrialRecord[] = [];
+    const perLayer = layers.map(l => {
+      const layerEvents = events.filter(e => e.layer === l.id);
+      const layerTrials = this.extractTrials(sessionId, l.id, layerEvents).map(t => ({ ...t, excluded: excluded(t) }));
+      trials.push(...layerTrials);
+      return this.computeLayerMetrics(
+        sessionId, l.id, layerEvents, l.durationSeconds, monitorRefreshRate, l.components, layerTrials
+      );
+    });
+    const layerMetrics = this.withDualTaskCosts(layers, perLayer);
+    return { trials, layerMetrics, metricValues: MetricRegistry.computeSession(sessionId, layers, layerMetrics, trials) };
+  }
 }
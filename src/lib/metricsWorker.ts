@@ -0,0 +1,30 @@
+/**
+ * Metrics Worker for CLST
+ * Runs MetricsCalculator.computeSession off the main thread. Spawned by
+ * BackgroundMetrics, one worker per session: a request in, one response out.
+ */
+
+import type { LayerDefinition, RawEvent } from '@/types';
+import { MetricsCalculator, type SessionComputation } from './metricsCalculator';
+
+export interface MetricsWorkerRequest {
+  sessionId: string;
+  layers: LayerDefinition[];
+  events: RawEvent[];
+  monitorRefreshRate: number;
+}
+
+export type MetricsWorkerResponse =
+  | { ok: true; result: SessionComputation }
+  | { ok: false; error: string };
+
+self.onmessage = (e: MessageEvent<MetricsWorkerRequest>) => {
+  const { sessionId, layers, events, monitorRefreshRate } = e.data;
+  let response: MetricsWorkerResponse;
+  try {
+    response = { ok: true, result: MetricsCalculator.computeSession(sessionId, layers, events, monitorRefreshRate) };
+  } catch (err) {
+    response = { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
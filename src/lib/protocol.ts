@@ -0,0 +1,224 @@
+/**
+ * Protocol definitions for CLST
+ * Declarative battery layout (Section 3): ordered layers with duration,
+ * active components and instructions. The engine, metrics, scoring and the
+ * inter-layer screens are all driven from a ProtocolDefinition.
+ *
+ * Built-in protocols live in src/protocols/*.json; custom protocols are
+ * imported as JSON and validated with ProtocolManager.parse().
+ *
+ * A protocol is either a battery (feeds CRS history) or a standalone PVT
+ * (sessionType 'pvt', pvt layers only, its own baselines).
+ */
+
+import type {
+  ProtocolDefinition, LayerDefinition, LayerComponent, AudioResponseMode, NBackSettings, SessionType
+} from '@/types';
+import standardProtocol from '@/protocols/standard.json';
+import shortProtocol from '@/protocols/short.json';
+import extendedProtocol from '@/protocols/extended.json';
+import pvt10Protocol from '@/protocols/pvt10.json';
+import pvt5Protocol from '@/protocols/pvt5.json';
+import pvt3Protocol from '@/protocols/pvt3.json';
+
+export const DEFAULT_PROTOCOL_ID = 'standard';
+
+/** Audio response keys (KeyboardEvent.key, lowercased) */
+export const AUDIO_RESPONSE_KEYS = {
+  detection: ' ',
+  high: 'e',
+  low: 'q'
+} as const;
+
+/** N-back "match" key (KeyboardEvent.key, lowercased) */
+export const NBACK_MATCH_KEY = 'r';
+
+/** Visual n-back items — consonants that don't collide with response keys */
+export const NBACK_LETTERS = ['B', 'C', 'H', 'K', 'L', 'M', 'S', 'T'] as const;
+
+/** PVT response key (KeyboardEvent.key) */
+export const PVT_RESPONSE_KEY = ' ';
+
+/** Used when a layer has the nback component but no settings */
+export const DEFAULT_NBACK: NBackSettings = { n: 2, modality: 'visual' };
+
+export class ProtocolManager {
+  static readonly COMPONENTS: readonly LayerComponent[] = [
+    'simple_rt', 'go_nogo', 'tracking', 'audio', 'peripheral', 'cooldown', 'nback', 'pvt'
+  ];
+
+  /** Click-response tasks that own the mouse and can't share a layer */
+  private static readonly STANDALONE: readonly LayerComponent[] = ['simple_rt', 'go_nogo', 'pvt'];
+
+  private static readonly MIN_LAYER_SECONDS = 5;
+  private static readonly MAX_LAYER_SECONDS = 1800;
+
+  private static builtins: ProtocolDefinition[] | null = null;
+
+  static listBuiltin(): ProtocolDefinition[] {
+    if (!ProtocolManager.builtins) {
+      ProtocolManager.builtins = [
+        standardProtocol, shortProtocol, extendedProtocol, pvt10Protocol, pvt5Protocol, pvt3Protocol
+      ].map(p => ProtocolManager.parse(p));
+    }
+    return ProtocolManager.builtins;
+  }
+
+  /** Built-in protocols of one session type (the battery picker lists 'battery' only) */
+  static listBuiltinOfType(type: SessionType): ProtocolDefinition[] {
+    return ProtocolManager.listBuiltin().filter(p => ProtocolManager.sessionType(p) === type);
+  }
+
+  static sessionType(protocol: ProtocolDefinition): SessionType {
+    return protocol.sessionType ?? 'battery';
+  }
+
+  static getDefault(): ProtocolDefinition {
+    return ProtocolManager.listBuiltin().find(p => p.id === DEFAULT_PROTOCOL_ID)!;
+  }
+
+  /** Resolve an id against built-ins first, then custom protocols; falls back to the default */
+  static resolve(id: string | undefined, custom: ProtocolDefinition[] = []): ProtocolDefinition {
+    if (!id) return ProtocolManager.getDefault();
+    return ProtocolManager.listBuiltin().find(p => p.id === id)
+      ?? custom.find(p => p.id === id)
+      ?? ProtocolManager.getDefault();
+  }
+
+  static hasComponent(layer: LayerDefinition | undefined, component: LayerComponent): boolean {
+    return !!layer && layer.components.includes(component);
+  }
+
+  /**
+   * Protocol instructions are written for SPACE detection; in discrimination
+   * mode every SPACE mention in an audio layer becomes the two-key mapping.
+   */
+  static withAudioResponseMode(protocol: ProtocolDefinition, mode: AudioResponseMode | undefined): ProtocolDefinition {
+    if (mode !== 'discrimination') return protocol;
+    const keys = `${AUDIO_RESPONSE_KEYS.high.toUpperCase()} (high) / ${AUDIO_RESPONSE_KEYS.low.toUpperCase()} (low)`;
+    const swap = (text: string) => text.replace(/\bSPACE\b/g, keys);
+    return {
+      ...protocol,
+      layers: protocol.layers.map(l => !l.components.includes('audio') ? l : {
+        ...l,
+        instructions: {
+          description: swap(l.instructions.description),
+          newElements: l.instructions.newElements.map(swap),
+          controls: l.instructions.controls.map(c => ({ key: swap(c.key), action: c.action }))
+        }
+      })
+    };
+  }
+
+  /**
+   * Add the n-back stream to the full-load layers (those with peripheral
+   * flashes) of a built-in or custom protocol. Layers that already declare
+   * nback keep their own settings.
+   */
+  static withNBack(protocol: ProtocolDefinition, settings: NBackSettings | null | undefined): ProtocolDefinition {
+    if (!settings) return protocol;
+    const key = NBACK_MATCH_KEY.toUpperCase();
+    const what = settings.modality === 'audio' ? 'pitch' : 'letter';
+    const source = settings.modality === 'audio' ? 'Pitches play' : 'Letters appear';
+    const back = settings.n === 1 ? 'the previous one' : `the one ${settings.n} steps back`;
+    return {
+      ...protocol,
+      layers: protocol.layers.map(l => !l.components.includes('peripheral') || l.components.includes('nback') ? l : {
+        ...l,
+        components: [...l.components, 'nback'],
+        nback: { ...settings },
+        instructions: {
+          description: `${l.instructions.description} ${source} every few seconds — press ${key} when the ${what} matches ${back}.`,
+          newElements: [...l.instructions.newElements, `${settings.n}-back ${what} stream (${key} on a match)`],
+          controls: [...l.instructions.controls, { key, action: `${settings.n}-back match` }]
+        }
+      })
+    };
+  }
+
+  /** Total battery duration in seconds (excluding inter-layer breaks) */
+  static totalDurationSeconds(protocol: ProtocolDefinition): number {
+    return protocol.layers.reduce((s, l) => s + l.durationSeconds, 0);
+  }
+
+  /**
+   * Validate untrusted JSON (imported file or stored snapshot) into a
+   * ProtocolDefinition. Throws with a message naming the offending field.
+   */
+  static parse(raw: unknown): ProtocolDefinition {
+    const obj = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    if (!obj || typeof obj !== 'object') throw new Error('Protocol must be a JSON object');
+    const p = obj as Record<string, any>;
+
+    if (typeof p.id !== 'string' || !p.id.trim()) throw new Error('Protocol "id" must be a non-empty string');
+    if (typeof p.name !== 'string' || !p.name.trim()) throw new Error('Protocol "name" must be a non-empty string');
+    if (!Array.isArray(p.layers) || p.layers.length === 0) throw new Error('Protocol "layers" must be a non-empty array');
+    if (p.sessionType !== undefined && p.sessionType !== 'battery' && p.sessionType !== 'pvt') {
+      throw new Error('Protocol "sessionType" must be "battery" or "pvt"');
+    }
+    const sessionType: SessionType = p.sessionType ?? 'battery';
+
+    const seenIds = new Set<number>();
+    const layers = p.layers.map((l: any, i: number): LayerDefinition => {
+      const where = `layers[${i}]`;
+      if (!l || typeof l !== 'object') throw new Error(`${where} must be an object`);
+      if (!Number.isInteger(l.id) || l.id < 0) throw new Error(`${where}.id must be a non-negative integer`);
+      if (seenIds.has(l.id)) throw new Error(`${where}.id ${l.id} is used by more than one layer`);
+      seenIds.add(l.id);
+      if (typeof l.durationSeconds !== 'number' ||
+          l.durationSeconds < ProtocolManager.MIN_LAYER_SECONDS ||
+          l.durationSeconds > ProtocolManager.MAX_LAYER_SECONDS) {
+        throw new Error(`${where}.durationSeconds must be between ${ProtocolManager.MIN_LAYER_SECONDS} and ${ProtocolManager.MAX_LAYER_SECONDS}`);
+      }
+      if (!Array.isArray(l.components) || l.components.length === 0) {
+        throw new Error(`${where}.components must be a non-empty array`);
+      }
+      for (const c of l.components) {
+        if (!ProtocolManager.COMPONENTS.includes(c)) {
+          throw new Error(`${where}.components: unknown component "${c}" (expected one of ${ProtocolManager.COMPONENTS.join(', ')})`);
+        }
+      }
+      const standalone = ProtocolManager.STANDALONE.find(c => l.components.includes(c));
+      if (standalone && new Set(l.components).size > 1) {
+        throw new Error(`${where}: ${standalone} cannot be combined with other components`);
+      }
+      // PVT sessions keep their own history, so the two session types never share a protocol
+      if ((sessionType === 'pvt') !== l.components.includes('pvt')) {
+        throw new Error(sessionType === 'pvt'
+          ? `${where}: a "pvt" protocol may only contain pvt layers`
+          : `${where}: pvt layers need "sessionType": "pvt"`);
+      }
+      if (l.nback !== undefined) {
+        if (!l.nback || typeof l.nback !== 'object') throw new Error(`${where}.nback must be an object`);
+        if (l.nback.n !== 1 && l.nback.n !== 2) throw new Error(`${where}.nback.n must be 1 or 2`);
+        if (l.nback.modality !== 'visual' && l.nback.modality !== 'audio') {
+          throw new Error(`${where}.nback.modality must be "visual" or "audio"`);
+        }
+      }
+      const ins = l.instructions ?? {};
+      return {
+        id: l.id,
+        name: typeof l.name === 'string' && l.name ? l.name : `Layer ${l.id}`,
+        summary: typeof l.summary === 'string' ? l.summary : '',
+        durationSeconds: l.durationSeconds,
+        components: [...new Set<LayerComponent>(l.components)],
+        ...(l.components.includes('nback') ? { nback: { n: l.nback?.n ?? DEFAULT_NBACK.n, modality: l.nback?.modality ?? DEFAULT_NBACK.modality } } : {}),
+        instructions: {
+          description: typeof ins.description === 'string' ? ins.description : '',
+          newElements: Array.isArray(ins.newElements) ? ins.newElements.map(String) : [],
+          controls: Array.isArray(ins.controls)
+            ? ins.controls.map((c: any) => ({ key: String(c?.key ?? ''), action: String(c?.action ?? '') }))
+            : []
+        }
+      };
+    });
+
+    return {
+      id: p.id.trim(),
+      name: p.name.trim(),
+      description: typeof p.description === 'string' ? p.description : undefined,
+      ...(sessionType === 'pvt' ? { sessionType } : {}),
+      layers
+    };
+  }
+}
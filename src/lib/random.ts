@@ -0,0 +1,82 @@
+/**
+ * Seeded PRNG for CLST
+ * Makes every stimulus schedule reproducible from a single 32-bit seed.
+ *
+ * Uses mulberry32 — fast, 32-bit state, good enough statistical quality for
+ * stimulus timing and selection (this is not a cryptographic generator).
+ */
+
+/** Fixed seed for the "canonical" schedule — identical stimuli every session */
+export const CANONICAL_SEED = 0x434c5354; // 'CLST'
+
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Fresh non-deterministic seed for sessions that don't request one */
+  static randomSeed(): number {
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      return crypto.getRandomValues(new Uint32Array(1))[0];
+    }
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /** Uniform float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /** Uniform float in [min, max) */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Uniform integer in [0, maxExclusive) */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Exponentially distributed interval for a Poisson process with the given rate */
+  exponential(ratePerUnit: number): number {
+    return -Math.log(1 - this.next()) / ratePerUnit;
+  }
+
+  /** Normally distributed value (Box–Muller) */
+  normal(mean: number = 0, sd: number = 1): number {
+    const u = 1 - this.next();
+    const v = this.next();
+    return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Independent sub-stream derived from this generator's seed (not its state),
+   * so draws on one stream never shift the sequence of another.
+   */
+  derive(stream: number): SeededRandom {
+    let h = (this.seed ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return new SeededRandom((h ^ (h >>> 16)) >>> 0);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Historical Recompute for CLST
+ * Rebuilds every stored session from its raw_events with the current
+ * pipeline — trials, layer metrics, metric values, LPI / DC / CRS — and then
+ * the rolling baselines. Sessions are replayed oldest first, so each one is
+ * scored against the baseline it would have had live. Run after a metric fix
+ * (MetricsCalculator.PIPELINE_VERSION bump) or a weight-profile edit.
+ *
+ * - Calibration and baseline windows follow the live rules: the first 5
+ *   sessions of a baseline scope are unscored, baselines use the 20 most
+ *   recent post-calibration sessions (ScoringEngine.rollingBaselineStats)
+ * - Trial exclusions carry over to the re-extracted trials, matched by
+ *   layer, kind and onset
+ * - Sessions without raw events keep their stored metrics and scores; their
+ *   metric values still feed the replayed baselines
+ * - Only layers that have stored metrics are recomputed (an aborted session
+ *   keeps just its completed layers); aborted and invalid sessions stay
+ *   unscored and outside calibration counts and baselines
+ * - The report lists every score and metric value that changed; dryRun
+ *   builds it without writing anything
+ */
+
+import type { Session, MetricValue, BaselineStats, WeightProfile, ProtocolDefinition, TrialRecord } from '@/types';
+import { db } from './database';
+import { MetricsCalculator } from './metricsCalculator';
+import { ScoringEngine } from './scoringEngine';
+
+export interface RecomputeProgress {
+  done: number;
+  total: number;
+  /** Session being processed; null once finished */
+  sessionId: string | null;
+}
+
+/** One stored value before and after; field is 'crs', 'dc', 'lpi' or a metric name */
+export interface RecomputeChange {
+  field: string;
+  layer: number | null;
+  before: number | null;
+  after: number | null;
+}
+
+export interface RecomputeSessionDiff {
+  sessionId: string;
+  timestamp: Date;
+  fromVersion: number | null;
+  changes: RecomputeChange[];
+}
+
+export interface RecomputeReport {
+  toVersion: number;
+  dryRun: boolean;
+  sessions: number;
+  recomputed: number;
+  /** Sessions scored by an older (or unrecorded) pipeline version before the run */
+  outdated: number;
+  /** Sessions left as stored because they have no raw events */
+  skipped: string[];
+  /** Largest |Δ| of a CRS or LPI */
+  maxScoreDelta: number;
+  /** Sessions with at least one changed value, oldest first */
+  diffs: RecomputeSessionDiff[];
+}
+
+export class Recompute {
+  private static readonly WINDOW_SIZE = 20;
+  private static readonly TOLERANCE = 1e-9;
+
+  static async run(options: {
+    dryRun?: boolean;
+    onProgress?: (progress: RecomputeProgress) => void;
+  } = {}): Promise<RecomputeReport> {
+    const sessions = (await db.getAllSessions()).reverse();
+    const version = MetricsCalculator.PIPELINE_VERSION;
+    const report: RecomputeReport = {
+      toVersion: version, dryRun: options.dryRun ?? false, sessions: sessions.length, recomputed: 0,
+      outdated: sessions.filter(s => s.pipelineVersion !== version).length,
+      skipped: [], maxScoreDelta: 0, diffs: []
+    };
+
+    // Per baseline scope: sessions seen, and the metric values of the post-calibration ones
+    const seen = new Map<string, number>();
+    const history = new Map<string, MetricValue[][]>();
+    const protocols = new Map<string, Map<string, ProtocolDefinition>>();
+    const crsBaseline = await db.getBaseline('rolling', 'crs', null);
+    const profiles = new Map<string, WeightProfile>();
+
+    for (const [i, session] of sessions.entries()) {
+      options.onProgress?.({ done: i, total: sessions.length, sessionId: session.id });
+      const scope = ScoringEngine.baselineScope(session.protocol);
+      const counted = ScoringEngine.entersBaseline(session);
+      const index = seen.get(scope) ?? 0;
+      if (counted) seen.set(scope, index + 1);
+      protocols.set(scope, (protocols.get(scope) ?? new Map()).set(session.protocol.id, session.protocol));
+
+      const before = await db.getMetricValues(session.id);
+      const events = await db.getRawEvents(session.id);
+      let after = before;
+
+      if (events.length === 0) {
+        report.skipped.push(session.id);
+      } else {
+        const excluded = new Set((await db.getTrials(session.id)).filter(t => t.excluded).map(Recompute.trialKey));
+        const stored = new Set((await db.getLayerMetrics(session.id)).map(m => m.layer));
+        const layers = session.protocol.layers.filter(l => stored.size === 0 || stored.has(l.id));
+        const result = MetricsCalculator.computeSession(
+          session.id, layers, events, session.configSnapshot.monitorRefreshRate ?? 60,
+          t => excluded.has(Recompute.trialKey(t))
+        );
+        after = result.metricValues;
+
+        let scores: ReturnType<typeof ScoringEngine.computeSessionScores> | null = null;
+        if (counted && !ScoringEngine.isCalibrationSession(index)) {
+          const baselines = Recompute.baselines(history.get(scope) ?? [], session.protocol);
+          if (scope === 'rolling' && crsBaseline) baselines.set('crs', crsBaseline);
+          const profile = await Recompute.profile(profiles, session.profileId);
+          scores = ScoringEngine.computeSessionScores(after, baselines, profile, session.protocol);
+        }
+        const updated: Session = {
+          ...session,
+          lpis: scores?.lpis ?? Object.fromEntries(session.protocol.layers.map(l => [l.id, null])),
+          lpi0: scores?.lpi0 ?? null, lpi1: scores?.lpi1 ?? null, lpi2: scores?.lpi2 ?? null, lpi3: scores?.lpi3 ?? null,
+          degradationCoeff: scores?.dc ?? null,
+          crs: scores?.crs ?? null,
+          inputLag: MetricsCalculator.inputLag(events),
+          onsetJitter: MetricsCalculator.onsetJitter(events),
+          pipelineVersion: version
+        };
+
+        const changes = Recompute.diff(session, updated, before, after);
+        if (changes.length > 0) {
+          report.diffs.push({ sessionId: session.id, timestamp: session.timestamp, fromVersion: session.pipelineVersion, changes });
+          for (const c of changes) {
+            if ((c.field === 'crs' || c.field === 'lpi') && c.before !== null && c.after !== null) {
+              report.maxScoreDelta = Math.max(report.maxScoreDelta, Math.abs(c.after - c.before));
+            }
+          }
+        }
+        if (!report.dryRun) {
+          await db.replaceSessionMetrics(session.id, result.layerMetrics, result.metricValues, result.trials);
+          await db.updateSessionResults(updated);
+        }
+        report.recomputed++;
+      }
+
+      if (counted && !ScoringEngine.isCalibrationSession(index)) {
+        history.set(scope, [...(history.get(scope) ?? []), after].slice(-Recompute.WINDOW_SIZE));
+      }
+    }
+
+    if (!report.dryRun) {
+      for (const [scope, window] of history) {
+        const entries: Array<{ metricName: string; layer: number; stats: BaselineStats }> = [];
+        for (const [key, stats] of Recompute.baselines(window, ...(protocols.get(scope)?.values() ?? []))) {
+          const [, metricName, layer] = key.match(/^(.+)_L(\d+)$/)!;
+          entries.push({ metricName, layer: Number(layer), stats });
+        }
+        await db.replaceBaselines(scope, entries);
+      }
+    }
+    options.onProgress?.({ done: sessions.length, total: sessions.length, sessionId: null });
+    return report;
+  }
+
+  /** The diff report as CSV, one row per changed value */
+  static toCSV(report: RecomputeReport): string {
+    const cell = (v: number | null) => v === null ? '' : String(v);
+    const rows = [['session_id', 'timestamp', 'from_version', 'field', 'layer', 'before', 'after', 'delta']];
+    for (const d of report.diffs) {
+      for (const c of d.changes) {
+        rows.push([
+          d.sessionId, d.timestamp.toISOString(), d.fromVersion?.toString() ?? '', c.field, c.layer?.toString() ?? '',
+          cell(c.before), cell(c.after), c.before !== null && c.after !== null ? String(c.after - c.before) : ''
+        ]);
+      }
+    }
+    return rows.map(r => r.join(',')).join('\n');
+  }
+
+  // =========================================================================
+  // HELPERS
+  // =========================================================================
+
+  /** Rolling baselines (`${name}_L${layer}`) from a window of sessions' metric values */
+  private static baselines(window: MetricValue[][], ...protocols: ProtocolDefinition[]): Map<string, BaselineStats> {
+    const baselines = new Map<string, BaselineStats>();
+    for (const layer of protocols.flatMap(p => p.layers)) {
+      for (const name of ScoringEngine.getMetricNames(layer)) {
+        const key = `${name}_L${layer.id}`;
+        if (baselines.has(key)) continue;
+        const values = window.flatMap(vs => vs.filter(v => v.layer === layer.id && v.metric === name).map(v => v.value));
+        if (values.length > 0) baselines.set(key, ScoringEngine.rollingBaselineStats(values));
+      }
+    }
+    return baselines;
+  }
+
+  private static async profile(cache: Map<string, WeightProfile>, id: string): Promise<WeightProfile> {
+    if (!cache.has(id)) {
+      cache.set(id, await db.getWeightProfile(id) ?? await db.getWeightProfile('balanced') ?? ScoringEngine.getDefaultWeightProfile());
+    }
+    return cache.get(id)!;
+  }
+
+  /** Identity of a trial that survives re-extraction (indices may shift) */
+  private static trialKey(t: TrialRecord): string {
+    return `${t.layer}:${t.kind}:${t.onsetUs ?? t.responseUs}`;
+  }
+
+  private static diff(before: Session, after: Session, beforeValues: MetricValue[], afterValues: MetricValue[]): RecomputeChange[] {
+    const changes: RecomputeChange[] = [];
+    const push = (field: string, layer: number | null, b: number | null | undefined, a: number | null | undefined) => {
+      const x = b ?? null, y = a ?? null;
+      const same = x === null || y === null ? x === y : Math.abs(x - y) <= Recompute.TOLERANCE * Math.max(1, Math.abs(x));
+      if (!same) changes.push({ field, layer, before: x, after: y });
+    };
+
+    push('crs', null, before.crs, after.crs);
+    push('dc', null, before.degradationCoeff, after.degradationCoeff);
+    for (const l of after.protocol.layers) push('lpi', l.id, before.lpis[l.id], after.lpis[l.id]);
+
+    const key = (v: MetricValue) => `${v.layer}:${v.metric}`;
+    const old = new Map(beforeValues.map(v => [key(v), v]));
+    for (const v of afterValues) {
+      push(v.metric, v.layer, old.get(key(v))?.value, v.value);
+      old.delete(key(v));
+    }
+    for (const v of old.values()) push(v.metric, v.layer, v.value, null);
+    return changes;
+  }
+}
+
@@ -0,0 +1,293 @@
+/**
+ * Session Replay Timeline for CLST
+ * Reconstructs StimulusState / TestState at any point of a recorded session
+ * from its raw_events, so the renderers can play it back.
+ *
+ * Replay time runs over the layers back to back (inter-layer breaks are
+ * skipped); 0 is the start of the first layer. Event timestamps stay in the
+ * original performance.now() domain — frameAt() shifts them by a clock offset
+ * so the renderers' age-based effects (pulses, cue indicators) line up.
+ *
+ * Sessions recorded before 'layer_start' events existed fall back to each
+ * layer's first event as its start.
+ */
+
+import type {
+  RawEvent, Session, StimulusState, TestState, ReplayOverlay, LayerDefinition, DifficultyParams
+} from '@/types';
+import { TestEngine } from './testEngine';
+import { PVT_RESPONSE_KEY } from './protocol';
+
+interface Point { t: number; x: number; y: number; }
+
+interface LayerTrack {
+  def: LayerDefinition;
+  start: number;          // ms, event time domain
+  duration: number;       // ms
+  offset: number;         // ms, replay time at which this layer begins
+  cursor: Point[];
+  target: Point[];
+  targetRadius: number;
+  stimuli: RawEvent[];
+  goNoGo: RawEvent[];
+  clicks: number[];
+  audio: RawEvent[];
+  peripheral: RawEvent[];
+  nback: RawEvent[];
+  pvt: number[];
+  pvtPresses: number[];
+  /** Cooldown cycles: ready time and the F press that used it (null = never used) */
+  cooldowns: { ready: number; used: number | null }[];
+}
+
+export interface ReplayFrame {
+  stimulus: StimulusState;
+  state: TestState;
+  overlay: ReplayOverlay;
+}
+
+export class ReplayTimeline {
+  private static readonly PATH_TRAIL_MS = 1500;
+
+  private layers: LayerTrack[] = [];
+  private difficulty: DifficultyParams;
+  private totalMs = 0;
+
+  constructor(session: Session, events: RawEvent[]) {
+    this.difficulty = TestEngine.getDifficultyParams(
+      session.configSnapshot.difficulty, session.configSnapshot.difficultyParams
+    );
+    const sorted = [...events].sort((a, b) => a.timestampUs - b.timestampUs);
+
+    for (const def of session.protocol.layers) {
+      const ev = sorted.filter(e => e.layer === def.id);
+      if (ev.length === 0) continue;
+      const startEvent = ev.find(e => e.eventType === 'layer_start') ?? ev[0];
+      const track: LayerTrack = {
+        def,
+        start: startEvent.timestampUs / 1000,
+        duration: def.durationSeconds * 1000,
+        offset: this.totalMs,
+        cursor: [], target: [], targetRadius: 30,
+        stimuli: [], goNoGo: [], clicks: [], audio: [], peripheral: [], nback: [], pvt: [], pvtPresses: [], cooldowns: []
+      };
+
+      for (const e of ev) {
+        const t = e.timestampUs / 1000;
+        switch (e.eventType) {
+          case 'cursor_pos':
+          case 'cursor_sample':
+            if (e.data.cursorX != null && e.data.cursorY != null) {
+              track.cursor.push({ t, x: e.data.cursorX, y: e.data.cursorY });
+            }
+            if (e.data.targetX != null && e.data.targetY != null) {
+              track.target.push({ t, x: e.data.targetX, y: e.data.targetY });
+              if (e.data.targetRadius != null) track.targetRadius = e.data.targetRadius;
+            }
+            break;
+          case 'stimulus_onset': track.stimuli.push(e); break;
+          case 'go_stimulus':
+          case 'nogo_stimulus': track.goNoGo.push(e); break;
+          case 'click': track.clicks.push(t); break;
+          case 'audio_cue': track.audio.push(e); break;
+          case 'peripheral_flash': track.peripheral.push(e); break;
+          case 'nback_stimulus': track.nback.push(e); break;
+          case 'pvt_stimulus': track.pvt.push(t); break;
+          case 'cooldown_ready': track.cooldowns.push({ ready: t, used: null }); break;
+          case 'keypress': {
+            // Same rule as TestEngine.handleKeyPress: F only counts while the cooldown is ready
+            const open = track.cooldowns[track.cooldowns.length - 1];
+            if (e.data.key === 'f' && open && open.used === null) open.used = t;
+            if (e.data.key === PVT_RESPONSE_KEY) track.pvtPresses.push(t);
+            break;
+          }
+        }
+      }
+
+      this.layers.push(track);
+      this.totalMs += track.duration;
+    }
+  }
+
+  /** Total replayable duration in ms (sum of recorded layers) */
+  getDuration(): number {
+    return this.totalMs;
+  }
+
+  /** Replay time at which each recorded layer starts (for scrubber markers) */
+  getLayerMarkers(): { layer: number; name: string; offset: number }[] {
+    return this.layers.map(l => ({ layer: l.def.id, name: l.def.name, offset: l.offset }));
+  }
+
+  isEmpty(): boolean {
+    return this.layers.length === 0;
+  }
+
+  /**
+   * Reconstruct the frame at replay time `replayMs`. `clockOffset` is added
+   * to every timestamp in the result (use performance.now() - eventTime to
+   * make the renderers treat the recorded instant as "now").
+   */
+  frameAt(replayMs: number, clockOffset: number = 0): ReplayFrame | null {
+    if (this.layers.length === 0) return null;
+    const { track, t } = this.locate(replayMs);
+    const shift = (v: number) => v + clockOffset;
+
+    // Simple RT stimulus: visible from onset until the first click after it
+    let simpleStimulus: StimulusState['simpleStimulus'] = null;
+    const stim = ReplayTimeline.lastAtOrBefore(track.stimuli, t, e => e.timestampUs / 1000);
+    if (stim) {
+      const onset = stim.timestampUs / 1000;
+      const clickIdx = ReplayTimeline.firstAfter(track.clicks, onset, v => v);
+      const clicked = clickIdx !== null && track.clicks[clickIdx] <= t;
+      if (!clicked) {
+        simpleStimulus = { visible: true, x: stim.data.x ?? 0, y: stim.data.y ?? 0, onsetTime: shift(onset) };
+      }
+    }
+
+    // Go/No-Go: visible for the display time or until the first click after onset
+    let goNoGoStimulus: StimulusState['goNoGoStimulus'] = null;
+    const gng = ReplayTimeline.lastAtOrBefore(track.goNoGo, t, e => e.timestampUs / 1000);
+    if (gng) {
+      const onset = gng.timestampUs / 1000;
+      const clickIdx = ReplayTimeline.firstAfter(track.clicks, onset, v => v);
+      const clicked = clickIdx !== null && track.clicks[clickIdx] <= t;
+      if (!clicked && t - onset < TestEngine.GO_NOGO_DISPLAY_MS) {
+        goNoGoStimulus = {
+          kind: gng.eventType === 'go_stimulus' ? 'go' : 'nogo',
+          x: gng.data.x ?? 0, y: gng.data.y ?? 0, onsetTime: shift(onset)
+        };
+      }
+    }
+
+    // Target: interpolated between recorded samples
+    let target: StimulusState['target'] = null;
+    const tp = ReplayTimeline.interpolate(track.target, t);
+    if (tp) {
+      const prev = ReplayTimeline.interpolate(track.target, t - 50) ?? tp;
+      target = { x: tp.x, y: tp.y, vx: (tp.x - prev.x) * 20, vy: (tp.y - prev.y) * 20, radius: track.targetRadius };
+    }
+
+    const cue = ReplayTimeline.lastAtOrBefore(track.audio, t, e => e.timestampUs / 1000);
+    const lastAudioCue: StimulusState['lastAudioCue'] = cue && cue.data.tone
+      ? { tone: cue.data.tone, onsetTime: shift(cue.timestampUs / 1000) }
+      : null;
+
+    // Peripheral: shown for the difficulty's flash duration
+    let peripheralFlash: StimulusState['peripheralFlash'] = null;
+    const pf = ReplayTimeline.lastAtOrBefore(track.peripheral, t, e => e.timestampUs / 1000);
+    if (pf && t - pf.timestampUs / 1000 < this.difficulty.peripheralDuration && pf.data.direction) {
+      peripheralFlash = { direction: pf.data.direction, digit: pf.data.digit ?? 0, onsetTime: shift(pf.timestampUs / 1000) };
+    }
+
+    // N-back: item shown for the engine's display time
+    let nbackStimulus: StimulusState['nbackStimulus'] = null;
+    const nb = ReplayTimeline.lastAtOrBefore(track.nback, t, e => e.timestampUs / 1000);
+    if (nb && t - nb.timestampUs / 1000 < TestEngine.NBACK_DISPLAY_MS) {
+      nbackStimulus = {
+        item: nb.data.item ?? 0,
+        modality: nb.data.modality === 'audio' ? 'audio' : 'visual',
+        onsetTime: shift(nb.timestampUs / 1000)
+      };
+    }
+
+    // PVT: counter runs from onset to the first SPACE after it, then shows the RT
+    let pvtCounter: StimulusState['pvtCounter'] = null;
+    const pvtOnset = ReplayTimeline.lastAtOrBefore(track.pvt, t, v => v);
+    if (pvtOnset !== null) {
+      const pressIdx = ReplayTimeline.firstAfter(track.pvtPresses, pvtOnset, v => v);
+      const stop = pressIdx !== null ? track.pvtPresses[pressIdx] : null;
+      if (stop === null || stop > t) {
+        pvtCounter = { onsetTime: shift(pvtOnset), stoppedAt: null };
+      } else if (t - stop < TestEngine.PVT_FEEDBACK_MS) {
+        pvtCounter = { onsetTime: shift(pvtOnset), stoppedAt: shift(stop) };
+      }
+    }
+
+    // Cooldown: progress restarts at layer start and at every use
+    let cooldownProgress = 0, cooldownReady = false, cooldownReadyTime: number | null = null;
+    if (track.def.components.includes('cooldown')) {
+      const cycle = ReplayTimeline.lastAtOrBefore(track.cooldowns, t, c => c.ready);
+      if (cycle && (cycle.used === null || cycle.used > t)) {
+        cooldownReady = true;
+        cooldownProgress = 1;
+        cooldownReadyTime = shift(cycle.ready);
+      } else {
+        const since = cycle?.used ?? track.start;
+        cooldownProgress = Math.min(1, (t - since) / this.difficulty.cooldownInterval);
+      }
+    }
+
+    // Overlay: cursor and target trails over the last PATH_TRAIL_MS
+    const from = t - ReplayTimeline.PATH_TRAIL_MS;
+    const trail = (pts: Point[]) => pts.filter(p => p.t >= from && p.t <= t).map(p => ({ x: p.x, y: p.y }));
+    const cursorPoint = ReplayTimeline.lastAtOrBefore(track.cursor, t, p => p.t);
+
+    return {
+      stimulus: {
+        simpleStimulus, goNoGoStimulus, target, lastAudioCue,
+        cooldownProgress, cooldownReady, cooldownReadyTime, peripheralFlash, nbackStimulus, pvtCounter
+      },
+      state: {
+        currentLayer: track.def.id,
+        components: track.def.components,
+        layerStartTime: shift(track.start),
+        layerDuration: track.duration,
+        isRunning: true,
+        isPaused: false,
+        phase: 'running'
+      },
+      overlay: {
+        cursor: cursorPoint ? { x: cursorPoint.x, y: cursorPoint.y } : null,
+        cursorPath: trail(track.cursor),
+        targetPath: trail(track.target)
+      }
+    };
+  }
+
+  /** Event time (ms) of a replay position — the offset callers need for frameAt() */
+  eventTimeAt(replayMs: number): number {
+    return this.layers.length === 0 ? 0 : this.locate(replayMs).t;
+  }
+
+  private locate(replayMs: number): { track: LayerTrack; t: number } {
+    const clamped = Math.max(0, Math.min(this.totalMs, replayMs));
+    let track = this.layers[0];
+    for (const l of this.layers) if (clamped >= l.offset) track = l;
+    return { track, t: track.start + Math.min(clamped - track.offset, track.duration) };
+  }
+
+  // =========================================================================
+  // SEARCH HELPERS (arrays are time-sorted)
+  // =========================================================================
+
+  private static lastAtOrBefore<T>(items: T[], t: number, time: (item: T) => number): T | null {
+    let lo = 0, hi = items.length - 1, found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (time(items[mid]) <= t) { found = mid; lo = mid + 1; } else { hi = mid - 1; }
+    }
+    return found >= 0 ? items[found] : null;
+  }
+
+  private static firstAfter<T>(items: T[], t: number, time: (item: T) => number): number | null {
+    let lo = 0, hi = items.length - 1, found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (time(items[mid]) > t) { found = mid; hi = mid - 1; } else { lo = mid + 1; }
+    }
+    return found >= 0 ? found : null;
+  }
+
+  private static interpolate(points: Point[], t: number): { x: number; y: number } | null {
+    if (points.length === 0 || t < points[0].t) return null;
+    const idx = ReplayTimeline.firstAfter(points, t, p => p.t);
+    if (idx === null) {
+      const last = points[points.length - 1];
+      return { x: last.x, y: last.y };
+    }
+    const a = points[idx - 1], b = points[idx];
+    const f = b.t === a.t ? 0 : (t - a.t) / (b.t - a.t);
+    return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+  }
+}
@@ -2,15 +2,22 @@
  * Scoring Engine for CLST
  * Implements Section 10.3 (COMPOSITE SCORING)
  *
+ * Scored metrics and their direction come from MetricRegistry; only completed
+ * sessions (entersBaseline) are scored or count towards calibration and baselines.
+ *
  * FIXES from code review:
  * - Weight profile is actually applied via getWeightsForLayer (not hardcoded)
  * - extractMetricsForLayer gets weights from profile parameter
  */
 
-import type { LayerMetrics, WeightProfile, BaselineStats, Session } from '@/types';
+import type {
+  WeightProfile, BaselineStats, Session, LayerDefinition, ProtocolDefinition, MetricValue
+} from '@/types';
 import { Statistics } from './statistics';
+import { ProtocolManager } from './protocol';
+import { MetricRegistry } from './metricRegistry';
 
-interface MetricValue {
+interface ScoredMetric {
   name: string;
   value: number;
   weight: number;
@@ -29,8 +36,8 @@ export class ScoringEngine {
   // =========================================================================
 
   static computeLPI(
-    layer: number,
-    metrics: LayerMetrics,
+    layer: LayerDefinition,
+    metrics: Record<string, number>,
     baselines: Map<string, BaselineStats>,
     weightProfile: WeightProfile
   ): number | null {
@@ -41,7 +48,7 @@ export class ScoringEngine {
     const appliedWeights: number[] = [];
 
     for (const metric of metricValues) {
-      const baselineKey = `${metric.name}_L${layer}`;
+      const baselineKey = `${metric.name}_L${layer.id}`;
       const baseline = baselines.get(baselineKey);
 
       if (!baseline || baseline.windowSize < ScoringEngine.MIN_BASELINE_SESSIONS) {
@@ -107,59 +114,68 @@ export class ScoringEngine {
   // METRIC EXTRACTION (uses weight profile, not hardcoded values)
   // =========================================================================
 
-  private static extractMetricsForLayer(
-    layer: number,
-    metrics: LayerMetrics,
-    profile: WeightProfile
-  ): MetricValue[] {
-    const values: MetricValue[] = [];
-
-    // Define which metrics belong to which layer and their directionality
-    const layerMetricDefs: Record<number, Array<{
-      name: string;
-      key: keyof LayerMetrics;
-      higherIsBetter: boolean;
-    }>> = {
-      0: [
-        { name: 'rt', key: 'meanRT', higherIsBetter: false },
-        { name: 'rt_variance', key: 'rtVariance', higherIsBetter: false },
-      ],
-      1: [
-        { name: 'track_error', key: 'meanTrackingError', higherIsBetter: false },
-        { name: 'track_variance', key: 'trackingErrorVariance', higherIsBetter: false },
-        { name: 'jerk', key: 'meanJerk', higherIsBetter: false },
-        { name: 'overshoot', key: 'overshootRate', higherIsBetter: false },
-      ],
-      2: [
-        { name: 'track_error', key: 'meanTrackingError', higherIsBetter: false },
-        { name: 'audio_rt', key: 'meanAudioRT', higherIsBetter: false },
-        { name: 'audio_accuracy', key: 'audioAccuracy', higherIsBetter: true },
-        { name: 'prp', key: 'meanPRPDuration', higherIsBetter: false },
-      ],
-      3: [
-        { name: 'track_error', key: 'meanTrackingError', higherIsBetter: false },
-        { name: 'audio_rt', key: 'meanAudioRT', higherIsBetter: false },
-        { name: 'prp', key: 'meanPRPDuration', higherIsBetter: false },
-        { name: 'cooldown', key: 'meanCooldownDelay', higherIsBetter: false },
-        { name: 'periph_rt', key: 'meanPeripheralRT', higherIsBetter: false },
-        { name: 'periph_miss', key: 'peripheralMissRate', higherIsBetter: false },
-      ],
+  /** Built-in 'balanced' profile, used when none is stored */
+  static getDefaultWeightProfile(): WeightProfile {
+    return {
+      id: 'balanced', name: 'Balanced', isCustom: false,
+      weights: {
+        alpha: ScoringEngine.DEFAULT_ALPHA,
+        L0: { rt: 0.6, rt_variance: 0.4 },
+        L1: { track_error: 0.35, track_variance: 0.25, jerk: 0.20, overshoot: 0.20 },
+        L2: { track_error: 0.25, audio_rt: 0.25, audio_accuracy: 0.20, prp: 0.30, audio_discrim: 0.10, audio_dprime: 0.10 },
+        L3: {
+          track_error: 0.15, audio_rt: 0.15, prp: 0.20, cooldown: 0.15, periph_rt: 0.15, periph_miss: 0.20,
+          audio_dprime: 0.10,
+          // Optional n-back stream — only scored when the layer runs it
+          nback_dprime: 0.20, nback_rt: 0.05
+        },
+        // Go/No-Go layer (extended protocol)
+        L4: { go_rt: 0.30, commission: 0.45, omission: 0.25 },
+        // Standalone PVT sessions
+        L10: {
+          pvt_speed: 0.30, pvt_lapses: 0.30, pvt_slowest: 0.15,
+          pvt_fastest: 0.10, pvt_false_starts: 0.10, pvt_slope: 0.05
+        }
+      }
     };
+  }
+
+  /**
+   * Baseline scope a protocol's sessions are scored against: battery
+   * sessions share 'rolling'; each PVT variant keeps its own (lapse counts
+   * depend on duration, so a 3-minute PVT can't use 10-minute norms)
+   */
+  static baselineScope(protocol: ProtocolDefinition): string {
+    return ProtocolManager.sessionType(protocol) === 'pvt' ? `pvt:${protocol.id}` : 'rolling';
+  }
+
+  /** Whether a session is scored and counts towards calibration and rolling baselines */
+  static entersBaseline(session: Session): boolean {
+    return session.status === 'completed';
+  }
+
+  /** Metric names scored for a layer (also the baseline keys kept for it) */
+  static getMetricNames(layer: LayerDefinition): string[] {
+    return MetricRegistry.scoredForLayer(layer).map(d => d.name);
+  }
 
-    const defs = layerMetricDefs[layer];
-    if (!defs) return values;
+  private static extractMetricsForLayer(
+    layer: LayerDefinition,
+    metrics: Record<string, number>,
+    profile: WeightProfile
+  ): ScoredMetric[] {
+    const values: ScoredMetric[] = [];
 
-    // Get weights from the profile
-    const layerKey = `L${layer}` as 'L0' | 'L1' | 'L2' | 'L3';
-    const layerWeights = profile.weights[layerKey] as Record<string, number>;
+    // Get weights from the profile — layers the profile doesn't cover get equal weights
+    const layerWeights = profile.weights[`L${layer.id}`] as Record<string, number> | undefined;
 
-    for (const def of defs) {
-      const value = metrics[def.key];
-      if (value !== undefined && typeof value === 'number') {
+    for (const def of MetricRegistry.scoredForLayer(layer)) {
+      const value = metrics[def.name];
+      if (value !== undefined) {
         values.push({
           name: def.name,
           value,
-          weight: layerWeights[def.name] ?? 0,
+          weight: layerWeights ? (layerWeights[def.name] ?? 0) : 1,
           higherIsBetter: def.higherIsBetter
         });
       }
@@ -172,10 +188,11 @@ export class ScoringEngine {
   // DC & CRS
   // =========================================================================
 
-  static computeDC(lpi0: number | null, lpi3: number | null): number | null {
-    if (lpi0 === null || lpi3 === null) return null;
-    if (lpi0 < ScoringEngine.DC_VALIDITY_THRESHOLD) return null;
-    return Math.max(0, Math.min(1, lpi3 / lpi0));
+  /** Degradation coefficient: LPI of the last (highest-load) layer relative to the first */
+  static computeDC(lpiFirst: number | null, lpiLast: number | null): number | null {
+    if (lpiFirst === null || lpiLast === null) return null;
+    if (lpiFirst < ScoringEngine.DC_VALIDITY_THRESHOLD) return null;
+    return Math.max(0, Math.min(1, lpiLast / lpiFirst));
   }
 
   static computeCRS(
@@ -199,10 +216,12 @@ export class ScoringEngine {
   // =========================================================================
 
   static computeSessionScores(
-    layerMetrics: LayerMetrics[],
+    metricValues: MetricValue[],
     baselines: Map<string, BaselineStats>,
-    weightProfile: WeightProfile
+    weightProfile: WeightProfile,
+    protocol: ProtocolDefinition = ProtocolManager.getDefault()
   ): {
+    lpis: Record<number, number | null>;
     lpi0: number | null;
     lpi1: number | null;
     lpi2: number | null;
@@ -211,13 +230,24 @@ export class ScoringEngine {
     crs: number | null;
     alert: 'critical' | 'warning' | null;
   } {
-    const lpi0 = layerMetrics[0] ? this.computeLPI(0, layerMetrics[0], baselines, weightProfile) : null;
-    const lpi1 = layerMetrics[1] ? this.computeLPI(1, layerMetrics[1], baselines, weightProfile) : null;
-    const lpi2 = layerMetrics[2] ? this.computeLPI(2, layerMetrics[2], baselines, weightProfile) : null;
-    const lpi3 = layerMetrics[3] ? this.computeLPI(3, layerMetrics[3], baselines, weightProfile) : null;
+    const lpis: Record<number, number | null> = {};
+    for (const layer of protocol.layers) {
+      const values = MetricRegistry.byName(metricValues, layer.id);
+      lpis[layer.id] = Object.keys(values).length > 0 ? this.computeLPI(layer, values, baselines, weightProfile) : null;
+    }
+    const ordered = protocol.layers.map(l => lpis[l.id]);
+
+    // PVT sessions are scored per layer only — no composite, so CRS history stays battery-only
+    if (ProtocolManager.sessionType(protocol) !== 'battery') {
+      return {
+        lpis,
+        lpi0: null, lpi1: null, lpi2: null, lpi3: null,
+        dc: null, crs: null, alert: null
+      };
+    }
 
-    const dc = this.computeDC(lpi0, lpi3);
-    const crs = this.computeCRS([lpi0, lpi1, lpi2, lpi3], dc, weightProfile.weights.alpha);
+    const dc = ordered.length > 1 ? this.computeDC(ordered[0], ordered[ordered.length - 1]) : null;
+    const crs = this.computeCRS(ordered, dc, weightProfile.weights.alpha);
 
     let alert: 'critical' | 'warning' | null = null;
     const crsBaseline = baselines.get('crs');
@@ -226,7 +256,11 @@ export class ScoringEngine {
       alert = this.checkAlertThreshold(zScore);
     }
 
-    return { lpi0, lpi1, lpi2, lpi3, dc, crs, alert };
+    return {
+      lpis,
+      lpi0: lpis[0] ?? null, lpi1: lpis[1] ?? null, lpi2: lpis[2] ?? null, lpi3: lpis[3] ?? null,
+      dc, crs, alert
+    };
   }
 
   // =========================================================================
@@ -249,6 +283,23 @@ export class ScoringEngine {
     };
   }
 
+  /**
+   * Stats of a rolling-baseline window as stored in the baselines table
+   * (index quartiles, upper-median MAD); live sessions and Recompute both use it
+   */
+  static rollingBaselineStats(values: number[]): BaselineStats {
+    const sorted = [...values].sort((a, b) => a - b);
+    const n = sorted.length;
+    const median = n % 2 === 1 ? sorted[Math.floor(n / 2)] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+    const q1 = sorted[Math.floor(n / 4)], q3 = sorted[Math.floor(3 * n / 4)];
+    const deviations = values.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+    const madMedian = deviations[Math.floor(deviations.length / 2)];
+    return {
+      median, madScaled: 1.4826 * madMedian, q1, q3, iqr: q3 - q1,
+      minVal: sorted[0], maxVal: sorted[n - 1], windowSize: n
+    };
+  }
+
   static updateRollingWindow(
     currentValues: number[], newValue: number, windowSize: number = ScoringEngine.DEFAULT_WINDOW_SIZE
   ): number[] {
@@ -276,9 +327,9 @@ export class ScoringEngine {
   }
 
   static validateWeightProfile(profile: WeightProfile): boolean {
-    const layers: Array<'L0' | 'L1' | 'L2' | 'L3'> = ['L0', 'L1', 'L2', 'L3'];
-    for (const layer of layers) {
-      const weights = Object.values(profile.weights[layer] as Record<string, number>);
+    for (const [key, layerWeights] of Object.entries(profile.weights)) {
+      if (key === 'alpha') continue;
+      const weights = Object.values(layerWeights as Record<string, number>);
       const sum = weights.reduce((s, w) => s + w, 0);
       if (Math.abs(sum - 1.0) > 0.01) return false;
     }
@@ -0,0 +1,104 @@
+/**
+ * Session Validator for CLST
+ * Quality checks run once the layer metrics are computed, so sessions the
+ * participant wasn't really doing (window lost focus, mouse gone, a layer
+ * without responses, a stalling machine) are flagged instead of going
+ * straight into the baselines.
+ *
+ * - Limits come from SessionConfig.validityRules (DEFAULT_VALIDITY_RULES
+ *   when absent)
+ * - Per layer: focus / visibility losses, pointer-lock losses (tracking
+ *   layers), response count, anticipation ratio; per session: system
+ *   stalls, dropped events
+ * - Every flag costs RULE_PENALTIES[rule] points off 100; a session scoring
+ *   below minValidityScore is saved as 'invalid'
+ */
+
+import type {
+  LayerDefinition, RawEvent, TrialRecord, SessionConfig, SessionValidity,
+  ValidityFlag, ValidityRule, ValidityRules
+} from '@/types';
+import { MetricsCalculator } from './metricsCalculator';
+import { ProtocolManager } from './protocol';
+
+export const DEFAULT_VALIDITY_RULES: ValidityRules = {
+  maxFocusLosses: 0,
+  maxPointerLockLosses: 0,
+  minResponsesPerLayer: 3,
+  maxAnticipationRatio: 0.2,
+  maxSystemStalls: 10,
+  maxDroppedEvents: 0,
+  minValidityScore: 50
+};
+
+/** Score points a flag costs: one flag alone never invalidates, except a layer without responses */
+const RULE_PENALTIES: Record<ValidityRule, number> = {
+  focus_loss: 30,
+  pointer_lock_loss: 20,
+  low_responses: 60,
+  anticipations: 30,
+  system_stalls: 20,
+  dropped_events: 20
+};
+
+export class SessionValidator {
+  /** The configured rules, missing limits filled from the defaults */
+  static rulesFor(config: SessionConfig): ValidityRules {
+    return { ...DEFAULT_VALIDITY_RULES, ...config.validityRules };
+  }
+
+  static validate(
+    layers: LayerDefinition[],
+    events: RawEvent[],
+    trials: TrialRecord[],
+    session: { systemStalls: number; droppedEvents: number },
+    rules: ValidityRules = DEFAULT_VALIDITY_RULES
+  ): SessionValidity {
+    const flags: ValidityFlag[] = [];
+    const flag = (rule: ValidityRule, layer: number | null, value: number, limit: number, message: string) =>
+      flags.push({ rule, layer, value, limit, message });
+
+    for (const layer of layers) {
+      const layerEvents = events.filter(e => e.layer === layer.id);
+      const focusLosses = layerEvents.filter(e => e.eventType === 'focus_change' && e.data.focused === false).length;
+      if (focusLosses > rules.maxFocusLosses) {
+        flag('focus_loss', layer.id, focusLosses, rules.maxFocusLosses, `Window lost focus ${focusLosses}× during L${layer.id}`);
+      }
+      if (ProtocolManager.hasComponent(layer, 'tracking')) {
+        const lockLosses = layerEvents.filter(e => e.eventType === 'pointer_lock_change' && e.data.locked === false).length;
+        if (lockLosses > rules.maxPointerLockLosses) {
+          flag('pointer_lock_loss', layer.id, lockLosses, rules.maxPointerLockLosses, `Pointer lock lost ${lockLosses}× during L${layer.id}`);
+        }
+      }
+
+      // Layers without stimuli (tracking only) have no responses to count
+      const layerTrials = trials.filter(t => t.layer === layer.id && !t.excluded);
+      if (layerTrials.length === 0) continue;
+      const responses = layerTrials.filter(t => t.responseUs !== null);
+      if (responses.length < rules.minResponsesPerLayer) {
+        flag('low_responses', layer.id, responses.length, rules.minResponsesPerLayer, `Only ${responses.length} responses in L${layer.id}`);
+        continue;
+      }
+      const anticipations = responses.filter(t =>
+        t.outcome === 'false_start' || (t.rtMs !== null && t.rtMs < MetricsCalculator.RT_MIN_MS)).length;
+      const ratio = anticipations / responses.length;
+      if (ratio > rules.maxAnticipationRatio) {
+        flag('anticipations', layer.id, ratio, rules.maxAnticipationRatio, `${(ratio * 100).toFixed(0)}% anticipations in L${layer.id}`);
+      }
+    }
+
+    if (session.systemStalls > rules.maxSystemStalls) {
+      flag('system_stalls', null, session.systemStalls, rules.maxSystemStalls, `${session.systemStalls} system stalls`);
+    }
+    if (session.droppedEvents > rules.maxDroppedEvents) {
+      flag('dropped_events', null, session.droppedEvents, rules.maxDroppedEvents, `${session.droppedEvents} dropped events`);
+    }
+
+    const score = Math.max(0, 100 - flags.reduce((sum, f) => sum + RULE_PENALTIES[f.rule], 0));
+    return { score, flags };
+  }
+
+  static isValid(validity: SessionValidity, rules: ValidityRules = DEFAULT_VALIDITY_RULES): boolean {
+    return validity.score >= rules.minValidityScore;
+  }
+}
@@ -0,0 +1,627 @@
+/**
+ * Synthetic Participant Simulator for CLST
+ * Runs complete sessions headless: a TestEngine on a VirtualClock is driven
+ * through handleClick / handleKeyPress / handleCursorPosition by a
+ * configurable human model, and the recorded events go through the same
+ * MetricsCalculator → ScoringEngine path as a live session.
+ *
+ * Uses:
+ * - Validate the pipeline end to end: a known degradation of the model
+ *   (slower RT, noisier tracking, more misses) should move LPI / DC / CRS
+ *   in the expected direction — see validateDegradation()
+ * - Generate months of plausible history for dashboard work — see runHistory()
+ *
+ * No database access here; callers persist results if they want to.
+ * Rolling baselines are kept in memory with the same semantics as
+ * DatabaseManager.updateRollingBaseline (first 5 sessions are calibration and
+ * unscored, window of the 20 most recent post-calibration sessions).
+ */
+
+import type {
+  SessionConfig, ProtocolDefinition, WeightProfile, Session, LayerMetrics, RawEvent,
+  BaselineStats, StimulusState, AudioResponseMode, TrialRecord, MetricValue
+} from '@/types';
+import { TestEngine, type EngineClock } from './testEngine';
+import { MetricsCalculator } from './metricsCalculator';
+import { ScoringEngine } from './scoringEngine';
+import { MetricRegistry } from './metricRegistry';
+import {
+  ProtocolManager, AUDIO_RESPONSE_KEYS, NBACK_MATCH_KEY, DEFAULT_NBACK, PVT_RESPONSE_KEY
+} from './protocol';
+import { SeededRandom } from './random';
+
+// =============================================================================
+// PARTICIPANT MODEL
+// =============================================================================
+
+export interface ParticipantModel {
+  /** Simple RT as ex-Gaussian: normal(mu, sigma) + exponential(tau), ms */
+  rtMu: number;
+  rtSigma: number;
+  rtTau: number;
+  /** Probability that a simple-RT trial turns into a lapse (> 1500 ms; > 500 ms on the PVT) */
+  lapseRate: number;
+  /** PVT: probability of an anticipatory SPACE press in the interval after a response */
+  falseStartRate: number;
+  /** Go/No-Go: probability of clicking a no-go / missing a go stimulus */
+  commissionRate: number;
+  omissionRate: number;
+  /** Extra latency of choice responses (audio, peripheral digit) over simple RT, ms */
+  choiceCostMs: number;
+  /** Visuomotor lag of the cursor behind the target, ms */
+  trackingLagMs: number;
+  /** Amplitude of the (smooth) cursor wander around the lagged target, px */
+  trackingNoisePx: number;
+  audioMissRate: number;
+  audioFalseAlarmRate: number;
+  /** Discrimination mode: probability of pressing the other tone's key */
+  audioWrongKeyRate: number;
+  peripheralMissRate: number;
+  /** N-back: probability of pressing R on a match / on a non-match */
+  nbackHitRate: number;
+  nbackFalseAlarmRate: number;
+  /** Mean delay before pressing F once the cooldown is ready, ms */
+  cooldownDelayMs: number;
+  /** Slowdown per concurrently active component beyond the first (0.1 = +10 % each) */
+  loadCost: number;
+  /** Slowdown per minute of time on task */
+  fatiguePerMinute: number;
+  /** Tracking noise multiplier while recovering from a secondary-task response */
+  responseDisruption: number;
+  responseDisruptionMs: number;
+}
+
+/** Healthy, well-practised participant */
+export const DEFAULT_PARTICIPANT: ParticipantModel = {
+  rtMu: 260,
+  rtSigma: 30,
+  rtTau: 40,
+  lapseRate: 0.01,
+  falseStartRate: 0.02,
+  commissionRate: 0.1,
+  omissionRate: 0.02,
+  choiceCostMs: 180,
+  trackingLagMs: 120,
+  trackingNoisePx: 14,
+  audioMissRate: 0.05,
+  audioFalseAlarmRate: 0.08,
+  audioWrongKeyRate: 0.06,
+  peripheralMissRate: 0.08,
+  nbackHitRate: 0.85,
+  nbackFalseAlarmRate: 0.06,
+  cooldownDelayMs: 600,
+  loadCost: 0.08,
+  fatiguePerMinute: 0.005,
+  responseDisruption: 2,
+  responseDisruptionMs: 400
+};
+
+// =============================================================================
+// VIRTUAL CLOCK
+// =============================================================================
+
+/**
+ * EngineClock that only advances when ticked. Each tick moves to the next
+ * frame boundary; timers scheduled with at() fire in order at their own
+ * (sub-frame) time before the frame callbacks run, like input events
+ * arriving between two animation frames.
+ */
+export class VirtualClock implements EngineClock {
+  private time: number;
+  private readonly frameMs: number;
+  private nextId = 1;
+  private frames = new Map<number, (timestamp: number) => void>();
+  private timers: { time: number; seq: number; fn: () => void }[] = [];
+  private timerSeq = 0;
+
+  constructor(refreshRate: number = 60, startTime: number = 0) {
+    this.frameMs = 1000 / refreshRate;
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: (timestamp: number) => void): number {
+    const id = this.nextId++;
+    this.frames.set(id, callback);
+    return id;
+  }
+
+  cancelFrame(id: number): void {
+    this.frames.delete(id);
+  }
+
+  /** Run `fn` at virtual time `time` (or on the next tick if that is already past) */
+  at(time: number, fn: () => void): void {
+    this.timers.push({ time: Math.max(time, this.time), seq: this.timerSeq++, fn });
+    this.timers.sort((a, b) => a.time - b.time || a.seq - b.seq);
+  }
+
+  /** Advance to the next frame boundary */
+  tick(): void {
+    const frameTime = this.time + this.frameMs;
+    while (this.timers.length > 0 && this.timers[0].time <= frameTime) {
+      const timer = this.timers.shift()!;
+      this.time = timer.time;
+      timer.fn();
+    }
+    this.time = frameTime;
+
+    const due = [...this.frames.entries()];
+    this.frames.clear();
+    for (const [, cb] of due) cb(frameTime);
+  }
+}
+
+// =============================================================================
+// SIMULATED PARTICIPANT
+// =============================================================================
+
+/** Reacts to the engine's stimulus stream and feeds input back (module-private) */
+class SimulatedParticipant {
+  private static readonly TARGET_HISTORY_MS = 1000;
+  private static readonly WANDER_TIME_CONSTANT_S = 0.3;
+
+  private targetHistory: { t: number; x: number; y: number }[] = [];
+  private wander = { x: 0, y: 0 };
+  private lastFrameTime: number;
+  private disruptedUntil = 0;
+  private lastSimpleOnset: number | null = null;
+  private lastGoNoGoOnset: number | null = null;
+  private lastAudioOnset: number | null = null;
+  private lastFlashOnset: number | null = null;
+  private lastCooldownReady: number | null = null;
+  private lastNBackOnset: number | null = null;
+  private lastPvtOnset: number | null = null;
+  private nbackSeen: number[] = [];
+
+  constructor(
+    private engine: TestEngine,
+    private clock: VirtualClock,
+    private model: ParticipantModel,
+    private rng: SeededRandom,
+    private startTime: number,
+    private audioMode: AudioResponseMode | undefined
+  ) {
+    this.lastFrameTime = startTime;
+  }
+
+  onStimulusUpdate(s: StimulusState): void {
+    const now = this.clock.now();
+    const slow = this.slowdown(now);
+
+    if (s.target) {
+      this.targetHistory.push({ t: now, x: s.target.x, y: s.target.y });
+      while (this.targetHistory.length > 1 && this.targetHistory[0].t < now - SimulatedParticipant.TARGET_HISTORY_MS) {
+        this.targetHistory.shift();
+      }
+    }
+
+    if (s.simpleStimulus && s.simpleStimulus.onsetTime !== this.lastSimpleOnset) {
+      const { x, y, onsetTime } = s.simpleStimulus;
+      this.lastSimpleOnset = onsetTime;
+      const rt = this.rng.chance(this.model.lapseRate)
+        ? this.rng.range(1550, 2500)
+        : Math.max(80, this.exGaussian() * slow);
+      this.clock.at(onsetTime + rt, () => this.engine.handleClick(x, y));
+    }
+
+    if (s.goNoGoStimulus && s.goNoGoStimulus.onsetTime !== this.lastGoNoGoOnset) {
+      const { kind, x, y, onsetTime } = s.goNoGoStimulus;
+      this.lastGoNoGoOnset = onsetTime;
+      const respond = kind === 'go'
+        ? !this.rng.chance(this.model.omissionRate * slow)
+        : this.rng.chance(this.model.commissionRate * slow);
+      // Commission errors are the fast, prepotent responses
+      const rt = Math.max(80, this.exGaussian() * slow * (kind === 'go' ? 1 : 0.85));
+      if (respond) this.clock.at(onsetTime + rt, () => this.engine.handleClick(x, y));
+    }
+
+    if (s.lastAudioCue && s.lastAudioCue.onsetTime !== this.lastAudioOnset) {
+      const { tone, onsetTime } = s.lastAudioCue;
+      this.lastAudioOnset = onsetTime;
+      const respond = tone === 'distractor'
+        ? this.rng.chance(this.model.audioFalseAlarmRate * slow)
+        : !this.rng.chance(this.model.audioMissRate * slow);
+      if (respond) this.pressAfter(onsetTime, this.toneKey(tone), (this.exGaussian() + this.model.choiceCostMs) * slow);
+    }
+
+    if (s.peripheralFlash && s.peripheralFlash.onsetTime !== this.lastFlashOnset) {
+      const { digit, onsetTime } = s.peripheralFlash;
+      this.lastFlashOnset = onsetTime;
+      if (!this.rng.chance(this.model.peripheralMissRate * slow)) {
+        this.pressAfter(onsetTime, String(digit), (this.exGaussian() + this.model.choiceCostMs) * slow);
+      }
+    }
+
+    if (s.nbackStimulus && s.nbackStimulus.onsetTime !== this.lastNBackOnset) {
+      const { item, onsetTime } = s.nbackStimulus;
+      this.lastNBackOnset = onsetTime;
+      // The participant compares against its own memory of the stream, not the event's isTarget
+      const n = this.engine.getLayerDefinition()?.nback?.n ?? DEFAULT_NBACK.n;
+      const isMatch = this.nbackSeen.length >= n && this.nbackSeen[this.nbackSeen.length - n] === item;
+      this.nbackSeen.push(item);
+      const respond = isMatch
+        ? this.rng.chance(Math.min(1, this.model.nbackHitRate / slow))
+        : this.rng.chance(this.model.nbackFalseAlarmRate * slow);
+      if (respond) this.pressAfter(onsetTime, NBACK_MATCH_KEY, (this.exGaussian() + 2 * this.model.choiceCostMs) * slow);
+    }
+
+    if (s.pvtCounter && s.pvtCounter.onsetTime !== this.lastPvtOnset) {
+      const { onsetTime } = s.pvtCounter;
+      this.lastPvtOnset = onsetTime;
+      const rt = this.rng.chance(this.model.lapseRate * slow)
+        ? this.rng.range(550, 1500)
+        : Math.max(120, this.exGaussian() * slow);
+      this.pressAfter(onsetTime, PVT_RESPONSE_KEY, rt);
+      // Anticipation: a press in the response-to-stimulus interval (always ≥ 2 s)
+      if (this.rng.chance(this.model.falseStartRate * slow)) {
+        this.pressAfter(onsetTime, PVT_RESPONSE_KEY, rt + this.rng.range(1000, 1900));
+      }
+    }
+
+    if (s.cooldownReady && s.cooldownReadyTime !== null && s.cooldownReadyTime !== this.lastCooldownReady) {
+      this.lastCooldownReady = s.cooldownReadyTime;
+      const delay = 150 + this.rng.exponential(1 / Math.max(1, this.model.cooldownDelayMs * slow - 150));
+      this.pressAfter(s.cooldownReadyTime, 'f', delay);
+    }
+  }
+
+  /**
+   * Per-frame cursor: the target as it was trackingLagMs ago plus a smooth
+   * Ornstein–Uhlenbeck wander (white noise per frame would explode jerk).
+   */
+  onFrame(): void {
+    const now = this.clock.now();
+    const dt = (now - this.lastFrameTime) / 1000;
+    this.lastFrameTime = now;
+    if (this.targetHistory.length === 0 || dt <= 0) return;
+
+    let amplitude = this.model.trackingNoisePx * this.slowdown(now);
+    if (now < this.disruptedUntil) amplitude *= this.model.responseDisruption;
+    const tc = SimulatedParticipant.WANDER_TIME_CONSTANT_S;
+    const diffusion = amplitude * Math.sqrt(2 * dt / tc);
+    this.wander.x += -this.wander.x * dt / tc + this.rng.normal(0, diffusion);
+    this.wander.y += -this.wander.y * dt / tc + this.rng.normal(0, diffusion);
+
+    const lagged = this.targetAt(now - this.model.trackingLagMs * this.slowdown(now));
+    this.engine.handleCursorPosition(lagged.x + this.wander.x, lagged.y + this.wander.y);
+  }
+
+  /** Forget the previous layer's target path and n-back stream (break between layers) */
+  resetTracking(): void {
+    this.targetHistory = [];
+    this.wander = { x: 0, y: 0 };
+    this.nbackSeen = [];
+  }
+
+  /** Key pressed for a tone: SPACE in detection mode, the (possibly wrong) tone key otherwise */
+  private toneKey(tone: 'high' | 'low' | 'distractor'): string {
+    if (this.audioMode !== 'discrimination') return AUDIO_RESPONSE_KEYS.detection;
+    // Responding to a distractor in discrimination mode: either key, at random
+    const heard = tone === 'distractor' ? (this.rng.chance(0.5) ? 'high' : 'low') : tone;
+    const wrong = this.rng.chance(this.model.audioWrongKeyRate * this.slowdown(this.clock.now()));
+    return AUDIO_RESPONSE_KEYS[wrong ? (heard === 'high' ? 'low' : 'high') : heard];
+  }
+
+  private pressAfter(onsetTime: number, key: string, delayMs: number): void {
+    this.clock.at(onsetTime + delayMs, () => {
+      this.engine.handleKeyPress(key);
+      this.disruptedUntil = this.clock.now() + this.model.responseDisruptionMs;
+    });
+  }
+
+  private targetAt(t: number): { x: number; y: number } {
+    const h = this.targetHistory;
+    for (let i = h.length - 1; i >= 0; i--) {
+      if (h[i].t <= t) return h[i];
+    }
+    return h[0];
+  }
+
+  /** Combined load × fatigue slowdown at time `t` */
+  private slowdown(t: number): number {
+    const components = this.engine.getLayerDefinition()?.components.length ?? 1;
+    const minutes = (t - this.startTime) / 60000;
+    return (1 + this.model.loadCost * Math.max(0, components - 1)) *
+      (1 + this.model.fatiguePerMinute * minutes);
+  }
+
+  private exGaussian(): number {
+    return this.rng.normal(this.model.rtMu, this.model.rtSigma) +
+      this.rng.exponential(1 / this.model.rtTau);
+  }
+}
+
+// =============================================================================
+// SESSION SIMULATOR
+// =============================================================================
+
+export interface SimulatorOptions {
+  /** Session config; a fixed config.seed replays the same stimulus schedule every session */
+  config: SessionConfig;
+  protocol?: ProtocolDefinition;
+  weightProfile?: WeightProfile;
+  /** Root seed for participant noise and per-session stimulus seeds */
+  seed?: number;
+  /** Inter-layer break including the ready click, ms */
+  interLayerBreakMs?: number;
+  /** Keep raw events on the results (large — off for long histories) */
+  keepEvents?: boolean;
+}
+
+export interface SimulatedSession {
+  session: Session;
+  layerMetrics: LayerMetrics[];
+  metricValues: MetricValue[];
+  /** Empty unless SimulatorOptions.keepEvents is set */
+  events: RawEvent[];
+  trials: TrialRecord[];
+  alert: 'critical' | 'warning' | null;
+}
+
+export interface ScoreSummary {
+  sessions: number;
+  lpis: Record<number, number | null>;
+  dc: number | null;
+  crs: number | null;
+}
+
+export interface DegradationReport {
+  baseline: ScoreSummary;
+  degraded: ScoreSummary;
+  /** degraded − baseline (negative = worse for LPI / CRS / DC) */
+  delta: ScoreSummary;
+}
+
+export class SessionSimulator {
+  private static readonly WINDOW_SIZE = 20;
+  private static readonly SECONDS_PER_DAY = 86400;
+
+  private options: SimulatorOptions;
+  private protocol: ProtocolDefinition;
+  private weightProfile: WeightProfile;
+  private rng: SeededRandom;
+  private sessionIndex = 0;
+  /** Rolling post-calibration values per `${metric}_L${layer}` */
+  private history = new Map<string, number[]>();
+
+  constructor(options: SimulatorOptions) {
+    this.options = options;
+    this.protocol = ProtocolManager.withNBack(ProtocolManager.withAudioResponseMode(
+      options.protocol ?? ProtocolManager.resolve(options.config.protocolId), options.config.audioResponseMode
+    ), options.config.nback);
+    this.weightProfile = options.weightProfile ?? ScoringEngine.getDefaultWeightProfile();
+    this.rng = new SeededRandom(options.seed ?? SeededRandom.randomSeed());
+  }
+
+  /** Degrade a model by `severity` (0 = unchanged, 1 = markedly impaired) */
+  static degrade(model: ParticipantModel, severity: number): ParticipantModel {
+    const k = 1 + severity;
+    return {
+      ...model,
+      rtMu: model.rtMu * (1 + 0.3 * severity),
+      rtSigma: model.rtSigma * k,
+      rtTau: model.rtTau * (1 + 2 * severity),
+      lapseRate: Math.min(1, model.lapseRate * (1 + 5 * severity)),
+      falseStartRate: Math.min(1, model.falseStartRate * (1 + 3 * severity)),
+      commissionRate: Math.min(1, model.commissionRate * (1 + 3 * severity)),
+      omissionRate: Math.min(1, model.omissionRate * (1 + 3 * severity)),
+      choiceCostMs: model.choiceCostMs * k,
+      trackingLagMs: model.trackingLagMs * (1 + 0.5 * severity),
+      trackingNoisePx: model.trackingNoisePx * k,
+      audioMissRate: Math.min(1, model.audioMissRate * (1 + 3 * severity)),
+      audioFalseAlarmRate: Math.min(1, model.audioFalseAlarmRate * k),
+      audioWrongKeyRate: Math.min(0.5, model.audioWrongKeyRate * (1 + 3 * severity)),
+      peripheralMissRate: Math.min(1, model.peripheralMissRate * (1 + 3 * severity)),
+      nbackHitRate: model.nbackHitRate / (1 + 0.5 * severity),
+      nbackFalseAlarmRate: Math.min(1, model.nbackFalseAlarmRate * (1 + 2 * severity)),
+      cooldownDelayMs: model.cooldownDelayMs * k,
+      loadCost: model.loadCost * (1 + 2 * severity),
+      fatiguePerMinute: model.fatiguePerMinute * (1 + 2 * severity)
+    };
+  }
+
+  /** Copy with the same baseline history and seed stream position (for paired comparisons) */
+  fork(): SessionSimulator {
+    const copy = new SessionSimulator({ ...this.options, seed: this.rng.getSeed() });
+    copy.sessionIndex = this.sessionIndex;
+    copy.history = new Map([...this.history].map(([k, v]) => [k, [...v]]));
+    return copy;
+  }
+
+  /** Run one full session with `model` and score it against the rolling history */
+  async runSession(model: ParticipantModel, timestamp: Date = new Date()): Promise<SimulatedSession> {
+    const index = this.sessionIndex++;
+    // Per-session streams derived from the root seed: forks replay identical noise
+    const participantRng = this.rng.derive(index * 2);
+    const config: SessionConfig = {
+      ...this.options.config,
+      seed: this.options.config.seed ?? this.rng.derive(index * 2 + 1).getSeed()
+    };
+    const sessionId = `sim-${timestamp.getTime().toString(36)}-${index}`;
+
+    const clock = new VirtualClock(config.monitorRefreshRate);
+    const engine = new TestEngine(sessionId, config, this.protocol, clock);
+    const participant = new SimulatedParticipant(
+      engine, clock, model, participantRng, clock.now(), config.audioResponseMode
+    );
+    const breakMs = this.options.interLayerBreakMs ?? 7000;
+
+    let done = false;
+    engine.setCallbacks({
+      onStimulusUpdate: s => participant.onStimulusUpdate(s),
+      onLayerComplete: () => {
+        participant.resetTracking();
+        clock.at(clock.now() + breakMs, () => engine.advanceToNextLayer());
+      },
+      onTestComplete: () => { done = true; },
+      onAbort: () => { done = true; }
+    });
+    await engine.start();
+
+    const maxFrames = (ProtocolManager.totalDurationSeconds(this.protocol) * 1000 +
+      this.protocol.layers.length * breakMs) / 1000 * config.monitorRefreshRate * 2;
+    for (let frame = 0; !done; frame++) {
+      if (frame > maxFrames) throw new Error(`Simulated session ${sessionId} did not complete`);
+      clock.tick();
+      participant.onFrame();
+    }
+
+    const events = engine.getEvents();
+    const { trials, layerMetrics, metricValues } =
+      MetricsCalculator.computeSession(sessionId, this.protocol.layers, events, config.monitorRefreshRate);
+
+    const isCalibrating = ScoringEngine.isCalibrationSession(index);
+    const scores = isCalibrating
+      ? null
+      : ScoringEngine.computeSessionScores(metricValues, this.getBaselines(), this.weightProfile, this.protocol);
+    if (!isCalibrating) this.recordHistory(metricValues);
+
+    const session: Session = {
+      id: sessionId,
+      timestamp,
+      sessionType: ProtocolManager.sessionType(this.protocol),
+      configSnapshot: { ...config, seed: engine.getSeed(), protocolId: this.protocol.id },
+      protocol: this.protocol,
+      lpis: scores?.lpis ?? Object.fromEntries(this.protocol.layers.map(l => [l.id, null])),
+      lpi0: scores?.lpi0 ?? null, lpi1: scores?.lpi1 ?? null, lpi2: scores?.lpi2 ?? null, lpi3: scores?.lpi3 ?? null,
+      degradationCoeff: scores?.dc ?? null,
+      crs: scores?.crs ?? null,
+      notes: null,
+      tags: ['simulated'],
+      checkinId: null,
+      profileId: this.weightProfile.id,
+      systemStalls: engine.getSystemStallCount(),
+      droppedEvents: engine.getDroppedEventCount(),
+      status: 'completed',
+      abort: null,
+      validity: null,
+      pipelineVersion: MetricsCalculator.PIPELINE_VERSION,
+      inputLag: MetricsCalculator.inputLag(events),
+      onsetJitter: MetricsCalculator.onsetJitter(events)
+    };
+
+    return {
+      session,
+      layerMetrics,
+      metricValues,
+      events: this.options.keepEvents ? events : [],
+      trials,
+      alert: scores?.alert ?? null
+    };
+  }
+
+  /**
+   * Simulate a run of daily sessions. `modelAt(i)` returns the participant for
+   * session i (e.g. a bad week in the middle); `onSession` lets callers persist
+   * each result as it is produced instead of holding all of them.
+   */
+  async runHistory(params: {
+    sessions: number;
+    modelAt?: (index: number) => ParticipantModel;
+    startDate?: Date;
+    intervalDays?: number;
+    onSession?: (result: SimulatedSession, index: number) => void | Promise<void>;
+  }): Promise<SimulatedSession[]> {
+    const interval = (params.intervalDays ?? 1) * SessionSimulator.SECONDS_PER_DAY * 1000;
+    const start = params.startDate ?? new Date(Date.now() - params.sessions * interval);
+    const jitter = this.rng.derive(0x7fffffff);
+    const results: SimulatedSession[] = [];
+
+    for (let i = 0; i < params.sessions; i++) {
+      const model = params.modelAt?.(i) ?? DEFAULT_PARTICIPANT;
+      // Time of day varies by up to ±2 h
+      const timestamp = new Date(start.getTime() + i * interval + jitter.range(-2, 2) * 3600000);
+      const result = await this.runSession(model, timestamp);
+      if (params.onSession) await params.onSession(result, i);
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Build a baseline with `baselineSessions` sessions of `base`, then run
+   * `probeSessions` of `base` and of `degraded` from the same state with the
+   * same noise streams. A working pipeline shows lower LPIs and CRS for the
+   * degraded run.
+   */
+  static async validateDegradation(
+    options: SimulatorOptions,
+    base: ParticipantModel,
+    degraded: ParticipantModel,
+    baselineSessions: number = 20,
+    probeSessions: number = 5
+  ): Promise<DegradationReport> {
+    const sim = new SessionSimulator(options);
+    await sim.runHistory({ sessions: baselineSessions, modelAt: () => base });
+
+    const control = await sim.fork().runHistory({ sessions: probeSessions, modelAt: () => base });
+    const impaired = await sim.fork().runHistory({ sessions: probeSessions, modelAt: () => degraded });
+
+    const baseline = SessionSimulator.summarize(control);
+    const degradedSummary = SessionSimulator.summarize(impaired);
+    const diff = (a: number | null, b: number | null) => (a !== null && b !== null ? b - a : null);
+    const lpis: Record<number, number | null> = {};
+    for (const id of Object.keys(baseline.lpis).map(Number)) {
+      lpis[id] = diff(baseline.lpis[id], degradedSummary.lpis[id]);
+    }
+
+    return {
+      baseline,
+      degraded: degradedSummary,
+      delta: {
+        sessions: probeSessions,
+        lpis,
+        dc: diff(baseline.dc, degradedSummary.dc),
+        crs: diff(baseline.crs, degradedSummary.crs)
+      }
+    };
+  }
+
+  /** Mean LPI per layer, DC and CRS over scored sessions */
+  static summarize(results: SimulatedSession[]): ScoreSummary {
+    const mean = (values: (number | null)[]): number | null => {
+      const v = values.filter((x): x is number => x !== null);
+      return v.length > 0 ? v.reduce((s, x) => s + x, 0) / v.length : null;
+    };
+    const lpis: Record<number, number | null> = {};
+    const layers = results[0]?.session.protocol.layers ?? [];
+    for (const l of layers) lpis[l.id] = mean(results.map(r => r.session.lpis[l.id] ?? null));
+
+    return {
+      sessions: results.length,
+      lpis,
+      dc: mean(results.map(r => r.session.degradationCoeff)),
+      crs: mean(results.map(r => r.session.crs))
+    };
+  }
+
+  // =========================================================================
+  // IN-MEMORY ROLLING BASELINES
+  // =========================================================================
+
+  private getBaselines(): Map<string, BaselineStats> {
+    const baselines = new Map<string, BaselineStats>();
+    for (const [key, values] of this.history) {
+      if (values.length > 0) baselines.set(key, ScoringEngine.computeStatsFromValues(values));
+    }
+    return baselines;
+  }
+
+  private recordHistory(metricValues: MetricValue[]): void {
+    for (const layer of this.protocol.layers) {
+      const values = MetricRegistry.byName(metricValues, layer.id);
+      for (const name of ScoringEngine.getMetricNames(layer)) {
+        const value = values[name];
+        if (value === undefined) continue;
+        const key = `${name}_L${layer.id}`;
+        this.history.set(key, ScoringEngine.updateRollingWindow(
+          this.history.get(key) ?? [], value, SessionSimulator.WINDOW_SIZE
+        ));
+      }
+    }
+  }
+}
@@ -8,6 +8,8 @@
  * Uses robust statistics (median/MAD) instead of mean/SD to resist outliers.
  */
 
+import type { ExGaussianFit } from '@/types';
+
 export class Statistics {
 
   // ===========================================================================
@@ -33,6 +35,15 @@ export class Statistics {
     return { q1, q3, iqr: q3 - q1 };
   }
 
+  /** p-quantile with linear interpolation between order statistics */
+  static quantile(values: number[], p: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const h = (sorted.length - 1) * Math.max(0, Math.min(1, p));
+    const lo = Math.floor(h);
+    return sorted[lo] + (h - lo) * ((sorted[Math.ceil(h)] ?? sorted[lo]) - sorted[lo]);
+  }
+
   /** MAD scaled by 1.4826 to approximate SD for normal distributions */
   static mad(values: number[]): number {
     if (values.length === 0) return 0;
@@ -90,6 +101,27 @@ export class Statistics {
     );
   }
 
+  /** Inverse normal CDF (Acklam's rational approximation, |error| < 1.2e-9) */
+  static normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+    const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+    const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+    const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+    const pLow = 0.02425;
+
+    if (p < pLow || p > 1 - pLow) {
+      const q = Math.sqrt(-2 * Math.log(p < pLow ? p : 1 - p));
+      const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+      return p < pLow ? x : -x;
+    }
+    const q = p - 0.5, r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
   // ===========================================================================
   // SECTION 10.5: CORRELATION ANALYSIS
   // ===========================================================================
@@ -174,6 +206,22 @@ export class Statistics {
     return { slope, intercept };
   }
 
+  /** Ordinary least squares fit y = intercept + slope·x (deterministic, for per-session trends) */
+  static linearRegression(x: number[], y: number[]): { slope: number; intercept: number } {
+    const n = Math.min(x.length, y.length);
+    if (n < 2) return { slope: 0, intercept: n === 1 ? y[0] : 0 };
+    let mx = 0, my = 0;
+    for (let i = 0; i < n; i++) { mx += x[i]; my += y[i]; }
+    mx /= n; my /= n;
+    let sxy = 0, sxx = 0;
+    for (let i = 0; i < n; i++) {
+      sxy += (x[i] - mx) * (y[i] - my);
+      sxx += (x[i] - mx) ** 2;
+    }
+    const slope = sxx === 0 ? 0 : sxy / sxx;
+    return { slope, intercept: my - slope * mx };
+  }
+
   static kendallTau(
     indices: number[],
     values: number[]
@@ -273,6 +321,139 @@ export class Statistics {
     return { skewness, kurtosis };
   }
 
+  // ===========================================================================
+  // EX-GAUSSIAN (RT distributions)
+  // ===========================================================================
+
+  /**
+   * Maximum-likelihood ex-Gaussian fit: Normal(mu, sigma) + Exponential(tau).
+   * Nelder–Mead on (mu, log sigma, log tau) from method-of-moments starting
+   * values. ksD is the Kolmogorov–Smirnov distance between the fitted and
+   * empirical CDFs. Null with fewer than 3 values or no spread.
+   */
+  static exGaussianFit(values: number[]): ExGaussianFit | null {
+    const n = values.length;
+    if (n < 3) return null;
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / (n - 1));
+    if (!(sd > 0)) return null;
+
+    // Moments: skew γ = 2τ³ / s³, clamped to where σ stays positive
+    const g = this.clamp(this.shapeStatistics(values).skewness, 0.1, 1.9) / 2;
+    const tau0 = sd * Math.cbrt(g);
+    const sigma0 = sd * Math.sqrt(1 - Math.cbrt(g) ** 2);
+    const nll = ([mu, logSigma, logTau]: number[]) => {
+      const sigma = Math.exp(logSigma), tau = Math.exp(logTau);
+      let ll = 0;
+      for (const x of values) ll += this.exGaussianLogPdf(x, mu, sigma, tau);
+      return Number.isFinite(ll) ? -ll : Infinity;
+    };
+    const [mu, logSigma, logTau] = this.nelderMead(
+      nll, [mean - tau0, Math.log(sigma0), Math.log(tau0)], [sd * 0.2, 0.3, 0.3]
+    );
+    const sigma = Math.exp(logSigma), tau = Math.exp(logTau);
+    const logLikelihood = -nll([mu, logSigma, logTau]);
+    if (!Number.isFinite(logLikelihood)) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    let ksD = 0;
+    sorted.forEach((x, i) => {
+      const F = this.exGaussianCDF(x, mu, sigma, tau);
+      ksD = Math.max(ksD, (i + 1) / n - F, F - i / n);
+    });
+    return { mu, sigma, tau, logLikelihood, ksD, n };
+  }
+
+  static exGaussianLogPdf(x: number, mu: number, sigma: number, tau: number): number {
+    return -Math.log(tau) + (mu - x) / tau + sigma * sigma / (2 * tau * tau) +
+      this.logNormalCDF((x - mu) / sigma - sigma / tau);
+  }
+
+  static exGaussianCDF(x: number, mu: number, sigma: number, tau: number): number {
+    const u = (x - mu) / sigma;
+    return this.normalCDF(u) -
+      Math.exp(-(x - mu) / tau + sigma * sigma / (2 * tau * tau) + this.logNormalCDF(u - sigma / tau));
+  }
+
+  /** log Φ(z), with the asymptotic series in the far left tail where Φ underflows */
+  private static logNormalCDF(z: number): number {
+    if (z > -5) return Math.log(this.normalCDF(z));
+    const z2 = z * z;
+    return -z2 / 2 - Math.log(-z) - 0.5 * Math.log(2 * Math.PI) +
+      Math.log(1 - 1 / z2 + 3 / (z2 * z2) - 15 / (z2 * z2 * z2));
+  }
+
+  /** Nelder–Mead simplex minimisation (standard coefficients); returns the best point */
+  private static nelderMead(f: (p: number[]) => number, start: number[], step: number[], maxIter = 1000, tol = 1e-10): number[] {
+    const n = start.length;
+    const point = (p: number[]) => ({ p, v: f(p) });
+    let simplex = [start, ...step.map((s, i) => start.map((v, j) => j === i ? v + s : v))].map(point);
+
+    for (let iter = 0; iter < maxIter; iter++) {
+      simplex.sort((a, b) => a.v - b.v);
+      const best = simplex[0], worst = simplex[n];
+      if (Math.abs(worst.v - best.v) <= tol * (Math.abs(best.v) + tol)) break;
+
+      const centroid = start.map((_, j) => simplex.slice(0, n).reduce((s, x) => s + x.p[j], 0) / n);
+      const along = (t: number) => centroid.map((c, j) => c + t * (worst.p[j] - c));
+      const reflected = point(along(-1));
+      if (reflected.v < best.v) {
+        const expanded = point(along(-2));
+        simplex[n] = expanded.v < reflected.v ? expanded : reflected;
+      } else if (reflected.v < simplex[n - 1].v) {
+        simplex[n] = reflected;
+      } else {
+        // Contract outside (towards the reflection) or inside; shrink if neither helps
+        const contracted = point(along(reflected.v < worst.v ? -0.5 : 0.5));
+        if (contracted.v < Math.min(reflected.v, worst.v)) simplex[n] = contracted;
+        else simplex = simplex.map((x, i) => i === 0 ? x : point(x.p.map((v, j) => best.p[j] + 0.5 * (v - best.p[j]))));
+      }
+    }
+    return simplex.sort((a, b) => a.v - b.v)[0].p;
+  }
+
+  // ===========================================================================
+  // SPECTRAL
+  // ===========================================================================
+
+  /**
+   * In-place iterative radix-2 FFT. Length must be a power of two.
+   * `re` / `im` hold the input on entry and the spectrum on return.
+   */
+  static fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+    if (n !== im.length || (n & (n - 1)) !== 0) throw new Error('FFT length must be a power of two');
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = -2 * Math.PI / size;
+      const wr = Math.cos(angle), wi = Math.sin(angle);
+      for (let start = 0; start < n; start += size) {
+        let cr = 1, ci = 0;
+        for (let k = 0; k < size / 2; k++) {
+          const a = start + k, b = a + size / 2;
+          const tr = re[b] * cr - im[b] * ci;
+          const ti = re[b] * ci + im[b] * cr;
+          re[b] = re[a] - tr; im[b] = im[a] - ti;
+          re[a] += tr; im[a] += ti;
+          const nr = cr * wr - ci * wi;
+          ci = cr * wi + ci * wr;
+          cr = nr;
+        }
+      }
+    }
+  }
+
   // ===========================================================================
   // UTILITY
   // ===========================================================================
@@ -1,11 +1,16 @@
 /**
  * Test Engine for CLST
  * Implements Section 3 (TEST BATTERY DESIGN) with all timing and spacing requirements
- * 
+ *
+ * Runs a ProtocolDefinition's layers on an EngineClock (real or virtual, see
+ * simulator.ts). Every random decision comes from a seeded per-layer PRNG
+ * stream; events go into a chunked EventBuffer flushed to onFlushEvents.
+ *
  * FIXES from code review:
  * - All static properties accessed via TestEngine.X not this.X
  * - Frame-rate independent stimulus scheduling (pre-scheduled times, not per-frame random)
- * - Frame-rate independent target direction changes (probability scaled by deltaTime)
+ * - Frame-rate independent target direction changes (pre-scheduled with
+ *   exponential delays drawn from the seeded target PRNG stream)
  * - Inter-layer transition support with cooldown + ready button
  * - Peripheral flash uses digit (number key) instead of arrow keys per spec
  * - Audio response uses SPACE key per spec  
@@ -13,31 +18,59 @@
  */
 
 import type {
-  RawEvent, SessionConfig, DifficultyParams, TestState, StimulusState, InterLayerInfo
+  RawEvent, SessionConfig, DifficultyParams, TestState, StimulusState, InterLayerInfo, AbortPoint,
+  ProtocolDefinition, LayerDefinition, LayerComponent
 } from '@/types';
+import { SeededRandom, CANONICAL_SEED } from './random';
+import { SumOfSinesTrajectory } from './trajectory';
+import { EventBuffer, type EventSink } from './eventBuffer';
+import {
+  ProtocolManager, AUDIO_RESPONSE_KEYS, NBACK_LETTERS, DEFAULT_NBACK, PVT_RESPONSE_KEY
+} from './protocol';
+
+/** Time source + frame scheduler. Browser default wraps performance.now / rAF. */
+export interface EngineClock {
+  now(): number;
+  requestFrame(callback: (timestamp: number) => void): number;
+  cancelFrame(id: number): void;
+}
+
+export const BROWSER_CLOCK: EngineClock = {
+  now: () => performance.now(),
+  requestFrame: cb => requestAnimationFrame(cb),
+  cancelFrame: id => cancelAnimationFrame(id)
+};
 
 type EventCallback = (event: RawEvent) => void;
 type StateUpdateCallback = (state: TestState) => void;
 type StimulusUpdateCallback = (state: StimulusState) => void;
 type LayerCompleteCallback = (layer: number, info: InterLayerInfo) => void;
 type TestCompleteCallback = () => void;
-type TestAbortCallback = () => void;
+type TestAbortCallback = (point: AbortPoint) => void;
+type LayerSavedCallback = (layer: number) => void;
 
 export class TestEngine {
-  // Layer durations from spec (Section 3)
-  private static readonly LAYER_DURATIONS: Record<number, number> = {
-    0: 30000,
-    1: 45000,
-    2: 45000,
-    3: 60000
-  };
-
   // Timing constants from spec
   private static readonly L0_STIMULUS_INTERVAL: [number, number] = [800, 2000];
+  private static readonly GO_NOGO_GO_PROBABILITY = 0.8;
+  private static readonly GO_NOGO_INTERVAL: [number, number] = [1000, 1800]; // offset → next onset
+  /** Go/No-Go stimulus display time (also used by replay) */
+  static readonly GO_NOGO_DISPLAY_MS = 500;
+  private static readonly NBACK_INTERVAL = 2500;       // fixed onset-to-onset
+  private static readonly NBACK_TARGET_PROBABILITY = 0.3;
+  /** N-back item display time (also used by replay) */
+  static readonly NBACK_DISPLAY_MS = 500;
+  private static readonly NBACK_AUDIO_SPACING = 500;   // audio cue ↔ audio n-back item
+  private static readonly PVT_ISI: [number, number] = [2000, 10000]; // response → next onset
+  private static readonly PVT_TIMEOUT_MS = 30000;
+  /** How long a stopped PVT counter keeps showing the RT (also used by replay) */
+  static readonly PVT_FEEDBACK_MS = 1000;
   private static readonly MIN_AUDIO_INTERVAL = 1500;    // Section 11.4
   private static readonly AUDIO_PERIPHERAL_SPACING = 800; // Section 11.5
   private static readonly COOLDOWN_AUDIO_SPACING = 500;   // Section 11.5
   private static readonly SYSTEM_STALL_MULTIPLIER = 3;
+  private static readonly CURSOR_SAMPLE_RATE = 60;       // Hz, matches MetricsCalculator's canonical rate
+  private static readonly MAX_DISPATCH_LAG_MS = 1000;    // older event.timeStamp = not on our timeline
   private static readonly INTER_LAYER_COOLDOWN_SECONDS = 5;
 
   // Target direction change rate: ~0.5 changes per second, frame-rate independent
@@ -47,9 +80,22 @@ export class TestEngine {
   private config: SessionConfig;
   private difficulty: DifficultyParams;
   private sessionId: string;
-
-  // State
+  private protocol: ProtocolDefinition;
+  private clock: EngineClock;
+
+  // Seeded randomness — root seed plus per-layer streams (re-derived in resetLayerState)
+  // Separate streams keep e.g. the tone sequence independent of how many
+  // steering changes or simple-RT trials happened before it.
+  private rng: SeededRandom;
+  private scheduleRng: SeededRandom;
+  private stimulusRng: SeededRandom;
+  private targetRng: SeededRandom;
+  private nbackRng: SeededRandom;
+
+  // State — layerIndex is the position in protocol.layers, currentLayer its id
+  private layerIndex: number = -1;
   private currentLayer: number = -1;
+  private layerDef: LayerDefinition | null = null;
   private layerStartTime: number = 0;
   private testStartTime: number = 0;
   private isRunning: boolean = false;
@@ -60,18 +106,24 @@ export class TestEngine {
   // Stimulus state
   private stimulusState: StimulusState = {
     simpleStimulus: null,
+    goNoGoStimulus: null,
     target: null,
     lastAudioCue: null,
     cooldownProgress: 0,
     cooldownReady: false,
     cooldownReadyTime: null,
-    peripheralFlash: null
+    peripheralFlash: null,
+    nbackStimulus: null,
+    pvtCounter: null
   };
 
-  // Event collection — pre-allocated (Section 11.3)
-  private events: RawEvent[];
-  private eventIndex: number = 0;
-  private readonly MAX_EVENTS = 50000;
+  // Event collection — pre-allocated chunks (Section 11.3), flushed between layers
+  // and, once half the pool is sealed, during a layer (long layers of 1 kHz input)
+  private events: EventBuffer;
+  private readonly MAX_BUFFERED_EVENTS = 256 * 1024;
+  private readonly FLUSH_HIGH_WATER_CHUNKS = Math.ceil(this.MAX_BUFFERED_EVENTS / EventBuffer.CHUNK_SIZE / 2);
+  // A mid-layer flush is running, or failed (no retry until the layer's own flush)
+  private midLayerFlush = false;
 
   // Timing trackers
   private lastFrameTime: number = 0;
@@ -79,11 +131,27 @@ export class TestEngine {
   private lastPeripheralTime: number = 0;
   private lastCooldownReadyTime: number = 0;
   private nextSimpleStimulusTime: number = 0;
+  private nextGoNoGoTime: number = 0;
   private nextAudioCueTime: number = 0;      // Pre-scheduled (fixes frame-rate bug)
   private nextPeripheralTime: number = 0;     // Pre-scheduled (fixes frame-rate bug)
+  private nextNBackTime: number = 0;
+  private lastNBackAudioTime: number = -Infinity;
+  private nextPvtTime: number = 0;
+  private nbackHistory: number[] = [];
   private systemStallCount: number = 0;
-
-  // Tracking state (Layer 1+)
+  // Last state reported by the renderer; only changes are recorded
+  private windowFocused = true;
+  private pointerLocked: boolean | null = null;
+
+  // Tracking state (tracking component)
+  private targetInitialized = false;
+  private cursorPosition = { x: 0, y: 0 };   // last reported by the renderer
+  private nextCursorSampleTime = 0;
+
+  // Visual onsets awaiting a drawn frame, then awaiting that frame's presentation
+  private pendingOnsets: RawEvent[] = [];
+  private drawnOnsets: RawEvent[] = [];
+  private lastAudioCueEvent: RawEvent | null = null;
   private targetPosition = { x: 0, y: 0 };
   private targetVelocity = { vx: 0, vy: 0 };
   private targetRadius = 30;
@@ -94,11 +162,14 @@ export class TestEngine {
   private currentAngle: number = 0;        // Current movement direction (radians)
   private goalAngle: number = 0;           // Target direction to steer toward
   private isSteeringToGoal: boolean = false;
+  private nextDirectionChangeTime: number = 0; // Pre-scheduled (Poisson), not per-frame rolls
   // Turn rate in radians/sec — controls how fast the target changes direction
   // ~3 rad/s means a full 180° turn takes ~1 second, producing smooth arcs
   private static readonly TARGET_TURN_RATE = 3.0;
+  // Sum-of-sines mode: per-layer trajectory replaces steering (null = steering)
+  private trajectory: SumOfSinesTrajectory | null = null;
 
-  // Cooldown state (Layer 3)
+  // Cooldown state (cooldown component)
   private cooldownInterval = 8000;
   private cooldownStartTime = 0;
 
@@ -112,27 +183,39 @@ export class TestEngine {
   private onLayerComplete: LayerCompleteCallback | null = null;
   private onTestComplete: TestCompleteCallback | null = null;
   private onAbort: TestAbortCallback | null = null;
-
-  constructor(sessionId: string, config: SessionConfig) {
+  private onFlushEvents: EventSink | null = null;
+  private onLayerSaved: LayerSavedCallback | null = null;
+  // Finished layer whose events still have to be flushed (null = none)
+  private layerSavePending: number | null = null;
+
+  constructor(
+    sessionId: string,
+    config: SessionConfig,
+    protocol: ProtocolDefinition = ProtocolManager.getDefault(),
+    clock: EngineClock = BROWSER_CLOCK
+  ) {
     this.sessionId = sessionId;
     this.config = config;
-    this.difficulty = this.loadDifficultyParams(config.difficulty, config.difficultyParams);
+    this.protocol = protocol;
+    this.clock = clock;
+    this.difficulty = TestEngine.getDifficultyParams(config.difficulty, config.difficultyParams);
     this.boundUpdate = this.update.bind(this);
 
-    // Pre-allocate event array (Section 11.3)
-    this.events = new Array(this.MAX_EVENTS);
-    for (let i = 0; i < this.MAX_EVENTS; i++) {
-      this.events[i] = {
-        sessionId,
-        layer: 0,
-        eventType: 'cursor_pos',
-        timestampUs: 0,
-        data: {}
-      };
-    }
+    const seed = config.seed ?? (
+      config.seedMode === 'canonical' ? CANONICAL_SEED : SeededRandom.randomSeed()
+    );
+    this.rng = new SeededRandom(seed);
+    this.scheduleRng = this.rng.derive(0);
+    this.stimulusRng = this.rng.derive(1);
+    this.targetRng = this.rng.derive(2);
+    this.nbackRng = this.rng.derive(3);
+
+    // Pre-allocate event chunks (Section 11.3)
+    this.events = new EventBuffer(sessionId, this.MAX_BUFFERED_EVENTS);
   }
 
-  private loadDifficultyParams(
+  /** Resolve a difficulty preset (also used by replay to reconstruct stimulus timing) */
+  static getDifficultyParams(
     preset: 'casual' | 'standard' | 'intense' | 'custom',
     custom?: DifficultyParams
   ): DifficultyParams {
@@ -171,6 +254,10 @@ export class TestEngine {
     onLayerComplete?: LayerCompleteCallback;
     onTestComplete?: TestCompleteCallback;
     onAbort?: TestAbortCallback;
+    /** Persists flushed events; without one every event stays in memory (getEvents) */
+    onFlushEvents?: EventSink;
+    /** A completed layer's events all reached onFlushEvents */
+    onLayerSaved?: LayerSavedCallback;
   }): void {
     this.onEvent = callbacks.onEvent || null;
     this.onStateUpdate = callbacks.onStateUpdate || null;
@@ -178,14 +265,20 @@ export class TestEngine {
     this.onLayerComplete = callbacks.onLayerComplete || null;
     this.onTestComplete = callbacks.onTestComplete || null;
     this.onAbort = callbacks.onAbort || null;
+    this.onFlushEvents = callbacks.onFlushEvents || null;
+    this.onLayerSaved = callbacks.onLayerSaved || null;
   }
 
   async start(): Promise<void> {
     if (this.isRunning) return;
     this.isRunning = true;
-    this.testStartTime = performance.now();
-    this.eventIndex = 0;
+    this.testStartTime = this.clock.now();
+    this.events.reset();
     this.systemStallCount = 0;
+    this.windowFocused = true;
+    this.pointerLocked = null;
+    this.targetInitialized = false;
+    this.cursorPosition = { x: this.config.monitorResolution.width / 2, y: this.config.monitorResolution.height / 2 };
     await this.startLayer(0);
   }
 
@@ -195,51 +288,78 @@ export class TestEngine {
    */
   advanceToNextLayer(): void {
     if (this.phase !== 'inter-layer') return;
-    const nextLayer = this.currentLayer + 1;
-    if (nextLayer <= 3) {
-      this.startLayer(nextLayer);
+    this.saveCompletedLayer(true);
+    const nextIndex = this.layerIndex + 1;
+    if (nextIndex < this.protocol.layers.length) {
+      this.startLayer(nextIndex);
     }
   }
 
-  handleClick(x: number, y: number): void {
+  /**
+   * eventTimeMs: the input event's timeStamp, when the caller has one
+   * (same timeline as the clock). Responses are scored from it.
+   */
+  handleClick(x: number, y: number, eventTimeMs?: number): void {
     if (this.phase !== 'running') return;
-    const currentTime = performance.now();
+    const currentTime = this.clock.now();
+    const timing = this.inputTiming(currentTime, eventTimeMs);
 
-    // Layer 0: Response to simple stimulus via click
-    if (this.currentLayer === 0 && this.stimulusState.simpleStimulus) {
+    // Simple RT: response to stimulus via click
+    if (this.hasComponent('simple_rt') && this.stimulusState.simpleStimulus) {
       this.recordEvent({
-        layer: 0,
+        layer: this.currentLayer,
         eventType: 'click',
         timestampUs: currentTime * 1000,
-        data: { x, y }
+        data: { x, y, ...timing }
       });
       this.hideSimpleStimulus(currentTime);
     }
+
+    // Go/No-Go: every click is recorded — clicks after a no-go are the commission errors
+    if (this.hasComponent('go_nogo')) {
+      this.recordEvent({
+        layer: this.currentLayer,
+        eventType: 'click',
+        timestampUs: currentTime * 1000,
+        data: { x, y, ...timing }
+      });
+      if (this.stimulusState.goNoGoStimulus) this.hideGoNoGoStimulus(currentTime);
+    }
   }
 
-  handleKeyPress(key: string): void {
+  handleKeyPress(key: string, eventTimeMs?: number): void {
     if (this.phase !== 'running') return;
-    const currentTime = performance.now();
+    const currentTime = this.clock.now();
     const lowerKey = key.toLowerCase();
+    const timing = this.inputTiming(currentTime, eventTimeMs);
 
     this.recordEvent({
       layer: this.currentLayer,
       eventType: 'keypress',
       timestampUs: currentTime * 1000,
-      data: { key: lowerKey }
+      data: { key: lowerKey, ...timing }
     });
 
-    // Layer 2+: SPACE responds to audio cues
+    // Audio: SPACE responds to audio cues
     // (MetricsCalculator will match SPACE presses to audio cue onsets)
 
-    // Layer 3: F key for cooldown management
-    if (this.currentLayer === 3 && lowerKey === 'f' && this.stimulusState.cooldownReady) {
+    // Cooldown: F key uses the cooldown when ready
+    if (this.hasComponent('cooldown') && lowerKey === 'f' && this.stimulusState.cooldownReady) {
       this.useCooldown(currentTime);
     }
 
-    // Layer 3: Digit keys for peripheral response
-    if (this.currentLayer === 3 && /^[0-9]$/.test(lowerKey)) {
-      // MetricsCalculator will match digit to expected digit
+    // Peripheral: digit keys respond to flashes
+    // (MetricsCalculator will match digit to expected digit)
+
+    // N-back: R marks a match
+    // (MetricsCalculator assigns it to the latest n-back item)
+
+    // PVT: SPACE stops a running counter; presses without one are false starts
+    // (MetricsCalculator matches presses to counter onsets)
+    const counter = this.stimulusState.pvtCounter;
+    if (this.hasComponent('pvt') && lowerKey === PVT_RESPONSE_KEY && counter && counter.stoppedAt === null) {
+      // Freeze on the same RT the metrics will score
+      this.stopPvtCounter((timing.dispatchTimeUs ?? timing.handlerTimeUs) / 1000);
     }
 
     // ESC: abort test
@@ -248,13 +368,66 @@ export class TestEngine {
     }
   }
 
-  handleCursorPosition(x: number, y: number): void {
-    if (this.phase !== 'running' || this.currentLayer < 1) return;
-    const currentTime = performance.now();
+  /**
+   * Dispatch + handler times for an input event. A dispatch time later than
+   * now or more than MAX_DISPATCH_LAG_MS old (e.g. an epoch-based timeStamp)
+   * is not on the clock's timeline and is left out.
+   */
+  private inputTiming(currentTime: number, eventTimeMs?: number): { dispatchTimeUs?: number; handlerTimeUs: number } {
+    const lag = eventTimeMs != null ? currentTime - eventTimeMs : NaN;
+    return lag >= 0 && lag <= TestEngine.MAX_DISPATCH_LAG_MS
+      ? { dispatchTimeUs: eventTimeMs! * 1000, handlerTimeUs: currentTime * 1000 }
+      : { handlerTimeUs: currentTime * 1000 };
+  }
+
+  // =========================================================================
+  // FRAME PRESENTATION (onset correction)
+  // =========================================================================
+
+  /** Renderer: a frame was just drawn — it shows every onset recorded so far */
+  markFrameDrawn(): void {
+    if (this.pendingOnsets.length === 0) return;
+    this.drawnOnsets.push(...this.pendingOnsets);
+    this.pendingOnsets = [];
+  }
+
+  /**
+   * Renderer: the last drawn frame reached the screen at presentedAtMs (the
+   * next frame callback's timestamp, i.e. its vsync; same timeline as the
+   * clock). Stamps the onsets it showed.
+   */
+  markFramePresented(presentedAtMs: number): void {
+    for (const event of this.drawnOnsets) {
+      event.data.onsetTimeUs = Math.max(event.timestampUs, presentedAtMs * 1000);
+    }
+    this.drawnOnsets = [];
+    this.saveCompletedLayer();
+  }
+
+  /**
+   * Renderer: the cue emitted at onsetTime (engine time) will leave the
+   * output device at outputTimeMs (same timeline as the clock).
+   * Only the first report for the latest cue counts.
+   */
+  markAudioCueOutput(onsetTime: number, outputTimeMs: number): void {
+    const cue = this.lastAudioCueEvent;
+    if (!cue || cue.timestampUs !== onsetTime * 1000 || cue.data.outputTimeUs != null) return;
+    cue.data.outputTimeUs = Math.max(cue.timestampUs, outputTimeMs * 1000);
+  }
+
+  /**
+   * sampleTimeMs: the pointer sample's timeStamp, when the caller has one.
+   * The move is stamped with it, so coalesced samples delivered in one burst
+   * keep their own times; off-timeline values fall back to the clock.
+   */
+  handleCursorPosition(x: number, y: number, sampleTimeMs?: number): void {
+    if (this.phase !== 'running' || !this.hasComponent('tracking')) return;
+    const timing = this.inputTiming(this.clock.now(), sampleTimeMs);
+    this.cursorPosition = { x, y };
     this.recordEvent({
       layer: this.currentLayer,
       eventType: 'cursor_pos',
-      timestampUs: currentTime * 1000,
+      timestampUs: timing.dispatchTimeUs ?? timing.handlerTimeUs,
       data: {
         cursorX: x,
         cursorY: y,
@@ -265,6 +438,25 @@ export class TestEngine {
     });
   }
 
+  /** Window focus and page visibility (focused = has focus and visible) */
+  handleFocusChange(focused: boolean): void {
+    if (focused === this.windowFocused) return;
+    this.windowFocused = focused;
+    this.recordStateChange('focus_change', { focused });
+  }
+
+  handlePointerLockChange(locked: boolean): void {
+    if (locked === this.pointerLocked) return;
+    this.pointerLocked = locked;
+    this.recordStateChange('pointer_lock_change', { locked });
+  }
+
+  /** Focus / pointer-lock changes count only while a layer runs */
+  private recordStateChange(eventType: 'focus_change' | 'pointer_lock_change', data: RawEvent['data']): void {
+    if (this.phase !== 'running') return;
+    this.recordEvent({ layer: this.currentLayer, eventType, timestampUs: this.clock.now() * 1000, data });
+  }
+
   pause(): void {
     this.isPaused = true;
     this.emitStateUpdate();
@@ -273,41 +465,82 @@ export class TestEngine {
   resume(): void {
     if (!this.isPaused) return;
     this.isPaused = false;
-    this.lastFrameTime = performance.now();
-    this.animationFrameId = requestAnimationFrame(this.boundUpdate);
+    this.lastFrameTime = this.clock.now();
+    this.animationFrameId = this.clock.requestFrame(this.boundUpdate);
     this.emitStateUpdate();
   }
 
   stop(): void {
     const wasRunning = this.isRunning;
+    const point: AbortPoint = {
+      layer: this.currentLayer,
+      elapsedSeconds: (this.clock.now() - this.testStartTime) / 1000,
+      // Between layers the current one has run to the end
+      completedLayers: this.protocol.layers
+        .slice(0, this.layerIndex + (this.phase === 'inter-layer' ? 1 : 0))
+        .map(l => l.id)
+    };
     this.isRunning = false;
     this.isPaused = false;
     this.phase = 'idle';
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
-    document.exitPointerLock?.();
+    if (typeof document !== 'undefined') document.exitPointerLock?.();
     this.emitStateUpdate();
     // Notify UI that test was aborted (not completed normally)
     if (wasRunning && this.onAbort) {
-      this.onAbort();
+      this.onAbort(point);
     }
   }
 
+  /** Events not yet flushed to onFlushEvents — all of them when no sink is set */
   getEvents(): RawEvent[] {
-    return this.events.slice(0, this.eventIndex);
+    return this.events.events();
+  }
+
+  /** Events lost because the buffer was full */
+  getDroppedEventCount(): number {
+    return this.events.dropped;
+  }
+
+  /**
+   * Flush everything recorded so far to onFlushEvents, except chunks holding
+   * onsets still waiting for their presentation time (final: those too).
+   * Failed chunks stay buffered.
+   */
+  flushEvents(final = false): Promise<void> {
+    if (!this.onFlushEvents) return Promise.resolve();
+    this.midLayerFlush = false;
+    this.events.seal();
+    return this.events.flush(this.onFlushEvents, final ? undefined : new Set([...this.pendingOnsets, ...this.drawnOnsets]));
   }
 
   getSystemStallCount(): number {
     return this.systemStallCount;
   }
 
+  /** Seed of this session's stimulus schedule (store in configSnapshot to reproduce it) */
+  getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  getProtocol(): ProtocolDefinition {
+    return this.protocol;
+  }
+
+  /** Definition of the layer currently running (null before start) */
+  getLayerDefinition(): LayerDefinition | null {
+    return this.layerDef;
+  }
+
   getState(): TestState {
     return {
       currentLayer: this.currentLayer,
+      components: this.layerDef ? this.layerDef.components : [],
       layerStartTime: this.layerStartTime,
-      layerDuration: TestEngine.LAYER_DURATIONS[this.currentLayer] || 0,
+      layerDuration: this.layerDef ? this.layerDef.durationSeconds * 1000 : 0,
       isRunning: this.isRunning,
       isPaused: this.isPaused,
       phase: this.phase
@@ -322,36 +555,74 @@ export class TestEngine {
   // LAYER LIFECYCLE
   // =========================================================================
 
-  private async startLayer(layer: number): Promise<void> {
-    this.currentLayer = layer;
-    this.layerStartTime = performance.now();
+  private async startLayer(index: number): Promise<void> {
+    this.layerIndex = index;
+    this.layerDef = this.protocol.layers[index];
+    this.currentLayer = this.layerDef.id;
+    this.layerStartTime = this.clock.now();
     this.lastFrameTime = this.layerStartTime;
     this.phase = 'running';
 
-    this.resetLayerState(layer);
+    this.recordEvent({
+      layer: this.currentLayer,
+      eventType: 'layer_start',
+      timestampUs: this.layerStartTime * 1000,
+      data: { components: this.layerDef.components, durationSeconds: this.layerDef.durationSeconds }
+    });
+    this.resetLayerState(this.currentLayer);
     this.emitStateUpdate();
 
     // Start animation loop
-    this.animationFrameId = requestAnimationFrame(this.boundUpdate);
+    this.animationFrameId = this.clock.requestFrame(this.boundUpdate);
   }
 
   private resetLayerState(layer: number): void {
-    // Layer 0: Simple RT
-    if (layer === 0) {
+    // An onset never drawn before its layer ended keeps only its update time
+    this.pendingOnsets = [];
+    this.drawnOnsets = [];
+    this.lastAudioCueEvent = null;
+
+    // Per-layer streams: a layer's schedule doesn't depend on earlier performance
+    this.scheduleRng = this.rng.derive(layer * 8);
+    this.stimulusRng = this.rng.derive(layer * 8 + 1);
+    this.targetRng = this.rng.derive(layer * 8 + 2);
+    this.nbackRng = this.rng.derive(layer * 8 + 3);
+
+    // Simple RT
+    if (this.hasComponent('simple_rt')) {
       this.nextSimpleStimulusTime = this.layerStartTime + this.randomInterval(
         TestEngine.L0_STIMULUS_INTERVAL[0],
         TestEngine.L0_STIMULUS_INTERVAL[1]
       );
     }
 
-    // Layer 1+: Tracking
-    if (layer >= 1) {
-      if (layer === 1) this.initializeTarget(); // Only init on first tracking layer
+    // Go/No-Go
+    if (this.hasComponent('go_nogo')) {
+      this.nextGoNoGoTime = this.layerStartTime + this.randomInterval(
+        TestEngine.GO_NOGO_INTERVAL[0],
+        TestEngine.GO_NOGO_INTERVAL[1]
+      );
+    }
+
+    // Tracking — steering target carries over between consecutive tracking layers;
+    // a sum-of-sines trajectory starts from the layer's own seeded phases
+    const tracking = this.hasComponent('tracking');
+    this.trajectory = null;
+    if (tracking) {
+      if (!this.targetInitialized) this.initializeTarget(); // Only init on first tracking layer
       this.targetSpeed = this.difficulty.targetSpeed;
+      this.nextDirectionChangeTime = this.layerStartTime + this.nextDirectionChangeDelay();
+      this.nextCursorSampleTime = this.layerStartTime;
+      if (this.config.trajectory?.mode === 'sum_of_sines') {
+        this.trajectory = new SumOfSinesTrajectory(this.config.trajectory, {
+          ...this.config.monitorResolution, margin: this.targetRadius
+        }, this.targetRng);
+        this.applyTrajectory(0);
+      }
     }
 
-    // Layer 2+: Audio — pre-schedule first cue
-    if (layer >= 2) {
+    // Audio — pre-schedule first cue
+    if (this.hasComponent('audio')) {
       this.lastAudioCueTime = this.layerStartTime;
       const [minI, maxI] = this.difficulty.audioInterval;
       this.nextAudioCueTime = this.layerStartTime + this.randomInterval(
@@ -359,19 +630,36 @@ export class TestEngine {
       );
     }
 
-    // Layer 3: Full load — pre-schedule first peripheral
-    if (layer === 3) {
+    // Cooldown
+    if (this.hasComponent('cooldown')) {
       this.cooldownStartTime = this.layerStartTime;
       this.cooldownInterval = this.difficulty.cooldownInterval;
-      this.lastPeripheralTime = this.layerStartTime;
-      this.lastCooldownReadyTime = this.layerStartTime;
+    }
+    this.lastCooldownReadyTime = this.layerStartTime;
+
+    // Peripheral — pre-schedule first flash
+    this.lastPeripheralTime = this.layerStartTime;
+    if (this.hasComponent('peripheral')) {
       this.nextPeripheralTime = this.layerStartTime + this.randomInterval(3000, 6000);
     }
 
+    // N-back — fixed rate, history restarts every layer
+    this.nbackHistory = [];
+    this.lastNBackAudioTime = -Infinity;
+    if (this.hasComponent('nback')) {
+      this.nextNBackTime = this.layerStartTime + TestEngine.NBACK_INTERVAL;
+    }
+
+    // PVT — first counter one ISI after layer start
+    if (this.hasComponent('pvt')) {
+      this.nextPvtTime = this.layerStartTime + this.randomInterval(TestEngine.PVT_ISI[0], TestEngine.PVT_ISI[1]);
+    }
+
     // Reset stimulus state for this layer
     this.stimulusState = {
       simpleStimulus: null,
-      target: layer >= 1 ? {
+      goNoGoStimulus: null,
+      target: tracking ? {
         x: this.targetPosition.x,
         y: this.targetPosition.y,
         vx: this.targetVelocity.vx,
@@ -382,7 +670,9 @@ export class TestEngine {
       cooldownProgress: 0,
       cooldownReady: false,
       cooldownReadyTime: null,
-      peripheralFlash: null
+      peripheralFlash: null,
+      nbackStimulus: null,
+      pvtCounter: null
     };
     this.emitStimulusUpdate();
   }
@@ -391,7 +681,8 @@ export class TestEngine {
     const centerX = this.config.monitorResolution.width / 2;
     const centerY = this.config.monitorResolution.height / 2;
     this.targetPosition = { x: centerX, y: centerY };
-    const angle = Math.random() * 2 * Math.PI;
+    const angle = this.targetRng.next() * 2 * Math.PI;
+    this.targetInitialized = true;
     this.currentAngle = angle;
     this.goalAngle = angle;
     this.isSteeringToGoal = false;
@@ -408,7 +699,7 @@ export class TestEngine {
   private update(_timestamp: number): void {
     if (!this.isRunning || this.isPaused || this.phase !== 'running') return;
 
-    const currentTime = performance.now();
+    const currentTime = this.clock.now();
     const deltaTime = (currentTime - this.lastFrameTime) / 1000; // seconds
     const layerElapsed = currentTime - this.layerStartTime;
 
@@ -420,87 +711,85 @@ export class TestEngine {
     this.lastFrameTime = currentTime;
 
     // Check if layer completed
-    const layerDuration = TestEngine.LAYER_DURATIONS[this.currentLayer];
-    if (layerDuration !== undefined && layerElapsed >= layerDuration) {
+    if (this.layerDef && layerElapsed >= this.layerDef.durationSeconds * 1000) {
       this.completeLayer();
       return;
     }
 
-    // Layer-specific updates
-    switch (this.currentLayer) {
-      case 0: this.updateLayer0(currentTime); break;
-      case 1: this.updateLayer1(currentTime, deltaTime); break;
-      case 2: this.updateLayer2(currentTime, deltaTime); break;
-      case 3: this.updateLayer3(currentTime, deltaTime); break;
+    // Component updates
+    if (this.hasComponent('simple_rt')) this.updateSimpleRT(currentTime);
+    if (this.hasComponent('go_nogo')) this.updateGoNoGo(currentTime);
+    if (this.hasComponent('tracking')) {
+      this.updateTargetPosition(currentTime, deltaTime);
+      this.sampleCursor(currentTime);
     }
+    if (this.hasComponent('audio')) this.updateAudio(currentTime);
+    if (this.hasComponent('cooldown')) this.updateCooldown(currentTime);
+    if (this.hasComponent('peripheral')) this.updatePeripheral(currentTime);
+    if (this.hasComponent('nback')) this.updateNBack(currentTime);
+    if (this.hasComponent('pvt')) this.updatePvt(currentTime);
 
-    this.animationFrameId = requestAnimationFrame(this.boundUpdate);
+    this.animationFrameId = this.clock.requestFrame(this.boundUpdate);
   }
 
   // =========================================================================
-  // LAYER UPDATE LOGIC
+  // COMPONENT UPDATE LOGIC
   // =========================================================================
 
-  private updateLayer0(currentTime: number): void {
+  private updateSimpleRT(currentTime: number): void {
     if (currentTime >= this.nextSimpleStimulusTime && !this.stimulusState.simpleStimulus) {
       this.showSimpleStimulus(currentTime);
     }
   }
 
-  private updateLayer1(currentTime: number, deltaTime: number): void {
-    this.updateTargetPosition(deltaTime);
+  private updateGoNoGo(currentTime: number): void {
+    const stim = this.stimulusState.goNoGoStimulus;
+    if (stim && currentTime - stim.onsetTime >= TestEngine.GO_NOGO_DISPLAY_MS) {
+      this.hideGoNoGoStimulus(currentTime);
+    } else if (!stim && currentTime >= this.nextGoNoGoTime) {
+      this.showGoNoGoStimulus(currentTime);
+    }
   }
 
-  private updateLayer2(currentTime: number, deltaTime: number): void {
-    this.updateTargetPosition(deltaTime);
-
+  private updateAudio(currentTime: number): void {
     // Audio cue at pre-scheduled time (fixes frame-rate bug)
-    if (currentTime >= this.nextAudioCueTime) {
+    if (currentTime < this.nextAudioCueTime) return;
+
+    // Spacing enforcement only applies when competing stimuli are active (Section 11.5)
+    const canPlayAudio =
+      (!this.hasComponent('peripheral') ||
+        currentTime - this.lastPeripheralTime >= TestEngine.AUDIO_PERIPHERAL_SPACING) &&
+      (!this.hasComponent('cooldown') ||
+        currentTime - this.lastCooldownReadyTime >= TestEngine.COOLDOWN_AUDIO_SPACING) &&
+      Math.abs(this.nextNBackAudioOnset() - currentTime) >= TestEngine.NBACK_AUDIO_SPACING &&
+      currentTime - this.lastNBackAudioTime >= TestEngine.NBACK_AUDIO_SPACING;
+
+    if (canPlayAudio) {
       this.playAudioCue(currentTime);
-      // Schedule next
       const [minI, maxI] = this.difficulty.audioInterval;
       this.nextAudioCueTime = currentTime + this.randomInterval(
         Math.max(minI, TestEngine.MIN_AUDIO_INTERVAL), maxI
       );
+    } else {
+      // Defer by a small amount
+      this.nextAudioCueTime = currentTime + 100;
     }
   }
 
-  private updateLayer3(currentTime: number, deltaTime: number): void {
-    this.updateTargetPosition(deltaTime);
-
-    const timeSinceLastPeripheral = currentTime - this.lastPeripheralTime;
-    const timeSinceLastCooldown = currentTime - this.lastCooldownReadyTime;
-
-    // Audio cue with spacing enforcement (Section 11.5)
-    if (currentTime >= this.nextAudioCueTime) {
-      const canPlayAudio =
-        timeSinceLastPeripheral >= TestEngine.AUDIO_PERIPHERAL_SPACING &&
-        timeSinceLastCooldown >= TestEngine.COOLDOWN_AUDIO_SPACING;
-
-      if (canPlayAudio) {
-        this.playAudioCue(currentTime);
-        const [minI, maxI] = this.difficulty.audioInterval;
-        this.nextAudioCueTime = currentTime + this.randomInterval(
-          Math.max(minI, TestEngine.MIN_AUDIO_INTERVAL), maxI
-        );
-      } else {
-        // Defer by a small amount
-        this.nextAudioCueTime = currentTime + 100;
-      }
-    }
-
-    // Cooldown management
+  private updateCooldown(currentTime: number): void {
     const cooldownElapsed = currentTime - this.cooldownStartTime;
     this.stimulusState.cooldownProgress = Math.min(1, cooldownElapsed / this.cooldownInterval);
 
     if (cooldownElapsed >= this.cooldownInterval && !this.stimulusState.cooldownReady) {
       this.markCooldownReady(currentTime);
     }
+  }
 
+  private updatePeripheral(currentTime: number): void {
     // Peripheral flash at pre-scheduled time with spacing enforcement
     if (currentTime >= this.nextPeripheralTime && !this.stimulusState.peripheralFlash) {
-      const timeSinceAudio = currentTime - this.lastAudioCueTime;
-      const canShow = timeSinceAudio >= TestEngine.AUDIO_PERIPHERAL_SPACING;
+      const canShow = !this.hasComponent('audio') ||
+        currentTime - this.lastAudioCueTime >= TestEngine.AUDIO_PERIPHERAL_SPACING;
 
       if (canShow) {
         this.showPeripheralFlash(currentTime);
@@ -520,6 +809,64 @@ export class TestEngine {
     }
   }
 
+  private updateNBack(currentTime: number): void {
+    const stim = this.stimulusState.nbackStimulus;
+    if (stim && currentTime - stim.onsetTime >= TestEngine.NBACK_DISPLAY_MS) {
+      this.stimulusState.nbackStimulus = null;
+      this.emitStimulusUpdate();
+    }
+    if (currentTime >= this.nextNBackTime) {
+      this.showNBackItem(currentTime);
+      // Fixed grid — a late frame doesn't push every later onset back
+      this.nextNBackTime += TestEngine.NBACK_INTERVAL;
+    }
+  }
+
+  /** Onset of the next audio n-back item (Infinity when the stream is visual or off) */
+  private nextNBackAudioOnset(): number {
+    return this.hasComponent('nback') && this.nbackSettings().modality === 'audio'
+      ? this.nextNBackTime
+      : Infinity;
+  }
+
+  private updatePvt(currentTime: number): void {
+    const counter = this.stimulusState.pvtCounter;
+    if (counter && counter.stoppedAt !== null) {
+      if (currentTime - counter.stoppedAt >= TestEngine.PVT_FEEDBACK_MS) {
+        this.stimulusState.pvtCounter = null;
+        this.emitStimulusUpdate();
+      }
+    } else if (counter) {
+      // No response: the counter times out and the next ISI runs from here
+      if (currentTime - counter.onsetTime >= TestEngine.PVT_TIMEOUT_MS) {
+        this.stimulusState.pvtCounter = null;
+        this.schedulePvt(currentTime);
+        this.emitStimulusUpdate();
+      }
+    } else if (currentTime >= this.nextPvtTime) {
+      this.stimulusState.pvtCounter = { onsetTime: currentTime, stoppedAt: null };
+      this.nextPvtTime = Infinity;
+      this.recordEvent({
+        layer: this.currentLayer,
+        eventType: 'pvt_stimulus',
+        timestampUs: currentTime * 1000,
+        data: {}
+      });
+      this.emitStimulusUpdate();
+    }
+  }
+
+  private stopPvtCounter(currentTime: number): void {
+    const counter = this.stimulusState.pvtCounter!;
+    this.stimulusState.pvtCounter = { onsetTime: counter.onsetTime, stoppedAt: currentTime };
+    this.schedulePvt(currentTime);
+    this.emitStimulusUpdate();
+  }
+
+  private schedulePvt(from: number): void {
+    this.nextPvtTime = from + this.randomInterval(TestEngine.PVT_ISI[0], TestEngine.PVT_ISI[1]);
+  }
+
   // =========================================================================
   // TARGET MOVEMENT (frame-rate independent, smooth steering)
   // =========================================================================
@@ -533,7 +880,13 @@ export class TestEngine {
     return a;
   }
 
-  private updateTargetPosition(deltaTime: number): void {
+  private updateTargetPosition(currentTime: number, deltaTime: number): void {
+    if (this.trajectory) {
+      this.applyTrajectory((currentTime - this.layerStartTime) / 1000);
+      this.syncTargetStimulus();
+      return;
+    }
+
     // --- Smooth steering: interpolate current angle toward goal angle ---
     if (this.isSteeringToGoal) {
       let angleDiff = this.normalizeAngle(this.goalAngle - this.currentAngle);
@@ -575,17 +928,52 @@ export class TestEngine {
       this.targetPosition.y = Math.max(margin, Math.min(height - margin, this.targetPosition.y));
     }
 
-    // --- Trigger new direction changes (frame-rate independent) ---
+    // --- Trigger new direction changes (pre-scheduled, frame-rate independent) ---
+    // Change times are drawn as a Poisson process instead of per-frame rolls, so the
+    // sequence of goal angles depends only on the seed, not on the frame count.
     // When triggered, set a new goal angle — steering handles the smooth transition
-    const changeProbability = 1 - Math.pow(
-      1 - TestEngine.TARGET_DIRECTION_CHANGE_RATE, deltaTime
-    );
-    if (Math.random() < changeProbability && !this.isSteeringToGoal) {
-      this.goalAngle = Math.random() * 2 * Math.PI;
+    if (currentTime >= this.nextDirectionChangeTime && !this.isSteeringToGoal) {
+      this.goalAngle = this.targetRng.next() * 2 * Math.PI;
       this.isSteeringToGoal = true;
+      this.nextDirectionChangeTime = currentTime + this.nextDirectionChangeDelay();
     }
 
-    // Update stimulus state
+    this.syncTargetStimulus();
+  }
+
+  /**
+   * Fixed-rate cursor + target sample, taken whether or not the mouse moved.
+   * A sample is due within half an interval of its grid time, so a display
+   * running at the sample rate samples every frame despite jitter; after a
+   * stall the grid restarts from now instead of bursting catch-up samples.
+   */
+  private sampleCursor(currentTime: number): void {
+    const interval = 1000 / TestEngine.CURSOR_SAMPLE_RATE;
+    if (currentTime < this.nextCursorSampleTime - interval / 2) return;
+    this.recordEvent({
+      layer: this.currentLayer,
+      eventType: 'cursor_sample',
+      timestampUs: currentTime * 1000,
+      data: {
+        cursorX: this.cursorPosition.x,
+        cursorY: this.cursorPosition.y,
+        targetX: this.targetPosition.x,
+        targetY: this.targetPosition.y,
+        targetRadius: this.targetRadius
+      }
+    });
+    this.nextCursorSampleTime += interval;
+    if (this.nextCursorSampleTime < currentTime) this.nextCursorSampleTime = currentTime + interval;
+  }
+
+  /** Sum-of-sines mode: position and velocity are a closed-form function of layer time */
+  private applyTrajectory(layerSeconds: number): void {
+    const p = this.trajectory!.at(layerSeconds);
+    this.targetPosition = { x: p.x, y: p.y };
+    this.targetVelocity = { vx: p.vx, vy: p.vy };
+  }
+
+  private syncTargetStimulus(): void {
     if (this.stimulusState.target) {
       this.stimulusState.target.x = this.targetPosition.x;
       this.stimulusState.target.y = this.targetPosition.y;
@@ -602,13 +990,13 @@ export class TestEngine {
   private showSimpleStimulus(currentTime: number): void {
     const { width, height } = this.config.monitorResolution;
     const margin = 100;
-    const x = margin + Math.random() * (width - 2 * margin);
-    const y = margin + Math.random() * (height - 2 * margin);
+    const x = this.stimulusRng.range(margin, width - margin);
+    const y = this.stimulusRng.range(margin, height - margin);
 
     this.stimulusState.simpleStimulus = { visible: true, x, y, onsetTime: currentTime };
 
     this.recordEvent({
-      layer: 0,
+      layer: this.currentLayer,
       eventType: 'stimulus_onset',
       timestampUs: currentTime * 1000,
       data: { x, y }
@@ -625,18 +1013,48 @@ export class TestEngine {
     this.emitStimulusUpdate();
   }
 
+  private showGoNoGoStimulus(currentTime: number): void {
+    const kind = this.stimulusRng.chance(TestEngine.GO_NOGO_GO_PROBABILITY) ? 'go' : 'nogo';
+    const x = this.config.monitorResolution.width / 2;
+    const y = this.config.monitorResolution.height / 2;
+
+    this.stimulusState.goNoGoStimulus = { kind, x, y, onsetTime: currentTime };
+
+    this.recordEvent({
+      layer: this.currentLayer,
+      eventType: kind === 'go' ? 'go_stimulus' : 'nogo_stimulus',
+      timestampUs: currentTime * 1000,
+      data: { x, y }
+    });
+    this.emitStimulusUpdate();
+  }
+
+  private hideGoNoGoStimulus(currentTime: number): void {
+    this.stimulusState.goNoGoStimulus = null;
+    this.nextGoNoGoTime = currentTime + this.randomInterval(
+      TestEngine.GO_NOGO_INTERVAL[0],
+      TestEngine.GO_NOGO_INTERVAL[1]
+    );
+    this.emitStimulusUpdate();
+  }
+
   private playAudioCue(currentTime: number): void {
     // 70% signal, 30% distractor per spec
-    const isDistractor = Math.random() < 0.3;
+    const isDistractor = this.stimulusRng.chance(0.3);
     const tone: 'high' | 'low' | 'distractor' = isDistractor
       ? 'distractor'
-      : (Math.random() < 0.5 ? 'high' : 'low');
+      : (this.stimulusRng.chance(0.5) ? 'high' : 'low');
 
-    this.recordEvent({
+    // Distractors have no correct key — any audio response to them is a false positive
+    const expectedKey = tone === 'distractor' ? undefined
+      : this.config.audioResponseMode === 'discrimination' ? AUDIO_RESPONSE_KEYS[tone]
+      : AUDIO_RESPONSE_KEYS.detection;
+
+    this.lastAudioCueEvent = this.recordEvent({
       layer: this.currentLayer,
       eventType: 'audio_cue',
       timestampUs: currentTime * 1000,
-      data: { tone }
+      data: expectedKey ? { tone, expectedKey } : { tone }
     });
 
     this.stimulusState.lastAudioCue = { tone, onsetTime: currentTime };
@@ -653,7 +1071,7 @@ export class TestEngine {
     this.lastCooldownReadyTime = currentTime;
 
     this.recordEvent({
-      layer: 3,
+      layer: this.currentLayer,
       eventType: 'cooldown_ready',
       timestampUs: currentTime * 1000,
       data: {}
@@ -670,14 +1088,14 @@ export class TestEngine {
 
   private showPeripheralFlash(currentTime: number): void {
     const directions: Array<'up' | 'down' | 'left' | 'right'> = ['up', 'down', 'left', 'right'];
-    const direction = directions[Math.floor(Math.random() * directions.length)];
-    const digit = Math.floor(Math.random() * 10); // 0-9
+    const direction = this.stimulusRng.pick(directions);
+    const digit = this.stimulusRng.int(10); // 0-9
 
     this.stimulusState.peripheralFlash = { direction, digit, onsetTime: currentTime };
     this.lastPeripheralTime = currentTime;
 
     this.recordEvent({
-      layer: 3,
+      layer: this.currentLayer,
       eventType: 'peripheral_flash',
       timestampUs: currentTime * 1000,
       data: { direction, digit }
@@ -685,6 +1103,34 @@ export class TestEngine {
     this.emitStimulusUpdate();
   }
 
+  private showNBackItem(currentTime: number): void {
+    const { n, modality } = this.nbackSettings();
+    const history = this.nbackHistory;
+    const back = history.length >= n ? history[history.length - n] : undefined;
+    const isTarget = back !== undefined && this.nbackRng.chance(TestEngine.NBACK_TARGET_PROBABILITY);
+
+    // Non-targets never repeat the n-back item, so targets are exactly the drawn ones
+    let item: number;
+    if (isTarget) {
+      item = back!;
+    } else {
+      item = this.nbackRng.int(NBACK_LETTERS.length - (back !== undefined ? 1 : 0));
+      if (back !== undefined && item >= back) item++;
+    }
+    history.push(item);
+
+    this.stimulusState.nbackStimulus = { item, modality, onsetTime: currentTime };
+    if (modality === 'audio') this.lastNBackAudioTime = currentTime;
+
+    this.recordEvent({
+      layer: this.currentLayer,
+      eventType: 'nback_stimulus',
+      timestampUs: currentTime * 1000,
+      data: { item, isTarget, n, modality }
+    });
+    this.emitStimulusUpdate();
+  }
+
   // =========================================================================
   // LAYER COMPLETION & TRANSITIONS
   // =========================================================================
@@ -692,24 +1138,30 @@ export class TestEngine {
   private completeLayer(): void {
     // Stop animation loop
     if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+      this.clock.cancelFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
 
-    if (this.currentLayer < 3) {
+    const next = this.protocol.layers[this.layerIndex + 1];
+    if (next) {
       // Transition to inter-layer screen
       this.phase = 'inter-layer';
       this.emitStateUpdate();
 
-      const info = this.buildInterLayerInfo(this.currentLayer, this.currentLayer + 1);
+      const info = this.buildInterLayerInfo(this.layerDef!, next);
       if (this.onLayerComplete) {
         this.onLayerComplete(this.currentLayer, info);
       }
+      // Background flush while the participant reads the next layer's instructions
+      this.layerSavePending = this.currentLayer;
+      this.saveCompletedLayer();
     } else {
       // Test complete
+      this.layerSavePending = this.currentLayer;
+      this.saveCompletedLayer(true);
       this.phase = 'complete';
       this.isRunning = false;
-      document.exitPointerLock?.();
+      if (typeof document !== 'undefined') document.exitPointerLock?.();
       this.emitStateUpdate();
 
       if (this.onTestComplete) {
@@ -718,69 +1170,82 @@ export class TestEngine {
     }
   }
 
-  private buildInterLayerInfo(completed: number, next: number): InterLayerInfo {
-    const descriptions: Record<number, string> = {
-      1: 'Track the moving target with your cursor. Keep the crosshair as close to the blue circle as possible.',
-      2: 'Continue tracking. Audio tones will now play — press SPACE when you hear a HIGH or LOW tone. Ignore the distractor tone.',
-      3: 'Full cognitive load. Continue tracking + audio. Watch for numbers in your peripheral vision and press the matching number key. A cooldown bar fills at the bottom — press F when it turns yellow.'
-    };
-
-    const newElements: Record<number, string[]> = {
-      1: ['Moving target to track with cursor'],
-      2: ['Audio tones (high/low/distractor)', 'Press SPACE for high or low tones', 'Ignore distractor tones'],
-      3: ['Peripheral number flashes', 'Cooldown bar management (F key)', 'All previous tasks continue']
-    };
+  /**
+   * Flush the finished layer once the renderer has stamped its last onsets
+   * (force: now, e.g. when no frames are being presented) and report it
+   */
+  private saveCompletedLayer(force = false): void {
+    const layer = this.layerSavePending;
+    if (layer === null || (!force && (this.pendingOnsets.length > 0 || this.drawnOnsets.length > 0))) return;
+    this.layerSavePending = null;
+    this.flushEvents(force)
+      .then(() => this.onLayerSaved?.(layer))
+      .catch(e => console.warn('Event flush failed, keeping events buffered:', e));
+  }
 
-    const controls: Record<number, { key: string; action: string }[]> = {
-      1: [
-        { key: 'Mouse', action: 'Track the target' }
-      ],
-      2: [
-        { key: 'Mouse', action: 'Track the target' },
-        { key: 'SPACE', action: 'Respond to high/low tones' }
-      ],
-      3: [
-        { key: 'Mouse', action: 'Track the target' },
-        { key: 'SPACE', action: 'Respond to high/low tones' },
-        { key: '0-9', action: 'Match peripheral number' },
-        { key: 'F', action: 'Use cooldown when ready' }
-      ]
-    };
+  /** Spool the sealed chunks while the layer keeps filling the current one */
+  private flushMidLayer(): void {
+    this.midLayerFlush = true;
+    this.events.flush(this.onFlushEvents!, new Set([...this.pendingOnsets, ...this.drawnOnsets]))
+      .then(() => { this.midLayerFlush = false; })
+      .catch(e => console.warn('Mid-layer event flush failed, keeping events buffered:', e));
+  }
 
+  private buildInterLayerInfo(completed: LayerDefinition, next: LayerDefinition): InterLayerInfo {
     return {
-      completedLayer: completed,
-      nextLayer: next,
-      description: descriptions[next] || '',
-      newElements: newElements[next] || [],
-      controls: controls[next] || [],
+      completedLayer: completed.id,
+      nextLayer: next.id,
+      nextLayerName: next.name,
+      newComponents: next.components.filter(c => !completed.components.includes(c)),
+      description: next.instructions.description,
+      newElements: next.instructions.newElements,
+      controls: next.instructions.controls,
       cooldownSeconds: TestEngine.INTER_LAYER_COOLDOWN_SECONDS
     };
   }
 
   // =========================================================================
-  // EVENT RECORDING (pre-allocated array)
+  // EVENT RECORDING (pre-allocated chunks)
   // =========================================================================
 
-  private recordEvent(eventData: Omit<RawEvent, 'sessionId'>): void {
-    if (this.eventIndex >= this.MAX_EVENTS) {
-      console.warn('Event buffer full — some events may be lost');
-      return;
+  private recordEvent(eventData: Omit<RawEvent, 'sessionId'>): RawEvent | null {
+    const event = this.events.next();
+    if (!event) {
+      if (this.events.dropped === 1) console.warn('Event buffer full — events are being dropped');
+      return null;
     }
-    const event = this.events[this.eventIndex];
     event.sessionId = this.sessionId;
     event.layer = eventData.layer;
     event.eventType = eventData.eventType;
     event.timestampUs = eventData.timestampUs;
     event.data = eventData.data;
-    this.eventIndex++;
+    if (TestEngine.isVisualOnset(event)) this.pendingOnsets.push(event);
+    if (this.onFlushEvents && !this.midLayerFlush && this.events.sealedChunks >= this.FLUSH_HIGH_WATER_CHUNKS) this.flushMidLayer();
 
     if (this.onEvent) this.onEvent(event);
+    return event;
   }
 
   // =========================================================================
   // HELPERS
   // =========================================================================
 
+  private static isVisualOnset(event: RawEvent): boolean {
+    switch (event.eventType) {
+      case 'stimulus_onset':
+      case 'go_stimulus':
+      case 'nogo_stimulus':
+      case 'cooldown_ready':
+      case 'peripheral_flash':
+      case 'pvt_stimulus':
+        return true;
+      case 'nback_stimulus':
+        return event.data.modality !== 'audio';
+      default:
+        return false;
+    }
+  }
+
   private emitStateUpdate(): void {
     if (this.onStateUpdate) this.onStateUpdate(this.getState());
   }
@@ -789,7 +1254,20 @@ export class TestEngine {
     if (this.onStimulusUpdate) this.onStimulusUpdate(this.stimulusState);
   }
 
+  private hasComponent(component: LayerComponent): boolean {
+    return ProtocolManager.hasComponent(this.layerDef ?? undefined, component);
+  }
+
+  private nbackSettings() {
+    return this.layerDef?.nback ?? DEFAULT_NBACK;
+  }
+
   private randomInterval(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+    return this.scheduleRng.range(min, max);
+  }
+
+  /** Milliseconds until the next target direction change (mean 1 / rate) */
+  private nextDirectionChangeDelay(): number {
+    return this.targetRng.exponential(TestEngine.TARGET_DIRECTION_CHANGE_RATE) * 1000;
   }
 }
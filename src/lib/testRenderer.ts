@@ -2,6 +2,10 @@
  * Test Renderer for CLST using PixiJS
  * Implements Section 3 visual presentation + inter-layer transitions
  *
+ * Forwards input (with event.timeStamp), frame presentation, audio output
+ * times and focus / pointer-lock changes to the engine. engine may be null
+ * for session replay: no input, no audio, plus a cursor/target trail.
+ *
  * FIXES from code review:
  * - Removed redundant rAF loop (PixiJS ticker handles rendering)
  * - Pointer lock uses movementX/Y accumulation (not clientX/Y which freezes)
@@ -11,24 +15,29 @@
  */
 
 import * as PIXI from 'pixi.js';
-import type { SessionConfig, StimulusState, TestState, InterLayerInfo } from '@/types';
+import type { SessionConfig, StimulusState, TestState, InterLayerInfo, LayerComponent, ReplayOverlay } from '@/types';
 import { TestEngine } from './testEngine';
 import { getAudioManager } from './audioManager';
+import { AUDIO_RESPONSE_KEYS, NBACK_LETTERS } from './protocol';
 
 export class TestRenderer {
   private app: PIXI.Application;
   private container: HTMLElement;
   private config: SessionConfig;
-  private engine: TestEngine;
+  private engine: TestEngine | null;
 
   // Graphics objects
   private targetGraphic: PIXI.Graphics | null = null;
   private simpleStimulusGraphic: PIXI.Graphics | null = null;
+  private goNoGoGraphic: PIXI.Graphics | null = null;
   private cooldownBarBg: PIXI.Graphics | null = null;
   private cooldownBarFill: PIXI.Graphics | null = null;
   private peripheralContainer: PIXI.Container | null = null;
+  private nbackText: PIXI.Text | null = null;
+  private pvtText: PIXI.Text | null = null;
   private layerInfoText: PIXI.Text | null = null;
   private progressText: PIXI.Text | null = null;
+  private replayGraphic: PIXI.Graphics | null = null;
 
   // Cursor tracking (accumulated from movementX/Y under pointer lock)
   private cursorX: number = 0;
@@ -40,8 +49,12 @@ export class TestRenderer {
   private readonly TARGET_COLOR = 0x2196f3;
   private readonly SIMPLE_STIM_RADIUS = 30;
   private readonly SIMPLE_STIM_COLOR = 0xff5722;
+  private readonly GO_COLOR = 0x4caf50;
+  private readonly NOGO_COLOR = 0xf44336;
   private readonly PERIPHERAL_SIZE = 50;
   private readonly PERIPHERAL_COLOR = 0xffc107;
+  private readonly NBACK_COLOR = 0xe0e0e0;
+  private readonly PVT_COLOR = 0xff1744;
   private readonly COOLDOWN_HEIGHT = 20;
   private readonly COOLDOWN_BG_COLOR = 0x424242;
   private readonly COOLDOWN_FILL_COLOR = 0x4caf50;
@@ -49,27 +62,31 @@ export class TestRenderer {
 
   // State
   private currentLayer: number = -1;
+  private components: LayerComponent[] = [];
+  private lastPlayedNBackOnset: number = -1;
 
   // Inter-layer overlay (HTML-based for button support)
   private interLayerOverlay: HTMLDivElement | null = null;
 
   // Bound event handlers (for cleanup)
-  private boundOnMouseMove: (e: MouseEvent) => void;
+  private boundOnPointerMove: (e: PointerEvent) => void;
   private boundOnClick: (e: MouseEvent) => void;
   private boundOnKeyDown: (e: KeyboardEvent) => void;
   private boundOnPointerLockChange: () => void;
+  private boundOnFocusChange: () => void;
 
-  constructor(container: HTMLElement, config: SessionConfig, engine: TestEngine) {
+  constructor(container: HTMLElement, config: SessionConfig, engine: TestEngine | null) {
     this.container = container;
     this.config = config;
     this.engine = engine;
     this.app = new PIXI.Application();
 
     // Bind handlers once
-    this.boundOnMouseMove = this.onMouseMove.bind(this);
+    this.boundOnPointerMove = this.onPointerMove.bind(this);
     this.boundOnClick = this.onClick.bind(this);
     this.boundOnKeyDown = this.onKeyDown.bind(this);
     this.boundOnPointerLockChange = this.onPointerLockChange.bind(this);
+    this.boundOnFocusChange = this.onFocusChange.bind(this);
   }
 
   async initialize(): Promise<void> {
@@ -107,7 +124,11 @@ export class TestRenderer {
     this.cursorX = this.config.monitorResolution.width / 2;
     this.cursorY = this.config.monitorResolution.height / 2;
 
-    this.setupInputHandlers();
+    if (this.engine) {
+      this.setupInputHandlers();
+      this.app.ticker.add(this.onFrameStart, this, PIXI.UPDATE_PRIORITY.HIGH);
+      this.app.ticker.add(this.onFrameRendered, this, PIXI.UPDATE_PRIORITY.UTILITY);
+    }
 
     // Create persistent progress text
     this.progressText = new PIXI.Text({
@@ -128,59 +149,79 @@ export class TestRenderer {
     this.app.canvas.addEventListener('click', this.boundOnClick);
     document.addEventListener('keydown', this.boundOnKeyDown);
     document.addEventListener('pointerlockchange', this.boundOnPointerLockChange);
-    document.addEventListener('mousemove', this.boundOnMouseMove);
+    document.addEventListener('pointermove', this.boundOnPointerMove);
+    window.addEventListener('blur', this.boundOnFocusChange);
+    window.addEventListener('focus', this.boundOnFocusChange);
+    document.addEventListener('visibilitychange', this.boundOnFocusChange);
+  }
+
+  // Runs before the render: this tick's timestamp is when the previous frame went on screen
+  private onFrameStart(ticker: PIXI.Ticker): void {
+    this.engine?.markFramePresented(ticker.lastTime + ticker.elapsedMS);
+  }
+
+  // Runs after Application's render (LOW priority)
+  private onFrameRendered(): void {
+    this.engine?.markFrameDrawn();
   }
 
   private onClick(e: MouseEvent): void {
     // Request pointer lock on first click for tracking layers
-    if (this.currentLayer >= 1 && !this.isPointerLocked) {
+    if (this.components.includes('tracking') && !this.isPointerLocked) {
       this.app.canvas.requestPointerLock?.();
     }
 
-    if (this.currentLayer === 0) {
+    if (this.components.includes('simple_rt') || this.components.includes('go_nogo')) {
       const rect = this.app.canvas.getBoundingClientRect();
       const scaleX = this.config.monitorResolution.width / rect.width;
       const scaleY = this.config.monitorResolution.height / rect.height;
       const x = (e.clientX - rect.left) * scaleX;
       const y = (e.clientY - rect.top) * scaleY;
-      this.engine.handleClick(x, y);
+      this.engine?.handleClick(x, y, e.timeStamp);
     }
   }
 
   private onKeyDown(e: KeyboardEvent): void {
-    this.engine.handleKeyPress(e.key);
+    this.engine?.handleKeyPress(e.key, e.timeStamp);
   }
 
   private onPointerLockChange(): void {
     this.isPointerLocked = document.pointerLockElement === this.app.canvas;
+    this.engine?.handlePointerLockChange(this.isPointerLocked);
   }
 
-  private onMouseMove(e: MouseEvent): void {
-    if (this.currentLayer < 1) return;
-
-    if (this.isPointerLocked) {
-      // Under pointer lock: accumulate movement deltas
-      // This gives raw, unaccelerated input per spec
-      const rect = this.app.canvas.getBoundingClientRect();
-      const scaleX = this.config.monitorResolution.width / rect.width;
-      const scaleY = this.config.monitorResolution.height / rect.height;
+  private onFocusChange(): void {
+    this.engine?.handleFocusChange(document.hasFocus() && document.visibilityState === 'visible');
+  }
 
-      this.cursorX += e.movementX * scaleX;
-      this.cursorY += e.movementY * scaleY;
-    } else {
-      // Fallback: use absolute position
-      const rect = this.app.canvas.getBoundingClientRect();
-      const scaleX = this.config.monitorResolution.width / rect.width;
-      const scaleY = this.config.monitorResolution.height / rect.height;
-      this.cursorX = (e.clientX - rect.left) * scaleX;
-      this.cursorY = (e.clientY - rect.top) * scaleY;
-    }
+  private onPointerMove(e: PointerEvent): void {
+    if (!this.components.includes('tracking')) return;
+
+    const rect = this.app.canvas.getBoundingClientRect();
+    const scaleX = this.config.monitorResolution.width / rect.width;
+    const scaleY = this.config.monitorResolution.height / rect.height;
+
+    // Browsers merge pointer moves to one event per frame; the coalesced list
+    // holds the full-rate samples, each with its own timeStamp (missing in older WebViews)
+    const moves = e.getCoalescedEvents?.() ?? [];
+    for (const m of moves.length > 0 ? moves : [e]) {
+      if (this.isPointerLocked) {
+        // Under pointer lock: accumulate movement deltas
+        // This gives raw, unaccelerated input per spec
+        this.cursorX += m.movementX * scaleX;
+        this.cursorY += m.movementY * scaleY;
+      } else {
+        // Fallback: use absolute position
+        this.cursorX = (m.clientX - rect.left) * scaleX;
+        this.cursorY = (m.clientY - rect.top) * scaleY;
+      }
 
-    // Clamp to bounds
-    this.cursorX = Math.max(0, Math.min(this.config.monitorResolution.width, this.cursorX));
-    this.cursorY = Math.max(0, Math.min(this.config.monitorResolution.height, this.cursorY));
+      // Clamp to bounds
+      this.cursorX = Math.max(0, Math.min(this.config.monitorResolution.width, this.cursorX));
+      this.cursorY = Math.max(0, Math.min(this.config.monitorResolution.height, this.cursorY));
 
-    this.engine.handleCursorPosition(this.cursorX, this.cursorY);
+      this.engine?.handleCursorPosition(this.cursorX, this.cursorY, m.timeStamp);
+    }
   }
 
   // =========================================================================
@@ -189,7 +230,7 @@ export class TestRenderer {
 
   updateFromEngine(stimulusState: StimulusState, testState: TestState): void {
     if (testState.currentLayer !== this.currentLayer) {
-      this.handleLayerChange(testState.currentLayer);
+      this.handleLayerChange(testState.currentLayer, testState.components);
     }
 
     if (testState.phase !== 'running') return;
@@ -202,19 +243,21 @@ export class TestRenderer {
       this.progressText.text = `L${testState.currentLayer} — ${remaining.toFixed(0)}s`;
     }
 
-    switch (testState.currentLayer) {
-      case 0: this.updateLayer0(stimulusState); break;
-      case 1: this.updateLayer1(stimulusState); break;
-      case 2: this.updateLayer2(stimulusState); break;
-      case 3: this.updateLayer3(stimulusState); break;
-    }
+    if (this.components.includes('simple_rt')) this.updateSimpleStimulus(stimulusState);
+    if (this.components.includes('go_nogo')) this.updateGoNoGo(stimulusState);
+    if (this.components.includes('tracking')) this.updateTarget(stimulusState);
+    if (this.components.includes('cooldown')) this.updateCooldownBar(stimulusState.cooldownProgress, stimulusState.cooldownReady);
+    if (this.components.includes('peripheral')) this.updatePeripheral(stimulusState.peripheralFlash);
+    if (this.components.includes('nback')) this.updateNBack(stimulusState.nbackStimulus);
+    if (this.components.includes('pvt')) this.updatePvt(stimulusState.pvtCounter);
 
-    // Play audio if a new cue was emitted
-    if (stimulusState.lastAudioCue) {
+    // Play audio if a new cue was emitted (live runs only — replay is silent)
+    if (this.engine && stimulusState.lastAudioCue) {
       const cueAge = performance.now() - stimulusState.lastAudioCue.onsetTime;
       if (cueAge < 50) { // Only play if very recent (avoid replaying on subsequent frames)
         try {
-          getAudioManager().play(stimulusState.lastAudioCue.tone);
+          const cue = stimulusState.lastAudioCue;
+          this.engine.markAudioCueOutput(cue.onsetTime, getAudioManager().play(cue.tone).outputPerformanceTime);
         } catch { /* audio not ready */ }
       }
     }
@@ -224,29 +267,55 @@ export class TestRenderer {
   // LAYER TRANSITIONS
   // =========================================================================
 
-  private handleLayerChange(newLayer: number): void {
+  private handleLayerChange(newLayer: number, components: LayerComponent[]): void {
     this.cleanupLayerGraphics();
     this.currentLayer = newLayer;
-    this.setupLayerGraphics(newLayer);
+    this.components = components;
+    this.setupLayerGraphics(components);
   }
 
-  private setupLayerGraphics(layer: number): void {
-    if (layer >= 1) {
+  private setupLayerGraphics(components: LayerComponent[]): void {
+    if (components.includes('tracking')) {
       this.targetGraphic = new PIXI.Graphics();
       this.app.stage.addChild(this.targetGraphic);
     }
 
-    if (layer === 3) {
+    if (components.includes('cooldown')) {
       this.createCooldownBar();
+    }
+
+    if (components.includes('peripheral')) {
       this.peripheralContainer = new PIXI.Container();
       this.app.stage.addChild(this.peripheralContainer);
     }
+
+    if (components.includes('nback')) {
+      this.nbackText = new PIXI.Text({
+        text: '',
+        style: { fontFamily: 'Arial', fontSize: 56, fontWeight: 'bold', fill: this.NBACK_COLOR, align: 'center' }
+      });
+      this.nbackText.anchor.set(0.5);
+      this.nbackText.x = this.config.monitorResolution.width / 2;
+      this.nbackText.y = 180;
+      this.app.stage.addChild(this.nbackText);
+    }
+
+    if (components.includes('pvt')) {
+      this.pvtText = new PIXI.Text({
+        text: '',
+        style: { fontFamily: 'Courier New', fontSize: 72, fontWeight: 'bold', fill: this.PVT_COLOR, align: 'center' }
+      });
+      this.pvtText.anchor.set(0.5);
+      this.pvtText.x = this.config.monitorResolution.width / 2;
+      this.pvtText.y = this.config.monitorResolution.height / 2;
+      this.app.stage.addChild(this.pvtText);
+    }
   }
 
   private cleanupLayerGraphics(): void {
     for (const g of [
-      this.simpleStimulusGraphic, this.targetGraphic,
-      this.cooldownBarBg, this.cooldownBarFill, this.peripheralContainer
+      this.simpleStimulusGraphic, this.goNoGoGraphic, this.targetGraphic,
+      this.cooldownBarBg, this.cooldownBarFill, this.peripheralContainer, this.nbackText, this.pvtText
     ]) {
       if (g) {
         try { this.app.stage.removeChild(g); } catch {}
@@ -254,17 +323,20 @@ export class TestRenderer {
       }
     }
     this.simpleStimulusGraphic = null;
+    this.goNoGoGraphic = null;
     this.targetGraphic = null;
     this.cooldownBarBg = null;
     this.cooldownBarFill = null;
     this.peripheralContainer = null;
+    this.nbackText = null;
+    this.pvtText = null;
   }
 
   // =========================================================================
   // LAYER RENDERING
   // =========================================================================
 
-  private updateLayer0(state: StimulusState): void {
+  private updateSimpleStimulus(state: StimulusState): void {
     if (state.simpleStimulus?.visible) {
       if (!this.simpleStimulusGraphic) {
         this.simpleStimulusGraphic = new PIXI.Graphics();
@@ -282,7 +354,24 @@ export class TestRenderer {
     }
   }
 
-  private updateLayer1(state: StimulusState): void {
+  private updateGoNoGo(state: StimulusState): void {
+    const stim = state.goNoGoStimulus;
+    if (stim) {
+      if (!this.goNoGoGraphic) {
+        this.goNoGoGraphic = new PIXI.Graphics();
+        this.app.stage.addChild(this.goNoGoGraphic);
+      }
+      this.goNoGoGraphic.clear();
+      this.goNoGoGraphic.circle(stim.x, stim.y, this.SIMPLE_STIM_RADIUS * 1.5);
+      this.goNoGoGraphic.fill(stim.kind === 'go' ? this.GO_COLOR : this.NOGO_COLOR);
+    } else if (this.goNoGoGraphic) {
+      this.app.stage.removeChild(this.goNoGoGraphic);
+      this.goNoGoGraphic.destroy();
+      this.goNoGoGraphic = null;
+    }
+  }
+
+  private updateTarget(state: StimulusState): void {
     if (state.target && this.targetGraphic) {
       this.targetGraphic.clear();
       this.targetGraphic.circle(state.target.x, state.target.y, this.TARGET_RADIUS);
@@ -297,14 +386,30 @@ export class TestRenderer {
     }
   }
 
-  private updateLayer2(state: StimulusState): void {
-    this.updateLayer1(state);
-  }
+  // =========================================================================
+  // REPLAY OVERLAY
+  // =========================================================================
 
-  private updateLayer3(state: StimulusState): void {
-    this.updateLayer2(state);
-    this.updateCooldownBar(state.cooldownProgress, state.cooldownReady);
-    this.updatePeripheral(state.peripheralFlash);
+  setReplayOverlay(overlay: ReplayOverlay | null): void {
+    if (!this.replayGraphic) this.replayGraphic = new PIXI.Graphics();
+    // Re-adding moves it above graphics created by layer changes
+    this.app.stage.addChild(this.replayGraphic);
+    const g = this.replayGraphic;
+    g.clear();
+    if (!overlay) return;
+
+    const drawPath = (pts: { x: number; y: number }[], color: number) => {
+      if (pts.length < 2) return;
+      g.moveTo(pts[0].x, pts[0].y);
+      for (let i = 1; i < pts.length; i++) g.lineTo(pts[i].x, pts[i].y);
+      g.stroke({ width: 2, color, alpha: 0.6 });
+    };
+    drawPath(overlay.targetPath, this.TARGET_COLOR);
+    drawPath(overlay.cursorPath, 0xffffff);
+    if (overlay.cursor) {
+      g.circle(overlay.cursor.x, overlay.cursor.y, 6);
+      g.fill(0xffffff);
+    }
   }
 
   // =========================================================================
@@ -381,6 +486,35 @@ export class TestRenderer {
     this.peripheralContainer.addChild(digitText);
   }
 
+  // =========================================================================
+  // N-BACK STREAM
+  // =========================================================================
+
+  private updateNBack(stim: StimulusState['nbackStimulus']): void {
+    if (this.nbackText) {
+      this.nbackText.text = stim && stim.modality === 'visual' ? NBACK_LETTERS[stim.item] : '';
+    }
+    // Audio items play once per onset (live runs only — replay is silent)
+    if (this.engine && stim?.modality === 'audio' && stim.onsetTime !== this.lastPlayedNBackOnset) {
+      this.lastPlayedNBackOnset = stim.onsetTime;
+      try { getAudioManager().playNBackItem(stim.item); } catch { /* audio not ready */ }
+    }
+  }
+
+  // =========================================================================
+  // PVT COUNTER
+  // =========================================================================
+
+  private updatePvt(counter: StimulusState['pvtCounter']): void {
+    if (!this.pvtText) return;
+    if (!counter) {
+      this.pvtText.text = '';
+      return;
+    }
+    const elapsed = (counter.stoppedAt ?? performance.now()) - counter.onsetTime;
+    this.pvtText.text = String(Math.max(0, Math.floor(elapsed))).padStart(3, '0');
+  }
+
   // =========================================================================
   // INTER-LAYER TRANSITION SCREEN
   // =========================================================================
@@ -392,34 +526,44 @@ export class TestRenderer {
     // Hide canvas content
     if (this.progressText) this.progressText.text = '';
 
-    // Build practice section based on next layer
+    // Build practice section from the components the next layer adds
+    const newAudio = info.newComponents.includes('audio');
+    const newPeripheral = info.newComponents.includes('peripheral');
+    const newCooldown = info.newComponents.includes('cooldown');
     let practiceHTML = '';
-    if (info.nextLayer === 2) {
-      practiceHTML = `
+    if (newAudio) {
+      const discrimination = this.config.audioResponseMode === 'discrimination';
+      const highKey = discrimination ? AUDIO_RESPONSE_KEYS.high.toUpperCase() : 'SPACE';
+      const lowKey = discrimination ? AUDIO_RESPONSE_KEYS.low.toUpperCase() : 'SPACE';
+      const toneHint = discrimination
+        ? `Press ${highKey} for the high tone and ${lowKey} for the low tone. Ignore the distractor (buzzy sound).`
+        : 'Press SPACE for the high or low tone. Ignore the distractor (buzzy sound).';
+      practiceHTML += `
         <div class="practice-section">
           <p class="practice-title">🎧 Practice: Listen to the tones</p>
-          <p class="practice-desc">Press SPACE for the high or low tone. Ignore the distractor (buzzy sound).</p>
+          <p class="practice-desc">${toneHint}</p>
           <div class="practice-buttons">
-            <button class="practice-tone-btn" data-tone="high" style="background:#1565c0">▶ High (respond)</button>
-            <button class="practice-tone-btn" data-tone="low" style="background:#6a1b9a">▶ Low (respond)</button>
+            <button class="practice-tone-btn" data-tone="high" style="background:#1565c0">▶ High (${highKey})</button>
+            <button class="practice-tone-btn" data-tone="low" style="background:#6a1b9a">▶ Low (${lowKey})</button>
             <button class="practice-tone-btn" data-tone="distractor" style="background:#c62828">▶ Distractor (ignore)</button>
           </div>
         </div>`;
-    } else if (info.nextLayer === 3) {
-      practiceHTML = `
+    }
+    if (newPeripheral || newCooldown) {
+      practiceHTML += `
         <div class="practice-section">
           <p class="practice-title">🎯 Practice: New mechanics</p>
-          <div style="margin-bottom:.75rem">
+          ${newPeripheral ? `<div style="margin-bottom:.75rem">
             <p style="color:#ff9800;font-size:.95rem;margin-bottom:.25rem">Peripheral numbers</p>
             <p class="practice-desc">Numbers flash at screen edges. Press the matching number key (0-9).</p>
             <div id="practice-periph" style="margin-top:.5rem;height:50px;display:flex;align-items:center;justify-content:center">
               <button id="show-periph" class="practice-tone-btn" style="background:#e65100">Show example</button>
             </div>
-          </div>
-          <div>
+          </div>` : ''}
+          ${newCooldown ? `<div>
             <p style="color:#4caf50;font-size:.95rem;margin-bottom:.25rem">Cooldown bar</p>
             <p class="practice-desc">A bar fills at the bottom of the screen. Press F when it turns green and pulses.</p>
-          </div>
+          </div>` : ''}
         </div>`;
     }
 
@@ -433,7 +577,7 @@ export class TestRenderer {
           Layer ${info.completedLayer} complete
         </div>
         
-        <h2>Up Next: Layer ${info.nextLayer}</h2>
+        <h2>Up Next: Layer ${info.nextLayer} — ${info.nextLayerName}</h2>
         <p class="inter-layer-desc">${info.description}</p>
 
         <div class="inter-layer-new">
@@ -550,14 +694,15 @@ export class TestRenderer {
     this.container.appendChild(this.interLayerOverlay);
 
     // Wire up practice buttons
-    if (info.nextLayer === 2) {
-      this.interLayerOverlay.querySelectorAll('.practice-tone-btn').forEach(btn => {
+    if (newAudio) {
+      this.interLayerOverlay.querySelectorAll('.practice-tone-btn[data-tone]').forEach(btn => {
         btn.addEventListener('click', () => {
           const tone = (btn as HTMLElement).dataset.tone as 'high' | 'low' | 'distractor';
           try { getAudioManager().play(tone); } catch {}
         });
       });
-    } else if (info.nextLayer === 3) {
+    }
+    if (newPeripheral) {
       const showPeriphBtn = this.interLayerOverlay.querySelector('#show-periph');
       const periphArea = this.interLayerOverlay.querySelector('#practice-periph');
       if (showPeriphBtn && periphArea) {
@@ -666,9 +811,18 @@ export class TestRenderer {
     this.app.canvas?.removeEventListener('click', this.boundOnClick);
     document.removeEventListener('keydown', this.boundOnKeyDown);
     document.removeEventListener('pointerlockchange', this.boundOnPointerLockChange);
-    document.removeEventListener('mousemove', this.boundOnMouseMove);
+    document.removeEventListener('pointermove', this.boundOnPointerMove);
+    window.removeEventListener('blur', this.boundOnFocusChange);
+    window.removeEventListener('focus', this.boundOnFocusChange);
+    document.removeEventListener('visibilitychange', this.boundOnFocusChange);
+    try {
+      this.app.ticker?.remove(this.onFrameStart, this);
+      this.app.ticker?.remove(this.onFrameRendered, this);
+    } catch { /* ticker already gone */ }
 
     this.cleanupLayerGraphics();
+    this.replayGraphic?.destroy();
+    this.replayGraphic = null;
 
     if (this.progressText) {
       try { this.app.stage.removeChild(this.progressText); } catch {}
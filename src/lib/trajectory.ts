@@ -0,0 +1,108 @@
+/**
+ * Target Trajectories for CLST
+ * Sum-of-sines forcing function for tracking layers — the standard in
+ * manual-control research. Each axis is a sum of non-harmonically related
+ * sinusoids: the motion looks unpredictable, but its spectrum is fixed by the
+ * settings, so tracking difficulty no longer depends on how random steering
+ * and wall bounces happened to play out.
+ *
+ * - Frequencies are prime multiples of BASE_FREQUENCY_HZ up to the bandwidth
+ *   (no component is a harmonic of another); x and y take alternate primes so
+ *   the two axes never share a frequency
+ * - Amplitudes fall off as 1/f (every component has the same peak velocity)
+ *   and sum to the configured fraction of the half-range, so the target can
+ *   never leave the screen and needs no bounces
+ * - Only the phases come from the seed: frequencies and amplitudes are the
+ *   same in every session with the same settings
+ */
+
+import type { TrajectorySettings } from '@/types';
+import type { SeededRandom } from './random';
+
+export const DEFAULT_TRAJECTORY: TrajectorySettings = { mode: 'sum_of_sines', bandwidthHz: 0.8, amplitude: 0.8 };
+
+export interface TrajectorySample {
+  x: number;
+  y: number;
+  /** Velocity, px/s */
+  vx: number;
+  vy: number;
+}
+
+interface SineComponent {
+  frequencyHz: number;
+  amplitude: number;   // px
+  phase: number;       // rad
+}
+
+export class SumOfSinesTrajectory {
+  /** Frequency grid: 50 s fundamental, components at prime multiples of it */
+  static readonly BASE_FREQUENCY_HZ = 0.02;
+  static readonly MIN_BANDWIDTH_HZ = 0.1;
+  static readonly MAX_BANDWIDTH_HZ = 3;
+
+  private x: SineComponent[];
+  private y: SineComponent[];
+  private centerX: number;
+  private centerY: number;
+
+  constructor(
+    settings: TrajectorySettings,
+    bounds: { width: number; height: number; margin: number },
+    rng: SeededRandom
+  ) {
+    const { x, y } = SumOfSinesTrajectory.frequencies(settings.bandwidthHz);
+    const amplitude = Math.max(0, Math.min(1, settings.amplitude));
+    this.centerX = bounds.width / 2;
+    this.centerY = bounds.height / 2;
+    this.x = SumOfSinesTrajectory.components(x, amplitude * (this.centerX - bounds.margin), rng);
+    this.y = SumOfSinesTrajectory.components(y, amplitude * (this.centerY - bounds.margin), rng);
+  }
+
+  /**
+   * Component frequencies per axis for a bandwidth (clamped to
+   * MIN/MAX_BANDWIDTH_HZ). Seed-independent — analysis code can recover them
+   * from the session's config snapshot.
+   */
+  static frequencies(bandwidthHz: number): { x: number[]; y: number[] } {
+    const bw = Math.max(SumOfSinesTrajectory.MIN_BANDWIDTH_HZ, Math.min(SumOfSinesTrajectory.MAX_BANDWIDTH_HZ, bandwidthHz));
+    const maxMultiple = Math.floor(bw / SumOfSinesTrajectory.BASE_FREQUENCY_HZ + 1e-9);
+    const x: number[] = [], y: number[] = [];
+    SumOfSinesTrajectory.primesUpTo(maxMultiple).forEach((p, i) => {
+      (i % 2 === 0 ? x : y).push(p * SumOfSinesTrajectory.BASE_FREQUENCY_HZ);
+    });
+    return { x, y };
+  }
+
+  /** Position and velocity `t` seconds into the layer */
+  at(t: number): TrajectorySample {
+    const axis = (components: SineComponent[]) => {
+      let p = 0, v = 0;
+      for (const c of components) {
+        const w = 2 * Math.PI * c.frequencyHz;
+        p += c.amplitude * Math.sin(w * t + c.phase);
+        v += c.amplitude * w * Math.cos(w * t + c.phase);
+      }
+      return { p, v };
+    };
+    const ax = axis(this.x), ay = axis(this.y);
+    return { x: this.centerX + ax.p, y: this.centerY + ay.p, vx: ax.v, vy: ay.v };
+  }
+
+  private static components(frequencies: number[], peak: number, rng: SeededRandom): SineComponent[] {
+    const norm = frequencies.reduce((s, f) => s + 1 / f, 0);
+    return frequencies.map(f => ({
+      frequencyHz: f,
+      amplitude: norm > 0 ? peak * (1 / f) / norm : 0,
+      phase: rng.next() * 2 * Math.PI
+    }));
+  }
+
+  private static primesUpTo(n: number): number[] {
+    const primes: number[] = [];
+    for (let k = 2; k <= n; k++) {
+      if (primes.every(p => k % p !== 0)) primes.push(k);
+    }
+    return primes;
+  }
+}
@@ -6,6 +6,7 @@
 import { MainApp } from '@/views/MainApp';
 import { db } from '@/lib/database';
 import { getAudioManager } from '@/lib/audioManager';
+import type { SessionConfig } from '@/types';
 
 // Styles
 import '@/assets/styles/base.css';
@@ -98,5 +99,41 @@ window.addEventListener('focus', () => {
   // Could resume test
 });
 
+// Developer hook (dev builds only): fill the database with synthetic history
+// for dashboard work, e.g. `await clstDev.seedHistory(90)` in the console.
+// Meant for an empty database — the simulator scores against its own history.
+if (import.meta.env.DEV) {
+  (window as any).clstDev = {
+    async seedHistory(days: number = 90, severityAt?: (index: number) => number): Promise<void> {
+      const { SessionSimulator, DEFAULT_PARTICIPANT } = await import('@/lib/simulator');
+      const { ProtocolManager } = await import('@/lib/protocol');
+      const { ScoringEngine } = await import('@/lib/scoringEngine');
+      const stored = await db.getConfig('session_config');
+      const config: SessionConfig = stored ? JSON.parse(stored) : {
+        mouseDPI: 800, applicationSens: 1, eDPI: 800,
+        monitorResolution: { width: window.screen.width, height: window.screen.height },
+        monitorRefreshRate: 60, audioDevice: 'default', audioVolume: 0.7, difficulty: 'standard'
+      };
+      const protocol = ProtocolManager.resolve(config.protocolId, await db.getCustomProtocols());
+      await new SessionSimulator({ config, protocol }).runHistory({
+        sessions: days,
+        modelAt: i => SessionSimulator.degrade(DEFAULT_PARTICIPANT, severityAt?.(i) ?? 0),
+        onSession: async ({ session, layerMetrics, metricValues, trials }) => {
+          await db.saveSession(session);
+          for (const m of layerMetrics) await db.saveLayerMetrics(m);
+          await db.saveMetricValues(metricValues);
+          await db.saveTrials(trials);
+        }
+      });
+      for (const l of protocol.layers) {
+        for (const n of ScoringEngine.getMetricNames(l)) {
+          await db.updateRollingBaseline(n, l.id, 20, ScoringEngine.baselineScope(protocol));
+        }
+      }
+      console.log(`Seeded ${days} simulated sessions`);
+    }
+  };
+}
+
 // Start
 bootstrap();
@@ -24,6 +24,71 @@ export interface SessionConfig {
   audioVolume: number;
   difficulty: 'casual' | 'standard' | 'intense' | 'custom';
   difficultyParams?: DifficultyParams;
+  /** 'canonical' replays the fixed CANONICAL_SEED so sessions are directly comparable */
+  seedMode?: 'random' | 'canonical';
+  /** Stimulus schedule seed — set on the session's configSnapshot, not on saved config */
+  seed?: number;
+  /** Battery to run (built-in id or imported custom protocol id) */
+  protocolId?: string;
+  /**
+   * 'detection' answers high and low tones with SPACE; 'discrimination' maps
+   * them to separate keys (AUDIO_RESPONSE_KEYS) so accuracy and d′ can be scored
+   */
+  audioResponseMode?: AudioResponseMode;
+  /**
+   * Optional working-memory stream added to the full-load layer
+   * (see ProtocolManager.withNBack); null / absent = off
+   */
+  nback?: NBackSettings | null;
+  /** Target motion on tracking layers; absent = random steering */
+  trajectory?: TrajectorySettings;
+  /**
+   * Output latency the browser doesn't report, ms per audioDevice, from the
+   * tap-along calibration (AudioCalibration); absent device = 0
+   */
+  audioLatencyCalibration?: Record<string, number>;
+  /** Thresholds of the session validity check; absent = DEFAULT_VALIDITY_RULES */
+  validityRules?: ValidityRules;
+}
+
+/**
+ * Limits of the session validity check (SessionValidator). Each broken rule
+ * is a flag that costs validity score; a session scoring below
+ * minValidityScore is saved as 'invalid'.
+ */
+export interface ValidityRules {
+  /** Times the window may lose focus (or the page be hidden) while a layer runs */
+  maxFocusLosses: number;
+  /** Times pointer lock may be lost during a tracking layer */
+  maxPointerLockLosses: number;
+  /** Fewest responses a layer with stimuli must get */
+  minResponsesPerLayer: number;
+  /** Largest share of a layer's responses that may be anticipations (0–1) */
+  maxAnticipationRatio: number;
+  maxSystemStalls: number;
+  maxDroppedEvents: number;
+  /** 0–100 */
+  minValidityScore: number;
+}
+
+/**
+ * 'steering' is the original random steering with wall bounces;
+ * 'sum_of_sines' a seeded sum of non-harmonic sinusoids (see trajectory.ts)
+ */
+export interface TrajectorySettings {
+  mode: 'steering' | 'sum_of_sines';
+  /** Highest component frequency, Hz (sum_of_sines only) */
+  bandwidthHz: number;
+  /** Peak excursion as a fraction (0–1] of the distance from screen centre to edge (sum_of_sines only) */
+  amplitude: number;
+}
+
+export type AudioResponseMode = 'detection' | 'discrimination';
+
+/** N-back stream: match the item shown / played n steps back */
+export interface NBackSettings {
+  n: 1 | 2;
+  modality: 'visual' | 'audio';
 }
 
 export interface DifficultyParams {
@@ -35,6 +100,58 @@ export interface DifficultyParams {
   cooldownInterval: number;
 }
 
+// =============================================================================
+// PROTOCOL DEFINITIONS (Section 3)
+// =============================================================================
+
+/** Task components a layer can switch on */
+export type LayerComponent = 'simple_rt' | 'go_nogo' | 'tracking' | 'audio' | 'peripheral' | 'cooldown' | 'nback' | 'pvt';
+
+/**
+ * 'battery' sessions feed LPI / DC / CRS history; 'pvt' sessions are scored
+ * against their own per-variant baselines and never get a CRS
+ */
+export type SessionType = 'battery' | 'pvt';
+
+/**
+ * 'completed' sessions ran to the end; 'aborted' ones were stopped early
+ * (ESC, or the app died) and keep metrics for their completed layers only;
+ * 'invalid' ones finished but are not to be trusted. Only completed sessions
+ * are scored and enter calibration counts and baselines.
+ */
+export type SessionStatus = 'completed' | 'aborted' | 'invalid';
+
+/**
+ * One layer of a battery. `id` is the canonical layer number: it is what raw
+ * events, layer_metrics, baselines and weight profile keys (`L${id}`) use, so
+ * a shortened battery that skips a layer still compares against the same history.
+ */
+export interface LayerDefinition {
+  id: number;
+  name: string;
+  /** Short label for the ready screen */
+  summary: string;
+  durationSeconds: number;
+  components: LayerComponent[];
+  /** N-back level and modality (only read when components include 'nback') */
+  nback?: NBackSettings;
+  instructions: {
+    description: string;
+    newElements: string[];
+    controls: { key: string; action: string }[];
+  };
+}
+
+/** Ordered battery of layers (JSON-serializable, see src/protocols/) */
+export interface ProtocolDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  /** Defaults to 'battery'; 'pvt' protocols may only contain pvt layers */
+  sessionType?: SessionType;
+  layers: LayerDefinition[];
+}
+
 // =============================================================================
 // PRE-SESSION CHECK-IN (Section 4)
 // =============================================================================
@@ -59,13 +176,21 @@ export interface RawEvent {
   sessionId: string;
   layer: number;
   eventType:
+    | 'layer_start'
     | 'stimulus_onset'
+    | 'go_stimulus'
+    | 'nogo_stimulus'
     | 'click'
     | 'keypress'
     | 'cursor_pos'
+    | 'cursor_sample'
     | 'audio_cue'
     | 'cooldown_ready'
-    | 'peripheral_flash';
+    | 'peripheral_flash'
+    | 'nback_stimulus'
+    | 'pvt_stimulus'
+    | 'focus_change'
+    | 'pointer_lock_change';
   timestampUs: number;
   data: {
     x?: number;
@@ -82,14 +207,100 @@ export interface RawEvent {
     tone?: 'high' | 'low' | 'distractor';
     direction?: 'up' | 'down' | 'left' | 'right';
     digit?: number;
+    item?: number;
+    isTarget?: boolean;
+    /** focus_change: window focused and page visible */
+    focused?: boolean;
+    /** pointer_lock_change */
+    locked?: boolean;
     [key: string]: any;
   };
 }
 
+// =============================================================================
+// TRIALS
+// =============================================================================
+
+export type TrialKind = 'simple_rt' | 'go' | 'nogo' | 'audio' | 'distractor' | 'cooldown' | 'peripheral' | 'nback' | 'pvt';
+
+/** What happened on a trial; RT cut-offs (anticipation, lapse) are left to the aggregates */
+export type TrialOutcome = 'hit' | 'miss' | 'false_alarm' | 'correct_rejection' | 'wrong_key' | 'false_start';
+
+/** One stimulus and the response matched to it (MetricsCalculator.extractTrials) */
+export interface TrialRecord {
+  sessionId: string;
+  layer: number;
+  /** Position within the layer, in onset order */
+  trialIndex: number;
+  kind: TrialKind;
+  /** Presentation time; null for a PVT press no stimulus owned */
+  onsetUs: number | null;
+  /** Input dispatch time of the matched response */
+  responseUs: number | null;
+  rtMs: number | null;
+  outcome: TrialOutcome;
+  responseKey: string | null;
+  /** The stimulus event's data (tone, digit, isTarget, ...) */
+  stimulus: RawEvent['data'];
+  /** Left out of the layer aggregates by an analyst */
+  excluded: boolean;
+}
+
 // =============================================================================
 // COMPUTED METRICS (Section 5 / Section 10.1)
 // =============================================================================
 
+/** One frequency bin of the target → cursor transfer function */
+export interface TrackingSpectrumPoint {
+  frequencyHz: number;
+  gain: number;
+  /** Unwrapped phase lag, degrees (positive = cursor behind target) */
+  phaseLagDeg: number;
+  coherence: number;
+}
+
+export interface TrackingTransferFunction {
+  /** Bins with usable target power, ascending frequency (for Bode plots) */
+  points: TrackingSpectrumPoint[];
+  bands: Record<'low' | 'mid' | 'high', { gain: number; phaseLagDeg: number }>;
+  timeDelayMs: number | null;
+  coherence: number;
+  remnant: number;
+}
+
+/** Ex-Gaussian fit of an RT distribution (Statistics.exGaussianFit), ms */
+export interface ExGaussianFit {
+  /** Mean of the Gaussian component */
+  mu: number;
+  sigma: number;
+  /** Mean of the exponential tail — grows with attentional lapses */
+  tau: number;
+  logLikelihood: number;
+  /** Kolmogorov–Smirnov distance, fitted vs empirical CDF (0 = perfect) */
+  ksD: number;
+  n: number;
+}
+
+/** One time-on-task bin; null where the bin had nothing to measure */
+export interface TimeOnTaskBin {
+  /** Bin start, seconds from layer start */
+  startS: number;
+  trackingError: number | null;
+  /** Mean RT of the responses to stimuli shown in the bin, ms */
+  meanRT: number | null;
+  /** Unanswered fraction of the stimuli that needed a response */
+  missRate: number | null;
+}
+
+/** Within-layer series (MetricsCalculator.timeOnTask); slopes are per minute of layer time */
+export interface TimeOnTaskSeries {
+  binSeconds: number;
+  bins: TimeOnTaskBin[];
+  trackingErrorSlope: number | null;
+  rtSlope: number | null;
+  missRateSlope: number | null;
+}
+
 export interface LayerMetrics {
   sessionId: string;
   layer: number;
@@ -100,34 +311,179 @@ export interface LayerMetrics {
   rtStd?: number;
   anticipationCount?: number;
   lapseCount?: number;
+  // Ex-Gaussian fit of the valid RTs (ms); fitD = KS distance of the fit
+  rtMu?: number;
+  rtSigma?: number;
+  rtTau?: number;
+  rtFitD?: number;
+
+  // Go/No-Go inhibition
+  meanGoRT?: number;
+  /** Responded to a no-go stimulus, fraction of no-go trials */
+  commissionRate?: number;
+  /** No response to a go stimulus, fraction of go trials */
+  omissionRate?: number;
 
   // Layer 1+: Tracking
   meanTrackingError?: number;
   trackingErrorVariance?: number;
   meanJerk?: number;
   overshootRate?: number;
+  // Tracking, frequency domain (target → cursor transfer function)
+  trackingGainLow?: number;
+  trackingGainMid?: number;
+  trackingGainHigh?: number;
+  /** Phase lag of the cursor behind the target, degrees */
+  trackingPhaseLagLow?: number;
+  trackingPhaseLagMid?: number;
+  trackingPhaseLagHigh?: number;
+  /** Effective time delay from the phase-lag slope, ms */
+  trackingTimeDelay?: number;
+  /** Target-power-weighted mean coherence (0–1) */
+  trackingCoherence?: number;
+  /** Fraction of cursor power not linearly related to the target (0–1) */
+  trackingRemnant?: number;
 
   // Layer 2+: Audio
   meanAudioRT?: number;
   audioAccuracy?: number;
   audioFalsePositives?: number;
   meanPRPDuration?: number;
+  audioRTMu?: number;
+  audioRTSigma?: number;
+  audioRTTau?: number;
+  audioRTFitD?: number;
+
+  // Audio discrimination mode only (high / low on separate keys)
+  discriminationAccuracy?: number;
+  wrongKeyErrors?: number;
+  /** Sensitivity for high vs low (log-linear corrected) */
+  dPrime?: number;
+  /** Response bias c; negative = leaning towards the high-tone key */
+  criterion?: number;
 
   // Layer 3: Full load
   meanCooldownDelay?: number;
   cooldownMissCount?: number;
   meanPeripheralRT?: number;
   peripheralMissRate?: number;
+  peripheralRTMu?: number;
+  peripheralRTSigma?: number;
+  peripheralRTTau?: number;
+  peripheralRTFitD?: number;
+
+  // N-back working-memory stream
+  nbackHitRate?: number;
+  nbackFalseAlarmRate?: number;
+  /** Sensitivity for match vs non-match (log-linear corrected) */
+  nbackDPrime?: number;
+  meanNBackRT?: number;
+
+  // Psychomotor Vigilance Test (standalone PVT sessions)
+  /** Mean response speed, 1000 / RT (1/s); timeouts and false starts excluded */
+  pvtMeanSpeed?: number;
+  /** RT ≥ 500 ms, including stimuli that timed out */
+  pvtLapses?: number;
+  /** Presses with no stimulus on screen or RT < 100 ms */
+  pvtFalseStarts?: number;
+  /** Mean RT of the fastest 10 % of responses, ms */
+  pvtFastest10RT?: number;
+  /** Mean speed (1/s) of the slowest 10 % of responses */
+  pvtSlowest10Speed?: number;
+  /** Time-on-task slope of RT, ms per minute (least squares) */
+  pvtSlope?: number;
+
+  // Time on task (binned within the layer)
+  timeOnTask?: TimeOnTaskSeries;
+  /** px per minute */
+  trackingErrorSlope?: number;
+  /** ms per minute */
+  rtSlope?: number;
+  /** Miss-rate change per minute */
+  missRateSlope?: number;
+
+  // Dual-task cost, on the layer that added tasks: % change of the raw metric
+  // vs the previous layer that measured it (MetricsCalculator.withDualTaskCosts)
+  trackingCost?: number;
+  audioRTCost?: number;
+  /** Mean of this layer's costs, each divided by the number of tasks added */
+  costPerTask?: number;
+}
+
+// =============================================================================
+// METRIC REGISTRY (long-format metric values)
+// =============================================================================
+
+/** How a metric value is displayed (fractions render as %) */
+export type MetricUnit =
+  | 'ms' | 'px' | 'fraction' | 'count' | 'number' | 'ratio' | 'degrees'
+  | 'per_second' | 'per_minute' | 'percent_change'
+  | 'ms_per_minute' | 'px_per_minute' | 'fraction_per_minute';
+
+/** What a metric's compute function sees for one layer of one session */
+export interface MetricContext {
+  layer: LayerDefinition;
+  /** MetricsCalculator output for the layer (dual-task costs included) */
+  metrics: LayerMetrics;
+  /** The layer's scored (non-excluded) trials */
+  trials: TrialRecord[];
+}
+
+export interface MetricDefinition {
+  /** Stable key: metric_values.metric, baseline metric_name and weight-profile key */
+  name: string;
+  label: string | ((layer: LayerDefinition) => string);
+  unit: MetricUnit;
+  /** Decimal places shown; defaults by unit */
+  decimals?: number;
+  /** Components that yield the metric; empty = any layer */
+  components: LayerComponent[];
+  higherIsBetter: boolean;
+  /** LPI candidate — scored metrics also get rolling baselines */
+  scored: boolean;
+  /** Result cards: 'always' (— when missing), only when 'present', or 'never' */
+  display: 'always' | 'present' | 'never';
+  compute: (ctx: MetricContext) => number | undefined;
+}
+
+/** One row of the metric_values table */
+export interface MetricValue {
+  sessionId: string;
+  layer: number;
+  metric: string;
+  value: number;
 }
 
 // =============================================================================
 // SESSION DATA (Section 7)
 // =============================================================================
 
+/** Gap between the browser dispatching an input and the engine handling it */
+export interface InputLagReport {
+  count: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+/** Delay from the engine recording a visual onset to the frame showing it; sdMs is the jitter */
+export interface OnsetJitterReport {
+  count: number;
+  meanMs: number;
+  sdMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
 export interface Session {
   id: string;
   timestamp: Date;
+  sessionType: SessionType;
   configSnapshot: SessionConfig;
+  /** Protocol the session was run with (snapshot, so later edits don't change history) */
+  protocol: ProtocolDefinition;
+  /** LPI per layer id — lpi0..lpi3 mirror the first four */
+  lpis: Record<number, number | null>;
   lpi0: number | null;
   lpi1: number | null;
   lpi2: number | null;
@@ -139,6 +495,71 @@ export interface Session {
   checkinId: string | null;
   profileId: string;
   systemStalls: number;
+  /** Null when no response carried a dispatch timestamp (older sessions, simulator) */
+  inputLag: InputLagReport | null;
+  /** Null when no onset was stamped with its presentation time */
+  onsetJitter: OnsetJitterReport | null;
+  /** MetricsCalculator.PIPELINE_VERSION that produced the metrics and scores; null before versioning */
+  pipelineVersion: number | null;
+  /** Events lost to a full event buffer during the test */
+  droppedEvents: number;
+  status: SessionStatus;
+  /** Set for aborted sessions */
+  abort: SessionAbort | null;
+  /** Null for sessions saved before validity checks existed */
+  validity: SessionValidity | null;
+}
+
+export type ValidityRule =
+  | 'focus_loss'
+  | 'pointer_lock_loss'
+  | 'low_responses'
+  | 'anticipations'
+  | 'system_stalls'
+  | 'dropped_events';
+
+/** One broken validity rule */
+export interface ValidityFlag {
+  rule: ValidityRule;
+  /** Null for session-wide rules (stalls, dropped events) */
+  layer: number | null;
+  value: number;
+  limit: number;
+  message: string;
+}
+
+/** Result of SessionValidator.validate */
+export interface SessionValidity {
+  /** 100 = no flags */
+  score: number;
+  flags: ValidityFlag[];
+}
+
+/** Where and why a test was stopped early */
+export interface SessionAbort {
+  /** Layer running when the test stopped; null when unknown */
+  layer: number | null;
+  /** Seconds since the test started; null when unknown (app closed or crashed) */
+  elapsedSeconds: number | null;
+  reason: string | null;
+}
+
+/**
+ * A test in progress (database session_journal). Written when the test
+ * starts and after each layer whose events are safely spooled; removed when
+ * the session is saved or discarded. One left over at startup means the app
+ * died mid-test.
+ */
+export interface SessionJournal {
+  sessionId: string;
+  startedAt: Date;
+  protocol: ProtocolDefinition;
+  configSnapshot: SessionConfig;
+  checkinId: string | null;
+  /** Layer ids whose events are all in the event spool, in completion order */
+  completedLayers: number[];
+  systemStalls: number;
+  droppedEvents: number;
 }
 
 // =============================================================================
@@ -166,17 +587,11 @@ export interface WeightProfile {
   isCustom: boolean;
   weights: {
     alpha: number;
-    L0: { rt: number; rt_variance: number };
-    L1: { track_error: number; track_variance: number; jerk: number; overshoot: number };
-    L2: { track_error: number; audio_rt: number; audio_accuracy: number; prp: number };
-    L3: {
-      track_error: number;
-      audio_rt: number;
-      prp: number;
-      cooldown: number;
-      periph_rt: number;
-      periph_miss: number;
-    };
+    /**
+     * Metric weights per layer, keyed by `L${LayerDefinition.id}`.
+     * Layers without an entry are scored with equal weights.
+     */
+    [layerKey: `L${number}`]: Record<string, number>;
   };
 }
 
@@ -185,7 +600,10 @@ export interface WeightProfile {
 // =============================================================================
 
 export interface TestState {
+  /** Layer id (LayerDefinition.id) */
   currentLayer: number;
+  /** Components active in the current layer */
+  components: LayerComponent[];
   layerStartTime: number;
   layerDuration: number;
   isRunning: boolean;
@@ -202,6 +620,13 @@ export interface StimulusState {
     onsetTime: number;
   } | null;
 
+  goNoGoStimulus: {
+    kind: 'go' | 'nogo';
+    x: number;
+    y: number;
+    onsetTime: number;
+  } | null;
+
   target: {
     x: number;
     y: number;
@@ -224,6 +649,29 @@ export interface StimulusState {
     digit: number;
     onsetTime: number;
   } | null;
+
+  /** Current n-back item (index into NBACK_LETTERS / the audio pitch set) */
+  nbackStimulus: {
+    item: number;
+    modality: 'visual' | 'audio';
+    onsetTime: number;
+  } | null;
+
+  /** PVT millisecond counter: runs from onsetTime until stoppedAt, then shows the RT as feedback */
+  pvtCounter: {
+    onsetTime: number;
+    stoppedAt: number | null;
+  } | null;
+}
+
+/**
+ * Replay-only drawing on top of the reconstructed stimulus state
+ * (positions in monitor pixels, oldest point first)
+ */
+export interface ReplayOverlay {
+  cursor: { x: number; y: number } | null;
+  cursorPath: { x: number; y: number }[];
+  targetPath: { x: number; y: number }[];
 }
 
 /**
@@ -232,12 +680,27 @@ export interface StimulusState {
 export interface InterLayerInfo {
   completedLayer: number;
   nextLayer: number;
+  nextLayerName: string;
+  /** Components the next layer adds (drives the practice section) */
+  newComponents: LayerComponent[];
   description: string;
   newElements: string[];
   controls: { key: string; action: string }[];
   cooldownSeconds: number;
 }
 
+/**
+ * Where TestEngine.stop() interrupted a running test (passed to onAbort)
+ */
+export interface AbortPoint {
+  /** Layer running, or the one just finished when stopped between layers */
+  layer: number;
+  /** Seconds since the test started */
+  elapsedSeconds: number;
+  /** Layers that ran to the end, in protocol order */
+  completedLayers: number[];
+}
+
 // =============================================================================
 // UTILITY TYPES
 // =============================================================================
@@ -1,18 +1,37 @@
 /**
  * Main Application View for CLST
- * Features: notes, tags, export-all, correlation insights, dark/light mode, session comparison, trend chart
+ * Features: notes, tags, export-all, correlation insights, dark/light mode, session comparison, trend chart,
+ * PVT sessions, aborted-test saving and recovery, session validity checks
  */
 
 import * as d3 from 'd3';
 import { TestEngine } from '@/lib/testEngine';
 import { getAudioManager } from '@/lib/audioManager';
+import { AudioCalibration } from '@/lib/audioCalibration';
 import { db } from '@/lib/database';
 import { MetricsCalculator } from '@/lib/metricsCalculator';
+import { BackgroundMetrics } from '@/lib/backgroundMetrics';
+import { MetricRegistry } from '@/lib/metricRegistry';
+import { Recompute, type RecomputeProgress, type RecomputeReport } from '@/lib/recompute';
 import { ScoringEngine } from '@/lib/scoringEngine';
+import { SessionValidator, DEFAULT_VALIDITY_RULES } from '@/lib/sessionValidator';
 import { Statistics } from '@/lib/statistics';
-import type { SessionConfig, Session, LayerMetrics, BaselineStats, WeightProfile, InterLayerInfo } from '@/types';
+import { ProtocolManager, AUDIO_RESPONSE_KEYS, NBACK_MATCH_KEY } from '@/lib/protocol';
+import { DEFAULT_TRAJECTORY, SumOfSinesTrajectory } from '@/lib/trajectory';
+import type { SessionConfig, AudioResponseMode, Session, LayerMetrics, BaselineStats, InterLayerInfo, ProtocolDefinition, LayerDefinition, TrackingTransferFunction, TrialRecord, SessionJournal, SessionAbort, SessionStatus, AbortPoint, RawEvent, MetricValue, TimeOnTaskSeries, TimeOnTaskBin } from '@/types';
 
-type AppState = 'config' | 'checkin' | 'ready' | 'test' | 'results' | 'dashboard';
+type AppState = 'config' | 'checkin' | 'pvt' | 'ready' | 'test' | 'results' | 'dashboard' | 'recover' | 'abort';
+
+/** Reasons offered when a test is stopped with ESC */
+const ABORT_REASONS = ['Interrupted', 'Felt unwell', 'Too tired to continue', 'Technical problem', 'Other'];
+/** Reason recorded for a test recovered at startup */
+const RECOVERED_ABORT_REASON = 'App closed or crashed';
+
+/** Layer metrics (MetricRegistry names) offered in the trend chart, one option per layer with values */
+const TREND_LAYER_METRICS: Array<{ label: string; metrics: string[] }> = [
+  { label: 'RT \u03c4 (ex-Gaussian tail, ms)', metrics: ['rt_tau', 'audio_rt_tau', 'peripheral_rt_tau'] },
+  { label: 'Dual-Task Cost (%)', metrics: ['track_cost', 'audio_rt_cost', 'cost_per_task'] }
+];
 
 export class MainApp {
   private container: HTMLElement;
@@ -23,9 +42,21 @@ export class MainApp {
   private currentSessionId: string | null = null;
   private currentCheckinId: string | null = null;
   private sessionConfig: SessionConfig | null = null;
+  private protocol: ProtocolDefinition = ProtocolManager.getDefault();
+  /** PVT variant picked from the PVT menu; null = the configured battery protocol */
+  private pvtProtocolId: string | null = null;
+  /** Unfinished test found at startup, shown by the recovery screen */
+  private recoveryJournal: SessionJournal | null = null;
+  /** Journal of the test in progress */
+  private activeJournal: SessionJournal | null = null;
+  /** Test stopped with ESC, waiting for the abort prompt */
+  private abortedTest: { engine: TestEngine; point: AbortPoint } | null = null;
   private injectedStyles: HTMLStyleElement[] = [];
   private darkMode = false;
   private comparisonIds = new Set<string>();
+  /** Battery metric values and rolling baselines behind the layer-metric trends */
+  private trendValues: MetricValue[] = [];
+  private trendBaselines = new Map<string, BaselineStats>();
 
   constructor(container: HTMLElement) { this.container = container; }
 
@@ -33,7 +64,14 @@ export class MainApp {
     this.darkMode = (await db.getConfig('dark_mode')) === 'true';
     this.applyTheme();
     this.createMainUI();
-    await this.showState((await db.getSessionCount()) === 0 ? 'config' : 'checkin');
+    await this.showState(await this.initialState());
+  }
+
+  /** Where the app opens: an unfinished test first, then first-run config or check-in */
+  private async initialState(): Promise<AppState> {
+    this.recoveryJournal = await db.getOpenJournal();
+    if (this.recoveryJournal) return 'recover';
+    return (await db.getSessionCount()) === 0 ? 'config' : 'checkin';
   }
 
   private applyTheme(): void { document.documentElement.classList.toggle('dark', this.darkMode); }
@@ -47,10 +85,11 @@ export class MainApp {
   private createMainUI(): void {
     this.container.innerHTML = `<div class="clst-app">
       <header class="app-header"><div class="app-title"><h1>CLST</h1><span class="app-subtitle">Cognitive Load Stress Test</span></div>
-        <nav class="app-nav"><button id="nav-dashboard" class="nav-button">\ud83d\udcca Dashboard</button><button id="nav-settings" class="nav-button">\u2699\ufe0f Settings</button><button id="theme-toggle" class="nav-button">${this.darkMode?'\u2600\ufe0f Light':'\ud83c\udf19 Dark'}</button></nav>
+        <nav class="app-nav"><button id="nav-pvt" class="nav-button">\u23f1 PVT</button><button id="nav-dashboard" class="nav-button">\ud83d\udcca Dashboard</button><button id="nav-settings" class="nav-button">\u2699\ufe0f Settings</button><button id="theme-toggle" class="nav-button">${this.darkMode?'\u2600\ufe0f Light':'\ud83c\udf19 Dark'}</button></nav>
       </header><main class="app-content" id="app-content"></main>
       <footer class="app-footer"><span class="app-version">v0.3.0</span></footer></div>`;
     this.contentContainer = document.getElementById('app-content');
+    document.getElementById('nav-pvt')?.addEventListener('click', () => this.showState('pvt'));
     document.getElementById('nav-dashboard')?.addEventListener('click', () => this.showState('dashboard'));
     document.getElementById('nav-settings')?.addEventListener('click', () => this.showState('config'));
     document.getElementById('theme-toggle')?.addEventListener('click', () => this.toggleTheme());
@@ -61,10 +100,13 @@ export class MainApp {
     switch (state) {
       case 'config': await this.showConfiguration(); break;
       case 'checkin': await this.showCheckin(); break;
+      case 'pvt': await this.showPvtMenu(); break;
       case 'ready': await this.showReadyScreen(); break;
       case 'test': await this.startTest(); break;
       case 'results': await this.showResults(); break;
       case 'dashboard': await this.showDashboard(); break;
+      case 'recover': await this.showRecovery(); break;
+      case 'abort': await this.showAbort(); break;
     }
   }
 
@@ -83,6 +125,15 @@ export class MainApp {
   private async showConfiguration(): Promise<void> {
     if (!this.contentContainer) return;
     const ex = await this.loadConfig();
+    const protocols = [...ProtocolManager.listBuiltinOfType('battery'), ...(await db.getCustomProtocols()).filter(p => ProtocolManager.sessionType(p) === 'battery')];
+    const pid = ex?.protocolId || ProtocolManager.getDefault().id;
+    // New setups default to sum-of-sines; existing ones keep steering until changed (history stays comparable)
+    const tr = ex?.trajectory ?? (ex ? { ...DEFAULT_TRAJECTORY, mode: 'steering' as const } : DEFAULT_TRAJECTORY);
+    // Latency calibration is kept per output device: keep the configured one selected if it's still there
+    const outputs = await this.audioOutputs();
+    const device = outputs.some(o => o.deviceId === ex?.audioDevice) ? ex!.audioDevice : outputs[0]?.deviceId ?? 'default';
+    const residual = ex?.audioLatencyCalibration?.[device];
+    const vr = { ...DEFAULT_VALIDITY_RULES, ...ex?.validityRules };
     this.contentContainer.innerHTML = `<div class="config-container"><h2>Configuration</h2>
       <form id="config-form" class="config-form"><div class="config-section"><h3>Hardware</h3>
         <div class="form-group"><label>Mouse DPI</label><input type="number" id="mouse-dpi" value="${ex?.mouseDPI||800}" min="100" max="25600" step="100" required></div>
@@ -91,9 +142,31 @@ export class MainApp {
         <div class="form-group"><label>Height (px)</label><input type="number" id="monitor-height" value="${ex?.monitorResolution?.height||screen.height}" required></div>
         <div class="form-group"><label>Refresh Rate</label><select id="refresh-rate">${[60,75,120,144,165,240].map(r=>`<option value="${r}" ${ex?.monitorRefreshRate===r?'selected':''}>${r}Hz</option>`).join('')}</select></div>
         <div class="form-group"><label>Volume</label><input type="range" id="audio-volume" min="0" max="1" step="0.1" value="${ex?.audioVolume??0.5}"><span id="vol-d">${((ex?.audioVolume??0.5)*100).toFixed(0)}%</span>
-          <button type="button" id="test-sound" class="btn btn-secondary" style="margin-top:.5rem;padding:.4rem .8rem;font-size:.8rem">🔊 Test Sound</button></div></div>
+          <button type="button" id="test-sound" class="btn btn-secondary" style="margin-top:.5rem;padding:.4rem .8rem;font-size:.8rem">🔊 Test Sound</button></div>
+        <div class="form-group"><label>Output Device</label><select id="audio-device">${outputs.length ? outputs.map(o=>`<option value="${o.deviceId}" ${o.deviceId===device?'selected':''}>${o.label||'Audio Device'}</option>`).join('') : '<option value="default">Default Audio Device</option>'}</select></div>
+        <div class="form-group"><label>Audio Latency</label><button type="button" id="calibrate-audio" class="btn btn-secondary" style="padding:.4rem .8rem;font-size:.8rem">🥁 Tap-Along Calibration</button>
+          <span id="latency-msg" style="font-size:.8rem;margin-left:.5rem">${residual!=null?`Residual ${residual.toFixed(0)} ms`:'Not calibrated'}</span><input type="hidden" id="audio-residual" value="${residual??''}"></div>
+        <div class="form-group"><label>Tone Response</label><select id="audio-mode">
+          <option value="detection">Detection — SPACE for high or low</option><option value="discrimination" ${ex?.audioResponseMode==='discrimination'?'selected':''}>Discrimination — ${AUDIO_RESPONSE_KEYS.high.toUpperCase()} for high, ${AUDIO_RESPONSE_KEYS.low.toUpperCase()} for low</option></select></div>
+        <div class="form-group"><label>Working Memory (Full Load)</label><select id="nback-mode"><option value="off">Off</option>${([1,2] as const).flatMap(n=>(['visual','audio'] as const).map(mod=>`<option value="${n}-${mod}" ${ex?.nback?.n===n&&ex.nback.modality===mod?'selected':''}>${n}-back ${mod==='visual'?'letters':'pitches'} — ${NBACK_MATCH_KEY.toUpperCase()} on a match</option>`)).join('')}</select></div></div>
         <div class="config-section"><h3>Difficulty</h3><div class="form-group"><select id="difficulty">
-          <option value="casual">Casual</option><option value="standard" ${(ex?.difficulty||'standard')==='standard'?'selected':''}>Standard</option><option value="intense">Intense</option></select></div></div>
+          <option value="casual">Casual</option><option value="standard" ${(ex?.difficulty||'standard')==='standard'?'selected':''}>Standard</option><option value="intense">Intense</option></select></div>
+          <div class="form-group"><label>Stimulus Schedule</label><select id="seed-mode">
+            <option value="random">Random each session</option><option value="canonical" ${ex?.seedMode==='canonical'?'selected':''}>Canonical (identical every session)</option></select></div>
+          <div class="form-group"><label>Target Motion</label><select id="trajectory"><option value="steering">Random steering</option><option value="sum_of_sines" ${tr.mode==='sum_of_sines'?'selected':''}>Sum of sines (same difficulty every session)</option></select></div>
+          <div class="form-group"><label>Motion Bandwidth (Hz)</label><input type="number" id="traj-bw" value="${tr.bandwidthHz}" min="${SumOfSinesTrajectory.MIN_BANDWIDTH_HZ}" max="${SumOfSinesTrajectory.MAX_BANDWIDTH_HZ}" step="0.1"></div>
+          <div class="form-group"><label>Motion Amplitude (%)</label><input type="number" id="traj-amp" value="${Math.round(tr.amplitude*100)}" min="10" max="100" step="5"></div></div>
+        <div class="config-section"><h3>Session Validity</h3>
+          <div class="form-group"><label>Max Focus Losses per Layer</label><input type="number" id="vr-focus" value="${vr.maxFocusLosses}" min="0" step="1"></div>
+          <div class="form-group"><label>Max Pointer-Lock Losses (tracking layers)</label><input type="number" id="vr-lock" value="${vr.maxPointerLockLosses}" min="0" step="1"></div>
+          <div class="form-group"><label>Min Responses per Layer</label><input type="number" id="vr-resp" value="${vr.minResponsesPerLayer}" min="0" step="1"></div>
+          <div class="form-group"><label>Max Anticipations (%)</label><input type="number" id="vr-antic" value="${Math.round(vr.maxAnticipationRatio*100)}" min="0" max="100" step="5"></div>
+          <div class="form-group"><label>Max System Stalls</label><input type="number" id="vr-stalls" value="${vr.maxSystemStalls}" min="0" step="1"></div>
+          <div class="form-group"><label>Max Dropped Events</label><input type="number" id="vr-dropped" value="${vr.maxDroppedEvents}" min="0" step="1"></div>
+          <div class="form-group"><label>Min Validity Score</label><input type="number" id="vr-score" value="${vr.minValidityScore}" min="0" max="100" step="5"></div></div>
+        <div class="config-section"><h3>Protocol</h3><div class="form-group"><select id="protocol">${protocols.map(p=>`<option value="${p.id}" ${p.id===pid?'selected':''}>${p.name} (${p.layers.length} layers, ${Math.round(ProtocolManager.totalDurationSeconds(p)/60*10)/10} min)</option>`).join('')}</select></div>
+          <div class="form-group"><button type="button" id="import-protocol" class="btn btn-secondary" style="padding:.4rem .8rem;font-size:.8rem">📂 Import Protocol JSON</button><input type="file" id="protocol-file" accept=".json,application/json" style="display:none">
+            <span id="protocol-msg" style="font-size:.8rem;margin-left:.5rem"></span></div></div>
         <div class="config-actions"><button type="submit" class="btn btn-primary">Save & Continue</button>${ex?'<button type="button" id="cancel-cfg" class="btn btn-secondary">Cancel</button>':''}</div>
       </form></div>`;
     const sl = document.getElementById('audio-volume') as HTMLInputElement;
@@ -108,15 +181,67 @@ export class MainApp {
         setTimeout(() => am.play('distractor'), 600);
       } catch (e) { console.error('Test sound failed:', e); }
     });
+    document.getElementById('audio-device')?.addEventListener('change', e => {
+      const r = ex?.audioLatencyCalibration?.[(e.target as HTMLSelectElement).value];
+      (document.getElementById('audio-residual') as HTMLInputElement).value = r != null ? String(r) : '';
+      document.getElementById('latency-msg')!.textContent = r != null ? `Residual ${r.toFixed(0)} ms` : 'Not calibrated';
+    });
+    document.getElementById('calibrate-audio')?.addEventListener('click', e => this.calibrateAudioLatency(e.currentTarget as HTMLButtonElement, parseFloat(sl?.value || '0.5')));
+    const pf = document.getElementById('protocol-file') as HTMLInputElement;
+    document.getElementById('import-protocol')?.addEventListener('click', () => pf.click());
+    pf?.addEventListener('change', async () => {
+      const file = pf.files?.[0], msg = document.getElementById('protocol-msg')!; if (!file) return;
+      try {
+        const p = ProtocolManager.parse(await file.text()); await db.saveCustomProtocol(p);
+        if (ProtocolManager.sessionType(p) === 'pvt') { msg.style.color = '#4caf50'; msg.textContent = `Imported PVT "${p.name}" — run it from the PVT menu`; pf.value = ''; return; }
+        const sel = document.getElementById('protocol') as HTMLSelectElement;
+        sel.querySelector(`option[value="${p.id}"]`)?.remove(); sel.add(new Option(`${p.name} (${p.layers.length} layers, ${Math.round(ProtocolManager.totalDurationSeconds(p)/60*10)/10} min)`, p.id, true, true));
+        msg.style.color = '#4caf50'; msg.textContent = `Imported "${p.name}"`;
+      } catch (e) { msg.style.color = '#f44336'; msg.textContent = e instanceof Error ? e.message : 'Invalid protocol file'; }
+      pf.value = '';
+    });
     document.getElementById('config-form')!.addEventListener('submit', async e => { e.preventDefault(); await this.saveConfig(); });
     document.getElementById('cancel-cfg')?.addEventListener('click', () => this.showState('checkin'));
   }
+  private async audioOutputs(): Promise<MediaDeviceInfo[]> {
+    try { return (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audiooutput'); } catch { return []; }
+  }
+  /** Tap-along metronome; the result goes into #audio-residual and is stored on Save for the selected device */
+  private async calibrateAudioLatency(btn: HTMLButtonElement, volume: number): Promise<void> {
+    const am = getAudioManager(), msg = document.getElementById('latency-msg')!, beats: number[] = [], taps: number[] = [];
+    try { if (am.getState() !== 'running') await am.init({ volume }); } catch { msg.textContent = 'Audio unavailable'; return; }
+    am.setResidualLatencyMs(0);
+    btn.disabled = true; btn.blur(); // SPACE must not re-trigger the button
+    const onKey = (e: KeyboardEvent) => { if (e.key === ' ') { e.preventDefault(); taps.push(e.timeStamp); } };
+    document.addEventListener('keydown', onKey);
+    try {
+      for (let i = 0; i < AudioCalibration.BEATS; i++) {
+        beats.push(am.play('high').outputPerformanceTime);
+        msg.textContent = `Tap SPACE with each tone — ${i+1}/${AudioCalibration.BEATS}`;
+        await new Promise(r => setTimeout(r, AudioCalibration.INTERVAL_MS));
+      }
+    } catch (e) { msg.textContent = `Calibration failed: ${e instanceof Error ? e.message : String(e)}`; return; }
+    finally { document.removeEventListener('keydown', onKey); btn.disabled = false; }
+    const res = AudioCalibration.residualLatencyMs(beats, taps);
+    if (res == null) { msg.textContent = 'Too few taps in time — try again'; return; }
+    (document.getElementById('audio-residual') as HTMLInputElement).value = res.toFixed(1);
+    msg.textContent = `Residual ${res.toFixed(0)} ms (saved with the configuration)`;
+  }
   private async loadConfig(): Promise<SessionConfig|null> { const j = await db.getConfig('session_config'); return j ? JSON.parse(j) : null; }
   private async saveConfig(): Promise<void> {
     const v = (id:string) => (document.getElementById(id) as HTMLInputElement).value;
+    const n = (id:string, fallback:number) => { const x = parseFloat(v(id)); return Number.isFinite(x) && x >= 0 ? x : fallback; };
     const d = parseInt(v('mouse-dpi')), s = parseFloat(v('app-sens'));
+    const prev = await this.loadConfig(), device = v('audio-device'), residual = v('audio-residual');
     this.sessionConfig = { mouseDPI:d, applicationSens:s, eDPI:d*s, monitorResolution:{width:parseInt(v('monitor-width')),height:parseInt(v('monitor-height'))},
-      monitorRefreshRate:parseInt(v('refresh-rate')), audioDevice:'default', audioVolume:parseFloat(v('audio-volume')), difficulty:v('difficulty') as any };
+      monitorRefreshRate:parseInt(v('refresh-rate')), audioDevice:device, audioVolume:parseFloat(v('audio-volume')), difficulty:v('difficulty') as any,
+      seedMode:v('seed-mode') as 'random'|'canonical', protocolId:v('protocol'), audioResponseMode:v('audio-mode') as AudioResponseMode,
+      nback: v('nback-mode')==='off' ? null : { n: parseInt(v('nback-mode')) as 1|2, modality: v('nback-mode').split('-')[1] as 'visual'|'audio' },
+      trajectory: { mode: v('trajectory') as 'steering'|'sum_of_sines', bandwidthHz: parseFloat(v('traj-bw')) || DEFAULT_TRAJECTORY.bandwidthHz, amplitude: (parseInt(v('traj-amp')) || DEFAULT_TRAJECTORY.amplitude * 100) / 100 },
+      audioLatencyCalibration: { ...prev?.audioLatencyCalibration, ...(residual !== '' ? { [device]: parseFloat(residual) } : {}) },
+      validityRules: { maxFocusLosses: n('vr-focus', DEFAULT_VALIDITY_RULES.maxFocusLosses), maxPointerLockLosses: n('vr-lock', DEFAULT_VALIDITY_RULES.maxPointerLockLosses),
+        minResponsesPerLayer: n('vr-resp', DEFAULT_VALIDITY_RULES.minResponsesPerLayer), maxAnticipationRatio: n('vr-antic', DEFAULT_VALIDITY_RULES.maxAnticipationRatio * 100) / 100,
+        maxSystemStalls: n('vr-stalls', DEFAULT_VALIDITY_RULES.maxSystemStalls), maxDroppedEvents: n('vr-dropped', DEFAULT_VALIDITY_RULES.maxDroppedEvents), minValidityScore: n('vr-score', DEFAULT_VALIDITY_RULES.minValidityScore) } };
     await db.setConfig('session_config', JSON.stringify(this.sessionConfig)); await this.showState('checkin');
   }
 
@@ -124,7 +249,8 @@ export class MainApp {
   private async showCheckin(): Promise<void> {
     if (!this.contentContainer) return;
     const { CheckinComponent } = await import('@/components/PreSessionCheckin');
-    const ss = await db.getAllSessions(1);
+    this.pvtProtocolId = null;
+    const ss = await db.getAllSessions(1, 'battery');
     const last = ss[0]?.checkinId ? await db.getCheckin(ss[0].checkinId) : null;
     this.contentContainer.innerHTML = '<div id="checkin-c"></div>';
     new CheckinComponent(document.getElementById('checkin-c')!, {
@@ -133,18 +259,38 @@ export class MainApp {
     }).render();
   }
 
+  // === PVT MENU ===
+  private async showPvtMenu(): Promise<void> {
+    if (!this.contentContainer) return;
+    const variants = [...ProtocolManager.listBuiltinOfType('pvt'), ...(await db.getCustomProtocols()).filter(p => ProtocolManager.sessionType(p) === 'pvt')];
+    this.injectStyle(`.pvt-menu{max-width:640px;margin:3rem auto;padding:0 2rem}.pvt-menu p{color:#888}.pvt-variants{display:grid;gap:.75rem;margin:1.5rem 0}.pvt-variant{padding:1rem 1.25rem;border:1px solid var(--border,#e0e0e0);border-radius:12px;background:var(--card,#fff);color:var(--text,#333);cursor:pointer;text-align:left;font-size:1rem}.pvt-variant:hover{border-color:#2196f3}.pvt-variant span{display:block;font-size:.8rem;color:#888;margin-top:.25rem}`);
+    this.contentContainer.innerHTML = `<div class="pvt-menu"><h2>Psychomotor Vigilance Test</h2>
+      <p>Press SPACE as soon as the red counter starts. PVT sessions have their own baseline and never enter Cognitive Readiness history.</p>
+      <div class="pvt-variants">${variants.map(p=>`<button class="pvt-variant" data-pid="${p.id}">${p.name}<span>${Math.round(ProtocolManager.totalDurationSeconds(p)/60*10)/10} min</span></button>`).join('')}</div>
+      <button class="btn btn-secondary" id="pvt-back">Back</button></div>`;
+    this.contentContainer.querySelectorAll<HTMLElement>('.pvt-variant').forEach(b => b.addEventListener('click', () => {
+      this.pvtProtocolId = b.dataset.pid!; this.currentCheckinId = null; this.showState('ready');
+    }));
+    document.getElementById('pvt-back')?.addEventListener('click', () => this.showState('dashboard'));
+  }
+
   // === READY SCREEN ===
   private async showReadyScreen(): Promise<void> {
     if (!this.contentContainer) return;
     if (!this.sessionConfig) { this.sessionConfig = await this.loadConfig(); if (!this.sessionConfig) { await this.showState('config'); return; } }
+    this.protocol = ProtocolManager.withNBack(ProtocolManager.withAudioResponseMode(
+      ProtocolManager.resolve(this.pvtProtocolId ?? this.sessionConfig.protocolId, await db.getCustomProtocols()), this.sessionConfig.audioResponseMode), this.sessionConfig.nback);
+    const pl = this.protocol.layers, lr = (ids: number[]) => ids.length === pl.length ? 'all' : ids.map(i=>`L${i}`).join(', ');
+    const ctl = new Map<string,{action:string;ids:number[]}>();
+    for (const l of pl) for (const c of l.instructions.controls) { const e = ctl.get(c.key); if (e) e.ids.push(l.id); else ctl.set(c.key,{action:c.action,ids:[l.id]}); }
     this.injectStyle(`.ready-screen{display:flex;align-items:center;justify-content:center;min-height:80vh;padding:2rem}.ready-content{max-width:800px;width:100%;background:var(--surface,#fff);border-radius:16px;padding:3rem;box-shadow:0 4px 24px rgba(0,0,0,.1)}.test-layers{display:grid;grid-template-columns:1fr 1fr;gap:1rem;margin:1.5rem 0}.layer-card{background:var(--surface-alt,#f5f5f5);border-radius:12px;padding:1.25rem}.layer-card h4{color:var(--primary,#2196f3);margin-bottom:.5rem}.controls-grid{display:grid;grid-template-columns:auto 1fr;gap:.5rem 1rem;margin:1rem 0}.controls-grid kbd{background:#e3e3e3;padding:.2rem .6rem;border-radius:4px;font-family:monospace;font-weight:bold}.ready-actions{display:flex;gap:1rem;margin-top:2rem}.ready-actions .btn{flex:1;padding:1rem;font-size:1.1rem;border:none;border-radius:10px;cursor:pointer;font-weight:600}`);
     this.contentContainer.innerHTML = `<div class="ready-screen"><div class="ready-content"><h1 style="font-size:2rem;margin-bottom:1.5rem">Ready to Begin</h1>
-      <p>~3 minutes, 4 progressive layers with breaks between each.</p>
-      <div class="test-layers"><div class="layer-card"><h4>L0 - 30s</h4><p>Click stimulus</p></div><div class="layer-card"><h4>L1 - 45s</h4><p>Track target</p></div><div class="layer-card"><h4>L2 - 45s</h4><p>Track + audio</p></div><div class="layer-card"><h4>L3 - 60s</h4><p>Full load</p></div></div>
-      <h3>Controls</h3><div class="controls-grid"><kbd>Click</kbd><span>L0</span><kbd>Mouse</kbd><span>Track (L1-3)</span><kbd>SPACE</kbd><span>Audio (L2-3)</span><kbd>0-9</kbd><span>Peripheral (L3)</span><kbd>F</kbd><span>Cooldown (L3)</span><kbd>ESC</kbd><span>Abort</span></div>
+      <p><strong>${this.protocol.name}</strong> — ~${Math.max(1,Math.round(ProtocolManager.totalDurationSeconds(this.protocol)/60))} minutes${pl.length>1?`, ${pl.length} progressive layers with breaks between each`:''}.</p>
+      <div class="test-layers">${pl.map(l=>`<div class="layer-card"><h4>L${l.id} - ${l.durationSeconds}s</h4><p>${l.summary||l.name}</p></div>`).join('')}</div>
+      <h3>Controls</h3><div class="controls-grid">${[...ctl].map(([k,c])=>`<kbd>${k}</kbd><span>${c.action} (${lr(c.ids)})</span>`).join('')}<kbd>ESC</kbd><span>Abort</span></div>
       <div class="ready-actions"><button class="btn btn-primary" id="go">Start Test</button><button class="btn btn-secondary" id="nogo">Cancel</button></div></div></div>`;
     document.getElementById('go')?.addEventListener('click', () => this.showState('test'));
-    document.getElementById('nogo')?.addEventListener('click', () => this.showState('dashboard'));
+    document.getElementById('nogo')?.addEventListener('click', () => this.showState(this.pvtProtocolId ? 'pvt' : 'dashboard'));
   }
 
   // === TEST EXECUTION ===
@@ -155,7 +301,8 @@ export class MainApp {
     const tc = document.getElementById('tc')!;
     Object.assign(tc.style, {position:'fixed',top:'0',left:'0',width:'100vw',height:'100vh',zIndex:'9999',background:'#1a1a2e'});
 
-    this.testEngine = new TestEngine(this.currentSessionId, this.sessionConfig);
+    this.testEngine = new TestEngine(this.currentSessionId, this.sessionConfig, this.protocol);
+    getAudioManager().setResidualLatencyMs(this.sessionConfig.audioLatencyCalibration?.[this.sessionConfig.audioDevice] ?? 0);
     let renderer: any = null;
 
     // Try PixiJS (WebGL) first
@@ -190,64 +337,189 @@ export class MainApp {
     this.testEngine.setCallbacks({
       onStimulusUpdate: (s: any) => renderer?.updateFromEngine(s, this.testEngine!.getState()),
       onLayerComplete: (_: any, info: InterLayerInfo) => renderer?.showInterLayerScreen(info, () => this.testEngine!.advanceToNextLayer()),
-      onTestComplete: () => { renderer?.showComplete(); this.processResults().then(() => setTimeout(() => this.showState('results'), 2000)); },
-      onAbort: () => { renderer?.destroy(); this.showState('dashboard'); }
+      onTestComplete: () => { renderer?.showComplete(); this.saveResults(); },
+      onAbort: point => { renderer?.destroy(); this.abortedTest = { engine: this.testEngine!, point }; this.showState('abort'); },
+      onFlushEvents: ev => db.spoolEvents(ev),
+      onLayerSaved: l => { db.journalLayer(this.currentSessionId!, l, this.testEngine!.getSystemStallCount(), this.testEngine!.getDroppedEventCount()).catch(e => console.warn('Journal update failed:', e)); }
     });
     await renderer.showCountdown(3);
+    this.activeJournal = { sessionId: this.currentSessionId, startedAt: new Date(), protocol: this.protocol, configSnapshot: {...this.sessionConfig,seed:this.testEngine.getSeed(),protocolId:this.protocol.id},
+      checkinId: this.currentCheckinId, completedLayers: [], systemStalls: 0, droppedEvents: 0 };
+    await db.openJournal(this.activeJournal);
     await this.testEngine.start();
   }
 
+  /** Save the finished test and open its results; on failure the journal stays for a retry or recovery at next start */
+  private saveResults(): void {
+    this.processResults().then(() => setTimeout(() => this.showState('results'), 2000)).catch(e => {
+      console.error('Saving results failed:', e);
+      this.testRenderer?.destroy(); this.testRenderer = null;
+      const tc = document.getElementById('tc'); if (!tc) return;
+      tc.innerHTML = `<div style="display:flex;align-items:center;justify-content:center;height:100vh;color:#fff;flex-direction:column;gap:1rem;padding:2rem;text-align:center">
+        <h2 style="color:#f44336">Results Not Saved</h2>
+        <p style="color:#ccc">The test finished but its session could not be saved. The recorded events are kept: retry now, or the test is offered for recovery at next start.</p>
+        <p style="color:#888;font-size:.85rem">${e instanceof Error ? e.message : String(e)}</p>
+        <div style="display:flex;gap:1rem"><button id="save-retry" style="padding:.75rem 2rem;background:#2196f3;color:#fff;border:none;border-radius:8px;cursor:pointer">Retry</button>
+        <button id="save-leave" style="padding:.75rem 2rem;background:#555;color:#fff;border:none;border-radius:8px;cursor:pointer">Dashboard</button></div>
+      </div>`;
+      document.getElementById('save-retry')?.addEventListener('click', () => { tc.innerHTML = '<div style="display:flex;align-items:center;justify-content:center;height:100vh;color:#ccc">Saving\u2026</div>'; this.saveResults(); });
+      document.getElementById('save-leave')?.addEventListener('click', () => { this.activeJournal = null; this.showState('dashboard'); });
+    });
+  }
+
   private async processResults(): Promise<void> {
     if (!this.testEngine || !this.currentSessionId || !this.sessionConfig) return;
-    const ev = this.testEngine.getEvents(), st = this.testEngine.getSystemStallCount(), dur = [30,45,45,60];
-    const lm: LayerMetrics[] = [];
-    for (let l=0;l<=3;l++) lm.push(MetricsCalculator.computeLayerMetrics(this.currentSessionId,l,ev.filter(e=>e.layer===l),dur[l],this.sessionConfig.monitorRefreshRate));
+    const st = this.testEngine.getSystemStallCount(), de = this.testEngine.getDroppedEventCount(), pr = this.testEngine.getProtocol();
+    // Spool the tail; anything the spool refused is still in the engine's buffer
+    await this.testEngine.flushEvents(true).catch(e => console.warn('Final event flush failed:', e));
+    const unspooled = this.testEngine.getEvents(), ev = [...await db.getSpooledEvents(this.currentSessionId), ...unspooled];
+    const { trials: tr, layerMetrics: lm, metricValues: mv } = await BackgroundMetrics.computeSession(this.currentSessionId, pr.layers, ev, this.sessionConfig.monitorRefreshRate);
+    const rules = SessionValidator.rulesFor(this.sessionConfig);
+    const validity = SessionValidator.validate(pr.layers, ev, tr, { systemStalls: st, droppedEvents: de }, rules);
+    const valid = SessionValidator.isValid(validity, rules);
 
-    // Check session count to determine calibration status
-    const sessionCount = await db.getSessionCount(); // count BEFORE saving this one
+    // Check session count to determine calibration status — PVT variants calibrate on their own
+    const scope = ScoringEngine.baselineScope(pr);
+    const sessionCount = await db.getSessionCount(scope); // count BEFORE saving this one
     const isCalibrating = sessionCount < 5; // sessions 0-4 (this will be sessions 1-5)
 
-    let sc: { lpi0: number|null; lpi1: number|null; lpi2: number|null; lpi3: number|null; dc: number|null; crs: number|null; alert: 'critical'|'warning'|null };
+    let sc: ReturnType<typeof ScoringEngine.computeSessionScores>;
 
-    if (isCalibrating) {
+    if (isCalibrating || !valid) {
       // Section 11.1: During calibration, don't compute composite scores
-      // They're meaningless without a baseline and mislead the user
-      sc = { lpi0: null, lpi1: null, lpi2: null, lpi3: null, dc: null, crs: null, alert: null };
+      // They're meaningless without a baseline and mislead the user (invalid sessions aren't scored either)
+      sc = { lpis: Object.fromEntries(pr.layers.map(l => [l.id, null])), lpi0: null, lpi1: null, lpi2: null, lpi3: null, dc: null, crs: null, alert: null };
     } else {
       const bl = new Map<string,BaselineStats>();
-      const mn = ['rt','rt_variance','track_error','track_variance','jerk','overshoot','audio_rt','audio_accuracy','prp','cooldown','periph_rt','periph_miss'];
-      for (const n of mn) for (let l=0;l<=3;l++) { const b = await db.getBaseline('rolling',n,l); if (b) bl.set(`${n}_L${l}`,b); }
-      const cb = await db.getBaseline('rolling','crs',null); if (cb) bl.set('crs',cb);
-      const wp = await db.getWeightProfile('balanced') || this.defaultWP();
-      sc = ScoringEngine.computeSessionScores(lm,bl,wp);
+      for (const l of pr.layers) for (const n of ScoringEngine.getMetricNames(l)) { const b = await db.getBaseline(scope,n,l.id); if (b) bl.set(`${n}_L${l.id}`,b); }
+      const cb = scope === 'rolling' ? await db.getBaseline('rolling','crs',null) : null; if (cb) bl.set('crs',cb);
+      const wp = await db.getWeightProfile('balanced') || ScoringEngine.getDefaultWeightProfile();
+      sc = ScoringEngine.computeSessionScores(mv,bl,wp,pr);
     }
 
-    const sess: Session = {id:this.currentSessionId,timestamp:new Date(),configSnapshot:this.sessionConfig,
-      lpi0:sc.lpi0,lpi1:sc.lpi1,lpi2:sc.lpi2,lpi3:sc.lpi3,degradationCoeff:sc.dc,crs:sc.crs,
-      notes:null,tags:[],checkinId:this.currentCheckinId,profileId:'balanced',systemStalls:st};
-    await db.saveSession(sess); for (const m of lm) await db.saveLayerMetrics(m); await db.saveRawEvents(ev);
+    const sess: Session = {id:this.currentSessionId,timestamp:new Date(),sessionType:ProtocolManager.sessionType(pr),configSnapshot:{...this.sessionConfig,seed:this.testEngine.getSeed(),protocolId:pr.id},
+      protocol:pr,lpis:sc.lpis,lpi0:sc.lpi0,lpi1:sc.lpi1,lpi2:sc.lpi2,lpi3:sc.lpi3,degradationCoeff:sc.dc,crs:sc.crs,
+      notes:null,tags:[],checkinId:this.currentCheckinId,profileId:'balanced',systemStalls:st,droppedEvents:de,status:valid?'completed':'invalid',abort:null,validity,pipelineVersion:MetricsCalculator.PIPELINE_VERSION,inputLag:MetricsCalculator.inputLag(ev),onsetJitter:MetricsCalculator.onsetJitter(ev)};
+    await db.saveSessionResults(sess, lm, mv, tr, unspooled); this.activeJournal = null;
 
-    // Only update baselines for non-calibration sessions
-    if (!isCalibrating) {
-      const mn = ['rt','rt_variance','track_error','track_variance','jerk','overshoot','audio_rt','audio_accuracy','prp','cooldown','periph_rt','periph_miss'];
-      for (const n of mn) for (let l=0;l<=3;l++) await db.updateRollingBaseline(n,l);
+    // Only update baselines for valid non-calibration sessions
+    if (!isCalibrating && valid) {
+      for (const l of pr.layers) for (const n of ScoringEngine.getMetricNames(l)) await db.updateRollingBaseline(n,l.id,20,scope);
     }
   }
 
+  // === RECOVERY (unfinished test found at startup) ===
+  private async showRecovery(): Promise<void> {
+    const j = this.recoveryJournal;
+    if (!this.contentContainer || !j) { await this.showState(await this.initialState()); return; }
+    const done = j.protocol.layers.filter(l => j.completedLayers.includes(l.id));
+    this.injectStyle(`.recover-screen{display:flex;align-items:center;justify-content:center;min-height:80vh;padding:2rem}.recover-content{max-width:560px;width:100%;background:var(--surface,#fff);border-radius:16px;padding:2.5rem;box-shadow:0 4px 24px rgba(0,0,0,.1)}.recover-actions{display:flex;gap:1rem;margin-top:2rem}.recover-actions .btn{flex:1;padding:.9rem;font-size:1rem;border:none;border-radius:10px;cursor:pointer;font-weight:600}`);
+    this.contentContainer.innerHTML = `<div class="recover-screen"><div class="recover-content"><h2 style="margin-bottom:1rem">⚠ Unfinished Test</h2>
+      <p>A <strong>${j.protocol.name}</strong> test started ${j.startedAt.toLocaleString()} did not finish (the app was closed or crashed).</p>
+      <p style="margin-top:.75rem">Completed layers: <strong>${done.length > 0 ? done.map(l=>`L${l.id} ${l.name}`).join(', ') : 'none'}</strong> of ${j.protocol.layers.length}${j.droppedEvents ? ` \u00b7 ${j.droppedEvents} dropped events` : ''}</p>
+      <p style="margin-top:.75rem;font-size:.85rem;color:#888">An aborted session keeps the metrics of the completed layers and counts towards your abort history. It gets no composite scores and does not enter baselines.</p>
+      <div class="recover-actions"><button class="btn btn-primary" id="rcv-save">Save as Aborted</button><button class="btn btn-secondary" id="rcv-discard">Discard</button></div>
+      <div id="rcv-status" style="margin-top:1rem;font-size:.85rem;color:#888"></div></div></div>`;
+    document.getElementById('rcv-save')?.addEventListener('click', async () => {
+      document.querySelectorAll<HTMLButtonElement>('.recover-actions .btn').forEach(b => b.disabled = true);
+      document.getElementById('rcv-status')!.textContent = 'Computing metrics for the completed layers\u2026';
+      const abort: SessionAbort = { layer: j.protocol.layers.find(l => !j.completedLayers.includes(l.id))?.id ?? null, elapsedSeconds: null, reason: RECOVERED_ABORT_REASON };
+      try { await this.saveAbortedSession(j, abort); this.recoveryJournal = null; this.currentSessionId = j.sessionId; await this.showState('results'); }
+      catch (e) { document.getElementById('rcv-status')!.textContent = `Failed: ${e instanceof Error ? e.message : String(e)}`; document.querySelectorAll<HTMLButtonElement>('.recover-actions .btn').forEach(b => b.disabled = false); }
+    });
+    document.getElementById('rcv-discard')?.addEventListener('click', async () => {
+      if (!confirm('Discard the unfinished test? Its recorded events are deleted.')) return;
+      document.querySelectorAll<HTMLButtonElement>('.recover-actions .btn').forEach(b => b.disabled = true);
+      try { await db.discardJournal(j.sessionId); this.recoveryJournal = null; await this.showState(await this.initialState()); }
+      catch (e) { document.getElementById('rcv-status')!.textContent = `Failed: ${e instanceof Error ? e.message : String(e)}`; document.querySelectorAll<HTMLButtonElement>('.recover-actions .btn').forEach(b => b.disabled = false); }
+    });
+  }
+
+  // === ABORT (test stopped with ESC) ===
+  private async showAbort(): Promise<void> {
+    const a = this.abortedTest, j = this.activeJournal;
+    if (!this.contentContainer || !a || !j) { await this.showState('dashboard'); return; }
+    const { engine, point } = a;
+    // Spool the tail while the participant picks a reason
+    const flushed = engine.flushEvents(true).catch(e => console.warn('Final event flush failed:', e));
+    const done = j.protocol.layers.filter(l => point.completedLayers.includes(l.id));
+    const abort: SessionAbort = { layer: point.layer, elapsedSeconds: point.elapsedSeconds, reason: null };
+    this.injectStyle(`.recover-screen{display:flex;align-items:center;justify-content:center;min-height:80vh;padding:2rem}.recover-content{max-width:560px;width:100%;background:var(--surface,#fff);border-radius:16px;padding:2.5rem;box-shadow:0 4px 24px rgba(0,0,0,.1)}.recover-actions{display:flex;gap:1rem;margin-top:2rem}.recover-actions .btn{flex:1;padding:.9rem;font-size:1rem;border:none;border-radius:10px;cursor:pointer;font-weight:600}.abort-reasons{display:flex;gap:.4rem;flex-wrap:wrap;margin-top:.5rem}.abort-reasons label{padding:.35rem .7rem;border:1px solid var(--border,#ddd);border-radius:8px;cursor:pointer;font-size:.85rem}.abort-reasons input{margin-right:.3rem}`);
+    this.contentContainer.innerHTML = `<div class="recover-screen"><div class="recover-content"><h2 style="margin-bottom:1rem">⏹ Test Aborted</h2>
+      <p>${this.describeAbort(abort, j.protocol)}.</p>
+      <p style="margin-top:.75rem">Completed layers: <strong>${done.length > 0 ? done.map(l=>`L${l.id} ${l.name}`).join(', ') : 'none'}</strong> of ${j.protocol.layers.length}</p>
+      <div style="margin-top:1.25rem"><label style="font-size:.85rem;font-weight:600;color:#555">Why did you stop?</label>
+        <div class="abort-reasons" id="abort-reasons">${ABORT_REASONS.map((r,i)=>`<label><input type="radio" name="abort-reason" value="${r}" ${i===0?'checked':''}>${r}</label>`).join('')}</div>
+        <input type="text" id="abort-detail" placeholder="Details (optional)" style="width:100%;margin-top:.6rem;border:1px solid var(--border,#ddd);border-radius:8px;padding:.45rem;font-size:.85rem;background:var(--card,#fff);color:var(--text,#333)"></div>
+      <p style="margin-top:.75rem;font-size:.85rem;color:#888">The aborted session keeps the metrics of the completed layers and counts towards your abort history. It gets no composite scores and does not enter baselines.</p>
+      <div class="recover-actions"><button class="btn btn-primary" id="abort-save">Save as Aborted</button><button class="btn btn-secondary" id="abort-discard">Discard</button></div>
+      <div id="abort-status" style="margin-top:1rem;font-size:.85rem;color:#888"></div></div></div>`;
+    const buttons = () => document.querySelectorAll<HTMLButtonElement>('.recover-actions .btn');
+    document.getElementById('abort-save')?.addEventListener('click', async () => {
+      buttons().forEach(b => b.disabled = true);
+      document.getElementById('abort-status')!.textContent = 'Computing metrics for the completed layers…';
+      const picked = document.querySelector<HTMLInputElement>('input[name="abort-reason"]:checked')?.value ?? null;
+      const detail = (document.getElementById('abort-detail') as HTMLInputElement).value.trim();
+      abort.reason = [picked, detail].filter(Boolean).join(': ') || null;
+      try {
+        await flushed;
+        await this.saveAbortedSession({ ...j, completedLayers: point.completedLayers, systemStalls: engine.getSystemStallCount(), droppedEvents: engine.getDroppedEventCount() },
+          abort, new Date(), engine.getEvents());
+        this.abortedTest = null; this.activeJournal = null; this.currentSessionId = j.sessionId; await this.showState('results');
+      } catch (e) { document.getElementById('abort-status')!.textContent = `Failed: ${e instanceof Error ? e.message : String(e)}`; buttons().forEach(b => b.disabled = false); }
+    });
+    document.getElementById('abort-discard')?.addEventListener('click', async () => {
+      if (!confirm('Discard the aborted test? Its recorded events are deleted and it does not count as an abort.')) return;
+      buttons().forEach(b => b.disabled = true);
+      try {
+        await flushed; await db.discardJournal(j.sessionId);
+        this.abortedTest = null; this.activeJournal = null; await this.showState('dashboard');
+      } catch (e) { document.getElementById('abort-status')!.textContent = `Failed: ${e instanceof Error ? e.message : String(e)}`; buttons().forEach(b => b.disabled = false); }
+    });
+  }
+
+  /**
+   * Save a stopped test as an aborted session: metrics for its completed
+   * layers, no composite scores. Events still in the engine's buffer
+   * (unspooled) are stored with the spooled ones.
+   */
+  private async saveAbortedSession(j: SessionJournal, abort: SessionAbort, timestamp = j.startedAt, unspooled: RawEvent[] = []): Promise<void> {
+    const layers = j.protocol.layers.filter(l => j.completedLayers.includes(l.id));
+    const ev = [...await db.getSpooledEvents(j.sessionId), ...unspooled].filter(e => j.completedLayers.includes(e.layer));
+    const { trials: tr, layerMetrics: lm, metricValues: mv } = await BackgroundMetrics.computeSession(j.sessionId, layers, ev, j.configSnapshot.monitorRefreshRate);
+    const validity = SessionValidator.validate(layers, ev, tr, j, SessionValidator.rulesFor(j.configSnapshot));
+    const sess: Session = {id:j.sessionId,timestamp,sessionType:ProtocolManager.sessionType(j.protocol),configSnapshot:j.configSnapshot,
+      protocol:j.protocol,lpis:Object.fromEntries(j.protocol.layers.map(l => [l.id, null])),lpi0:null,lpi1:null,lpi2:null,lpi3:null,degradationCoeff:null,crs:null,
+      notes:null,tags:[],checkinId:j.checkinId,profileId:'balanced',
+      systemStalls:j.systemStalls,droppedEvents:j.droppedEvents,status:'aborted',abort,validity,pipelineVersion:MetricsCalculator.PIPELINE_VERSION,inputLag:MetricsCalculator.inputLag(ev),onsetJitter:MetricsCalculator.onsetJitter(ev)};
+    await db.saveSessionResults(sess, lm, mv, tr, unspooled);
+  }
+
+  /** "Stopped during L2 Track + Audio at 3:05 — Felt unwell" */
+  private describeAbort(a: SessionAbort, protocol: ProtocolDefinition): string {
+    const layer = protocol.layers.find(l => l.id === a.layer);
+    const at = a.elapsedSeconds != null ? ` at ${Math.floor(a.elapsedSeconds / 60)}:${String(Math.floor(a.elapsedSeconds % 60)).padStart(2, '0')}` : '';
+    return `Stopped${layer ? ` during L${layer.id} ${layer.name}` : ''}${at}${a.reason ? ` \u2014 ${a.reason}` : ''}`;
+  }
+
   // === RESULTS VIEW ===
   private async showResults(): Promise<void> {
     if (!this.contentContainer || !this.currentSessionId) return;
     const s = await db.getSession(this.currentSessionId);
     if (!s) { await this.showState('dashboard'); return; }
-    const cb = await db.getBaseline('rolling','crs',null);
+    const isPvt = s.sessionType === 'pvt';
+    const cb = isPvt ? null : await db.getBaseline('rolling','crs',null);
     const z = cb && s.crs!=null ? (s.crs-cb.median)/(cb.madScaled||1) : null;
     const al = z!=null ? ScoringEngine.checkAlertThreshold(z) : null;
     this.injectStyle(`.results-container{max-width:800px;margin:2rem auto;padding:2rem}.crs-big{font-size:4rem;font-weight:700;text-align:center;margin:1rem 0}.crs-big.normal{color:#4caf50}.crs-big.warning{color:#ff9800}.crs-big.critical{color:#f44336}.score-grid{display:grid;grid-template-columns:repeat(auto-fit,minmax(150px,1fr));gap:1rem;margin:2rem 0}.score-card{background:var(--surface-alt,#f5f5f5);border-radius:12px;padding:1.25rem;text-align:center}.score-card .label{font-size:.85rem;color:#888}.score-card .value{font-size:1.5rem;font-weight:600;margin-top:.5rem}.results-actions{display:flex;gap:1rem;margin-top:2rem;justify-content:center}.results-actions .btn{padding:.75rem 2rem;border:none;border-radius:8px;cursor:pointer;font-weight:600}`);
     const cc = al === 'critical' ? 'critical' : al === 'warning' ? 'warning' : 'normal';
-    const sessionCount = await db.getSessionCount();
-    const isCalibrating = sessionCount <= 5;
-    const isPreBaseline = sessionCount > 5 && sessionCount <= 15;
-    const hasScores = s.crs != null;
+    const sessionCount = await db.getSessionCount(ScoringEngine.baselineScope(s.protocol));
+    const counted = ScoringEngine.entersBaseline(s);
+    const isCalibrating = counted && sessionCount <= 5;
+    const isPreBaseline = counted && sessionCount > 5 && sessionCount <= 15;
+    // PVT sessions headline their single layer's LPI instead of the CRS
+    const headline = isPvt ? s.lpis[s.protocol.layers[0].id] ?? null : s.crs;
+    const hasScores = headline != null;
 
     const statusNote = isCalibrating
       ? `<p style="text-align:center;color:#ff9800;font-size:.9rem;margin-top:.5rem">⏳ Calibrating — Session ${sessionCount} of 5. Collecting baseline data — scores will appear after 5 sessions.</p>`
@@ -256,11 +528,16 @@ export class MainApp {
       : '';
 
     this.contentContainer.innerHTML = `<div class="results-container">
-      <h1 style="text-align:center">Session Complete</h1>
+      <h1 style="text-align:center">${s.status === 'aborted' ? 'Session Aborted' : s.status === 'invalid' ? 'Invalid Session' : 'Session Complete'}</h1>
       <p style="text-align:center;color:#888">${s.timestamp.toLocaleString()}</p>
       ${hasScores ? `
-        <div class="crs-big ${cc}">${s.crs!.toFixed(1)}</div>
-        <p style="text-align:center;color:#888">Cognitive Readiness Score${isPreBaseline ? ' (Preliminary)' : ''}</p>
+        <div class="crs-big ${cc}">${headline!.toFixed(1)}</div>
+        <p style="text-align:center;color:#888">${isPvt ? 'PVT Score' : 'Cognitive Readiness Score'}${isPreBaseline ? ' (Preliminary)' : ''}</p>
+      ` : !counted ? `
+        <div style="text-align:center;margin:1.5rem 0;padding:1.5rem;background:var(--surface-alt,#f5f5f5);border-radius:12px">
+          <p style="font-size:1.1rem;color:#666;margin-bottom:.5rem">${s.abort ? this.describeAbort(s.abort, s.protocol) : s.status === 'aborted' ? 'Interrupted test' : s.validity?.flags.length ? 'Failed the validity checks' : 'Marked invalid'}</p>
+          <p style="font-size:.9rem;color:#999">Raw measurements${s.status === 'aborted' ? ' of the completed layers' : ''} are recorded below. ${s.status === 'aborted' ? 'Aborted' : 'Invalid'} sessions are not scored and do not enter baselines.</p>
+        </div>
       ` : `
         <div style="text-align:center;margin:1.5rem 0;padding:1.5rem;background:var(--surface-alt,#f5f5f5);border-radius:12px">
           <p style="font-size:1.1rem;color:#666;margin-bottom:.5rem">Calibration Session ${sessionCount}</p>
@@ -268,14 +545,15 @@ export class MainApp {
         </div>
       `}
       ${statusNote}
+      ${this.validityBlock(s)}
       ${al ? `<p style="text-align:center;color:${al==='critical'?'#f44336':'#ff9800'};font-weight:600">\u26a0 ${al.toUpperCase()} \u2014 Below baseline</p>` : ''}
       ${hasScores ? `<div class="score-grid">
-        <div class="score-card"><div class="label">Reaction Time (Layer 0)</div><div class="value">${s.lpi0?.toFixed(1)??'\u2014'}</div></div>
-        <div class="score-card"><div class="label">Tracking (Layer 1)</div><div class="value">${s.lpi1?.toFixed(1)??'\u2014'}</div></div>
-        <div class="score-card"><div class="label">Track + Audio (Layer 2)</div><div class="value">${s.lpi2?.toFixed(1)??'\u2014'}</div></div>
-        <div class="score-card"><div class="label">Full Load (Layer 3)</div><div class="value">${s.lpi3?.toFixed(1)??'\u2014'}</div></div>
-        <div class="score-card"><div class="label">Load Tolerance</div><div class="value">${s.degradationCoeff!=null?(s.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</div></div>
+        ${s.protocol.layers.map(l=>`<div class="score-card"><div class="label">${l.name} (Layer ${l.id})</div><div class="value">${s.lpis[l.id]?.toFixed(1)??'\u2014'}</div></div>`).join('')}
+        ${isPvt ? '' : `<div class="score-card"><div class="label">Load Tolerance</div><div class="value">${s.degradationCoeff!=null?(s.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</div></div>`}
         <div class="score-card"><div class="label">System Stalls</div><div class="value">${s.systemStalls}</div></div>
+        ${s.droppedEvents > 0 ? `<div class="score-card"><div class="label">Dropped Events</div><div class="value" style="color:#f44336">${s.droppedEvents}</div></div>` : ''}
+        ${s.onsetJitter ? `<div class="score-card"><div class="label">Onset Jitter (SD)</div><div class="value">${s.onsetJitter.sdMs.toFixed(1)} ms</div></div>` : ''}
+        ${s.inputLag ? `<div class="score-card"><div class="label">Input Lag (mean / p95)</div><div class="value">${s.inputLag.meanMs.toFixed(1)} / ${s.inputLag.p95Ms.toFixed(1)} ms</div></div>` : ''}
       </div>` : ''}
       <div class="results-actions">
         <button class="btn btn-primary" id="res-new">New Session</button>
@@ -284,54 +562,43 @@ export class MainApp {
 
     // Load and display raw layer metrics for this session
     if (this.currentSessionId) {
-      const lms = await db.getLayerMetrics(this.currentSessionId);
-      const l0 = lms.find(m => m.layer === 0), l1 = lms.find(m => m.layer === 1);
-      const l2 = lms.find(m => m.layer === 2), l3 = lms.find(m => m.layer === 3);
-      const f = (v: number|undefined, u='') => v != null ? `${v.toFixed(1)}${u}` : '\u2014';
+      const lms = await db.getLayerMetrics(this.currentSessionId), mvs = await db.getMetricValues(this.currentSessionId);
 
       const rawSection = document.createElement('div');
       rawSection.style.cssText = 'margin-top:1.5rem';
       rawSection.innerHTML = `
         <h3 style="text-align:center;margin-bottom:1rem;font-size:1rem;color:#666">Raw Measurements</h3>
-        ${l0?`<div style="margin-bottom:.75rem"><strong style="font-size:.85rem;color:#555">Layer 0 — Reaction Time</strong><div class="score-grid" style="margin-top:.5rem">
-          <div class="score-card"><div class="label">Mean Reaction Time</div><div class="value">${f(l0.meanRT,'ms')}</div></div>
-          <div class="score-card"><div class="label">RT Std Dev</div><div class="value">${f(l0.rtStd,'ms')}</div></div></div></div>`:''}
-        ${l1?`<div style="margin-bottom:.75rem"><strong style="font-size:.85rem;color:#555">Layer 1 — Tracking</strong><div class="score-grid" style="margin-top:.5rem">
-          <div class="score-card"><div class="label">Tracking Error</div><div class="value">${f(l1.meanTrackingError,'px')}</div></div>
-          <div class="score-card"><div class="label">Overshoots/min</div><div class="value">${f(l1.overshootRate)}</div></div></div></div>`:''}
-        ${l2?`<div style="margin-bottom:.75rem"><strong style="font-size:.85rem;color:#555">Layer 2 — Track + Audio</strong><div class="score-grid" style="margin-top:.5rem">
-          <div class="score-card"><div class="label">Tracking Error</div><div class="value">${f(l2.meanTrackingError,'px')}</div></div>
-          <div class="score-card"><div class="label">Audio Response</div><div class="value">${f(l2.meanAudioRT,'ms')}</div></div>
-          <div class="score-card"><div class="label">Audio Accuracy</div><div class="value">${l2.audioAccuracy!=null?(l2.audioAccuracy*100).toFixed(0)+'%':'\u2014'}</div></div>
-          <div class="score-card"><div class="label">Recovery Period</div><div class="value">${f(l2.meanPRPDuration,'ms')}</div></div></div></div>`:''}
-        ${l3?`<div style="margin-bottom:.75rem"><strong style="font-size:.85rem;color:#555">Layer 3 — Full Load</strong><div class="score-grid" style="margin-top:.5rem">
-          <div class="score-card"><div class="label">Tracking Error</div><div class="value">${f(l3.meanTrackingError,'px')}</div></div>
-          <div class="score-card"><div class="label">Audio Response</div><div class="value">${f(l3.meanAudioRT,'ms')}</div></div>
-          <div class="score-card"><div class="label">Cooldown Delay</div><div class="value">${f(l3.meanCooldownDelay,'ms')}</div></div>
-          <div class="score-card"><div class="label">Peripheral Response</div><div class="value">${f(l3.meanPeripheralRT,'ms')}</div></div>
-          <div class="score-card"><div class="label">Peripheral Missed</div><div class="value">${l3.peripheralMissRate!=null?(l3.peripheralMissRate*100).toFixed(0)+'%':'\u2014'}</div></div></div></div>`:''}
+        ${s.protocol.layers.map(l => { const v = MetricRegistry.byName(mvs, l.id); return Object.keys(v).length ? `<div style="margin-bottom:.75rem"><strong style="font-size:.85rem;color:#555">Layer ${l.id} — ${l.name}</strong><div class="score-grid" style="margin-top:.5rem">
+          ${MetricRegistry.displayItems(l, v).map(([k,v]) => `<div class="score-card"><div class="label">${k}</div><div class="value">${v}</div></div>`).join('')}</div></div>` : ''; }).join('')}
+        ${lms.some(m => m.timeOnTask) ? '<h3 style="text-align:center;margin:1.5rem 0 .75rem;font-size:1rem;color:#666">Time on Task</h3><div id="tot-chart" style="width:100%"></div>' : ''}
       `;
       const resultsContainer = this.contentContainer.querySelector('.results-container');
       const actionsDiv = this.contentContainer.querySelector('.results-actions');
       if (resultsContainer && actionsDiv) resultsContainer.insertBefore(rawSection, actionsDiv);
+      const tot = document.getElementById('tot-chart');
+      if (tot) this.renderTimeOnTaskChart(tot, lms.filter(m => m.timeOnTask).map(m => ({ layer: m.layer, series: m.timeOnTask! })));
     }
-    document.getElementById('res-new')?.addEventListener('click', () => this.showState('checkin'));
+    document.getElementById('res-new')?.addEventListener('click', () => this.showState(isPvt ? 'pvt' : 'checkin'));
     document.getElementById('res-dash')?.addEventListener('click', () => this.showState('dashboard'));
   }
 
   // === DASHBOARD ===
   private async showDashboard(): Promise<void> {
     if (!this.contentContainer) return;
-    const sessions = await db.getAllSessions(100);
+    const sessions = await db.getAllSessions(100, 'battery');
+    const pvtSessions = await db.getAllSessions(50, 'pvt');
     const allTags = await db.getAllTags();
+    const outdated = [...sessions, ...pvtSessions].filter(s => s.pipelineVersion !== MetricsCalculator.PIPELINE_VERSION).length;
+    const aborted = [...sessions, ...pvtSessions].filter(s => s.status === 'aborted').length;
     this.comparisonIds.clear();
+    await this.loadTrendMetrics();
 
     this.injectStyle(`
       .dash{max-width:1200px;margin:2rem auto;padding:0 2rem}.dash h2{margin-bottom:.25rem}.dash-sub{color:#888;margin-bottom:1rem}
       .session-table{width:100%;border-collapse:collapse}.session-table th{text-align:left;padding:.6rem .8rem;border-bottom:2px solid var(--border,#e0e0e0);font-size:.78rem;color:#888;text-transform:uppercase;letter-spacing:.03em}
       .session-table td{padding:.5rem .8rem;border-bottom:1px solid var(--border-light,#f0f0f0);font-size:.9rem}
       .session-table tr.clickable{cursor:pointer;transition:background .15s}.session-table tr.clickable:hover{background:rgba(33,150,243,.06)}.session-table tr.selected{background:rgba(33,150,243,.1)}
-      .crs-pill{display:inline-block;padding:.15rem .55rem;border-radius:20px;font-weight:600;font-size:.82rem}.crs-pill.good{background:#e8f5e9;color:#2e7d32}.crs-pill.ok{background:#fff3e0;color:#e65100}.crs-pill.bad{background:#ffebee;color:#c62828}.crs-pill.none{background:#f5f5f5;color:#999}
+      .crs-pill{display:inline-block;padding:.15rem .55rem;border-radius:20px;font-weight:600;font-size:.82rem}.crs-pill.good{background:#e8f5e9;color:#2e7d32}.crs-pill.ok{background:#fff3e0;color:#e65100}.crs-pill.bad{background:#ffebee;color:#c62828}.crs-pill.none{background:#f5f5f5;color:#999}.crs-pill.aborted{background:#efebe9;color:#6d4c41}.crs-pill.invalid{background:#eceff1;color:#546e7a;text-decoration:line-through}.session-table tr.aborted td,.session-table tr.invalid td{color:#999}
       .btn{padding:.6rem 1.2rem;border:none;border-radius:8px;cursor:pointer;font-weight:600;font-size:.88rem}.btn-primary{background:#2196f3;color:#fff}.btn-primary:hover{background:#1976d2}.btn-danger{background:#f44336;color:#fff}.btn-danger:hover{background:#d32f2f}.btn-secondary{background:var(--btn-sec,#e0e0e0);color:var(--text,#333)}.btn-secondary:hover{background:#bdbdbd}.btn-sm{padding:.3rem .65rem;font-size:.78rem}
       .dash-actions{display:flex;gap:.6rem;margin-top:2rem;flex-wrap:wrap}
       .detail-panel{background:var(--surface-alt,#f8f9fa);border-radius:16px;padding:1.75rem;margin-top:1.5rem}.detail-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:1.5rem;flex-wrap:wrap;gap:.5rem}.detail-header h3{margin:0}
@@ -341,7 +608,7 @@ export class MainApp {
       .detail-actions{display:flex;gap:.5rem;margin-top:1.25rem;flex-wrap:wrap}
       .empty-state{text-align:center;padding:4rem 2rem;color:#888}
       .trend-section{background:var(--surface-alt,#f8f9fa);border-radius:16px;padding:1.5rem;margin-bottom:1.5rem}.trend-header{display:flex;justify-content:space-between;align-items:center;margin-bottom:1rem;flex-wrap:wrap;gap:.75rem}.trend-header h3{margin:0;font-size:1rem}
-      .trend-toggles{display:flex;gap:.3rem;flex-wrap:wrap}.trend-btn{padding:.25rem .6rem;border:1px solid #ddd;border-radius:6px;background:var(--card,#fff);cursor:pointer;font-size:.75rem;font-weight:500;color:#666;transition:all .15s}.trend-btn:hover{border-color:#2196f3;color:#2196f3}.trend-btn.active{background:#2196f3;color:#fff;border-color:#2196f3}
+      .trend-toggles{display:flex;gap:.3rem;flex-wrap:wrap}.trend-btn{padding:.25rem .6rem;border:1px solid #ddd;border-radius:6px;background:var(--card,#fff);cursor:pointer;font-size:.75rem;font-weight:500;color:#666;transition:all .15s}.trend-btn:hover{border-color:#2196f3;color:#2196f3}.trend-btn.active{background:#2196f3;color:#fff;border-color:#2196f3}.trend-select{padding:.25rem .4rem;border:1px solid #ddd;border-radius:6px;background:var(--card,#fff);font-size:.75rem;color:#666}
       #trend-chart{width:100%;height:230px;position:relative}#trend-chart svg{width:100%;height:100%}.chart-line{fill:none;stroke-width:2.5}.chart-dot{stroke:#fff;stroke-width:2;cursor:pointer}.chart-area{opacity:.08}.chart-grid line{stroke:#e0e0e0;stroke-dasharray:3,3}.chart-axis text{font-size:10px;fill:#888}.chart-axis path,.chart-axis line{stroke:#ddd}.chart-tooltip{position:absolute;background:#333;color:#fff;padding:.3rem .6rem;border-radius:6px;font-size:.75rem;pointer-events:none;white-space:nowrap;z-index:100}
       .tag-bar{display:flex;gap:.4rem;flex-wrap:wrap;margin-bottom:1rem;align-items:center}.tag-chip{display:inline-flex;align-items:center;gap:.25rem;padding:.15rem .5rem;border-radius:12px;background:rgba(33,150,243,.1);color:#1976d2;font-size:.78rem;cursor:pointer;transition:all .15s}.tag-chip:hover,.tag-chip.active{background:#2196f3;color:#fff}.tag-chip .rm-tag{font-size:.68rem;opacity:.7;cursor:pointer}
       .notes-area{width:100%;min-height:55px;border:1px solid var(--border,#ddd);border-radius:8px;padding:.5rem;font-family:inherit;font-size:.85rem;resize:vertical;background:var(--card,#fff);color:var(--text,#333)}.notes-area:focus{outline:none;border-color:#2196f3}
@@ -352,18 +619,21 @@ export class MainApp {
 
     this.contentContainer.innerHTML = `<div class="dash">
       <h2>Session History</h2>
-      <p class="dash-sub">${sessions.length} session${sessions.length!==1?'s':''} recorded</p>
+      <p class="dash-sub">${sessions.length} session${sessions.length!==1?'s':''} recorded${aborted?` \u00b7 ${aborted} aborted (${(aborted/(sessions.length+pvtSessions.length)*100).toFixed(0)}% of all tests)`:''}</p>
       ${allTags.length > 0 ? `<div class="tag-bar" id="tag-bar"><span style="font-size:.82rem;color:#888;margin-right:.25rem">Filter:</span><span class="tag-chip active" data-tag="">All</span>${allTags.map(t => `<span class="tag-chip" data-tag="${t}">${t}</span>`).join('')}</div>` : ''}
-      ${sessions.length >= 2 ? `<div class="trend-section"><div class="trend-header"><h3>Performance Trend</h3><div class="trend-toggles" id="trend-toggles"><button class="trend-btn active" data-metric="crs">Readiness</button><button class="trend-btn" data-metric="lpi0">Reaction</button><button class="trend-btn" data-metric="lpi1">Tracking</button><button class="trend-btn" data-metric="lpi2">Audio</button><button class="trend-btn" data-metric="lpi3">Full Load</button><button class="trend-btn" data-metric="dc">Tolerance</button></div></div><div id="trend-chart"></div></div>` : ''}
+      ${sessions.length >= 2 ? `<div class="trend-section"><div class="trend-header"><h3>Performance Trend</h3><div class="trend-toggles" id="trend-toggles"><button class="trend-btn active" data-metric="crs">Readiness</button><button class="trend-btn" data-metric="lpi0">Reaction</button><button class="trend-btn" data-metric="lpi1">Tracking</button><button class="trend-btn" data-metric="lpi2">Audio</button><button class="trend-btn" data-metric="lpi3">Full Load</button><button class="trend-btn" data-metric="dc">Tolerance</button>${this.trendMetricSelect()}</div></div><div id="trend-chart"></div></div>` : ''}
       <div id="insights-target"></div>
       ${sessions.length === 0 ? '<div class="empty-state"><p style="font-size:2rem">\ud83d\udcca</p><p>No sessions yet.</p></div>' :
         `<table class="session-table"><thead><tr><th style="width:28px"></th><th>Date</th><th>Readiness</th><th>Reaction</th><th>Tracking</th><th>Audio</th><th>Full Load</th><th>Tolerance</th><th>Tags</th></tr></thead>
         <tbody id="session-tbody">${sessions.map(s => {
-          const isCal = s.crs == null;
-          return `<tr class="clickable" data-sid="${s.id}"><td><input type="checkbox" class="cb-compare" data-id="${s.id}"></td><td>${s.timestamp.toLocaleDateString()} ${s.timestamp.toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})}</td><td>${isCal ? '<span class="crs-pill none">Cal.</span>' : `<span class="crs-pill ${this.crsClass(s.crs)}">${s.crs?.toFixed(1)??'\u2014'}</span>`}</td><td>${isCal?'—':s.lpi0?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi1?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi2?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi3?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.degradationCoeff!=null?(s.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</td><td>${s.tags.map(t=>`<span class="tag-chip" style="font-size:.68rem;padding:.1rem .35rem">${t}</span>`).join(' ')}</td></tr>`;
+          const isCal = s.crs == null, pill = this.statusPill(s);
+          return `<tr class="clickable ${s.status}" data-sid="${s.id}"><td><input type="checkbox" class="cb-compare" data-id="${s.id}"></td><td>${s.timestamp.toLocaleDateString()} ${s.timestamp.toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})}${this.flagMarker(s)}</td><td>${pill ? pill : isCal ? '<span class="crs-pill none">Cal.</span>' : `<span class="crs-pill ${this.crsClass(s.crs)}">${s.crs?.toFixed(1)??'\u2014'}</span>`}</td><td>${isCal?'—':s.lpi0?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi1?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi2?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.lpi3?.toFixed(0)??'\u2014'}</td><td>${isCal?'—':s.degradationCoeff!=null?(s.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</td><td>${s.tags.map(t=>`<span class="tag-chip" style="font-size:.68rem;padding:.1rem .35rem">${t}</span>`).join(' ')}</td></tr>`;
         }).join('')}</tbody></table>`}
+      ${pvtSessions.length > 0 ? `<h3 style="margin-top:2rem">PVT Sessions</h3><table class="session-table"><thead><tr><th>Date</th><th>Variant</th><th>PVT Score</th><th>Tags</th></tr></thead>
+        <tbody id="pvt-tbody">${pvtSessions.map(s => { const v = s.lpis[s.protocol.layers[0]?.id], pill = this.statusPill(s); return `<tr class="clickable ${s.status}" data-sid="${s.id}"><td>${s.timestamp.toLocaleDateString()} ${s.timestamp.toLocaleTimeString([],{hour:'2-digit',minute:'2-digit'})}${this.flagMarker(s)}</td><td>${s.protocol.name}</td><td>${pill ? pill : v==null ? '<span class="crs-pill none">Cal.</span>' : `<span class="crs-pill ${this.crsClass(v)}">${v.toFixed(1)}</span>`}</td><td>${s.tags.map(t=>`<span class="tag-chip" style="font-size:.68rem;padding:.1rem .35rem">${t}</span>`).join(' ')}</td></tr>`; }).join('')}</tbody></table>` : ''}
       <div id="compare-target"></div><div id="detail-target"></div>
-      <div class="dash-actions"><button class="btn btn-primary" id="dash-new">New Session</button><button class="btn btn-secondary" id="dash-cmp" style="display:none">Compare Selected</button><button class="btn btn-secondary" id="dash-exp">Export All CSV</button>${sessions.length>0?'<button class="btn btn-danger" id="dash-rst">Delete All</button>':''}</div></div>`;
+      <div class="dash-actions"><button class="btn btn-primary" id="dash-new">New Session</button><button class="btn btn-secondary" id="dash-cmp" style="display:none">Compare Selected</button><button class="btn btn-secondary" id="dash-exp">Export All CSV</button>${sessions.length+pvtSessions.length>0?`<button class="btn btn-secondary" id="dash-rcp">Recompute Scores${outdated?` (${outdated} outdated)`:''}</button><button class="btn btn-danger" id="dash-rst">Delete All</button>`:''}</div>
+      <div id="rcp-status" style="margin-top:.75rem;font-size:.85rem;color:#666;display:flex;gap:.5rem;align-items:center;flex-wrap:wrap"></div></div>`;
 
     // Trend
     if (sessions.length >= 2) {
@@ -371,8 +641,14 @@ export class MainApp {
       document.getElementById('trend-toggles')?.addEventListener('click', e => {
         const b = (e.target as HTMLElement).closest('.trend-btn'); if (!b) return;
         document.querySelectorAll('.trend-btn').forEach(x => x.classList.remove('active'));
+        const sel = document.getElementById('trend-select') as HTMLSelectElement | null; if (sel) sel.value = '';
         b.classList.add('active'); this.renderTrendChart(sessions, b.getAttribute('data-metric')!);
       });
+      document.getElementById('trend-select')?.addEventListener('change', e => {
+        const v = (e.target as HTMLSelectElement).value; if (!v) return;
+        document.querySelectorAll('.trend-btn').forEach(x => x.classList.remove('active'));
+        this.renderTrendChart(sessions, v);
+      });
     }
     this.renderInsights();
     // Tag filter
@@ -391,6 +667,10 @@ export class MainApp {
       const row = (e.target as HTMLElement).closest('tr[data-sid]');
       if (row) this.showSessionDetail(row.getAttribute('data-sid')!, sessions);
     });
+    document.getElementById('pvt-tbody')?.addEventListener('click', e => {
+      const row = (e.target as HTMLElement).closest('tr[data-sid]');
+      if (row) this.showSessionDetail(row.getAttribute('data-sid')!, pvtSessions);
+    });
     // Compare checkboxes
     const cmpBtn = document.getElementById('dash-cmp')!;
     document.querySelectorAll('.cb-compare').forEach(cb => {
@@ -403,38 +683,36 @@ export class MainApp {
     cmpBtn.addEventListener('click', () => this.showComparison(sessions));
     document.getElementById('dash-new')?.addEventListener('click', () => this.showState('checkin'));
     document.getElementById('dash-exp')?.addEventListener('click', () => this.exportAll());
-    document.getElementById('dash-rst')?.addEventListener('click', () => this.resetAll(sessions));
+    document.getElementById('dash-rst')?.addEventListener('click', () => this.resetAll([...sessions, ...pvtSessions]));
+    document.getElementById('dash-rcp')?.addEventListener('click', () => this.recomputeScores());
   }
 
   // === SESSION DETAIL (notes + tags) ===
   private async showSessionDetail(sid: string, sessions: Session[]): Promise<void> {
     const session = sessions.find(s => s.id === sid);
     if (!session) return;
-    const lms = await db.getLayerMetrics(sid);
+    const mvs = await db.getMetricValues(sid);
     const checkin = session.checkinId ? await db.getCheckin(session.checkinId) : null;
     const target = document.getElementById('detail-target')!;
+    const isPvt = session.sessionType === 'pvt';
+    const scored = isPvt ? session.protocol.layers.some(l => session.lpis[l.id] != null) : session.crs != null;
     document.querySelectorAll('.session-table tr.selected').forEach(r => r.classList.remove('selected'));
     document.querySelector(`tr[data-sid="${sid}"]`)?.classList.add('selected');
-    const f = (v: number|undefined, u='') => v != null ? `${v.toFixed(1)}${u}` : '\u2014';
-    const l0=lms.find(m=>m.layer===0),l1=lms.find(m=>m.layer===1),l2=lms.find(m=>m.layer===2),l3=lms.find(m=>m.layer===3);
 
     target.innerHTML = `<div class="detail-panel"><div class="detail-header"><h3>Session Details</h3><span style="color:#888;font-size:.82rem">${session.timestamp.toLocaleString()} \u00b7 ${session.id.slice(0,8)}</span></div>
       ${checkin ? `<div style="margin-bottom:1rem;padding:.7rem;background:var(--card,#fff);border-radius:10px;font-size:.82rem;color:#666"><strong>Check-in:</strong> Sleep ${checkin.sleepQuality??'?'}/5 \u00b7 State ${checkin.currentState??'?'}/5 \u00b7 Stress ${checkin.stressLevel??'?'}/5${checkin.symptomLabel?` \u00b7 ${checkin.symptomLabel} (${checkin.symptomSeverity}/3)`:''}${checkin.substances?.length?` \u00b7 ${checkin.substances.join(', ')}`:''}${checkin.freeNotes?` \u00b7 "${checkin.freeNotes}"`:''}</div>` : ''}
-      ${session.crs != null ? `<div class="detail-grid">
-        <div class="detail-card"><div class="label">Cognitive Readiness</div><div class="value" style="color:${session.crs!=null&&session.crs>=70?'#2e7d32':session.crs!=null&&session.crs>=40?'#e65100':'#c62828'}">${session.crs?.toFixed(1)??'\u2014'}</div></div>
-        <div class="detail-card"><div class="label">Reaction Time (L0)</div><div class="value">${session.lpi0?.toFixed(1)??'\u2014'}</div></div>
-        <div class="detail-card"><div class="label">Tracking (L1)</div><div class="value">${session.lpi1?.toFixed(1)??'\u2014'}</div></div>
-        <div class="detail-card"><div class="label">Track + Audio (L2)</div><div class="value">${session.lpi2?.toFixed(1)??'\u2014'}</div></div>
-        <div class="detail-card"><div class="label">Full Load (L3)</div><div class="value">${session.lpi3?.toFixed(1)??'\u2014'}</div></div>
-        <div class="detail-card"><div class="label">Load Tolerance</div><div class="value">${session.degradationCoeff!=null?(session.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</div></div>
-      </div>` : `<div style="padding:.6rem;background:var(--card,#fff);border-radius:10px;margin-bottom:.75rem;text-align:center;color:#ff9800;font-size:.85rem">⏳ Calibration session — raw measurements only</div>`}
+      ${scored ? `<div class="detail-grid">
+        ${isPvt ? '' : `<div class="detail-card"><div class="label">Cognitive Readiness</div><div class="value" style="color:${session.crs!=null&&session.crs>=70?'#2e7d32':session.crs!=null&&session.crs>=40?'#e65100':'#c62828'}">${session.crs?.toFixed(1)??'\u2014'}</div></div>`}
+        ${session.protocol.layers.map(l=>`<div class="detail-card"><div class="label">${l.name} (L${l.id})</div><div class="value">${session.lpis[l.id]?.toFixed(1)??'\u2014'}</div></div>`).join('')}
+        ${isPvt ? '' : `<div class="detail-card"><div class="label">Load Tolerance</div><div class="value">${session.degradationCoeff!=null?(session.degradationCoeff*100).toFixed(0)+'%':'\u2014'}</div></div>`}
+      </div>` : session.status === 'aborted' ? '' : `<div style="padding:.6rem;background:var(--card,#fff);border-radius:10px;margin-bottom:.75rem;text-align:center;color:#ff9800;font-size:.85rem">⏳ Calibration session — raw measurements only</div>`}
+      ${session.status !== 'completed' ? `<div style="padding:.6rem;background:var(--card,#fff);border-radius:10px;margin:.75rem 0;text-align:center;color:#6d4c41;font-size:.85rem">${session.status === 'aborted' ? `⏹ Aborted \u2014 ${session.abort ? this.describeAbort(session.abort, session.protocol) : 'interrupted test'}; completed layers only` : '\u26d4 Marked invalid'} \u00b7 not scored, not in baselines</div>` : ''}
+      ${this.validityBlock(session)}
       <div class="detail-metrics">
-        ${l0?`<h4>Layer 0 — Reaction Time</h4><div class="metrics-row"><div class="metric-item"><div class="m-label">Mean Reaction Time</div><div class="m-val">${f(l0.meanRT,'ms')}</div></div><div class="metric-item"><div class="m-label">RT Std Dev</div><div class="m-val">${f(l0.rtStd,'ms')}</div></div><div class="metric-item"><div class="m-label">Anticipations</div><div class="m-val">${l0.anticipationCount??0}</div></div><div class="metric-item"><div class="m-label">Lapses</div><div class="m-val">${l0.lapseCount??0}</div></div></div>`:''}
-        ${l1?`<h4>Layer 1 — Visual Tracking</h4><div class="metrics-row"><div class="metric-item"><div class="m-label">Tracking Error</div><div class="m-val">${f(l1.meanTrackingError,'px')}</div></div><div class="metric-item"><div class="m-label">Movement Jerk</div><div class="m-val">${f(l1.meanJerk)}</div></div><div class="metric-item"><div class="m-label">Overshoots/min</div><div class="m-val">${f(l1.overshootRate)}</div></div></div>`:''}
-        ${l2?`<h4>Layer 2 — Tracking + Audio</h4><div class="metrics-row"><div class="metric-item"><div class="m-label">Tracking Error</div><div class="m-val">${f(l2.meanTrackingError,'px')}</div></div><div class="metric-item"><div class="m-label">Audio Response</div><div class="m-val">${f(l2.meanAudioRT,'ms')}</div></div><div class="metric-item"><div class="m-label">Audio Accuracy</div><div class="m-val">${l2.audioAccuracy!=null?(l2.audioAccuracy*100).toFixed(0)+'%':'\u2014'}</div></div><div class="metric-item"><div class="m-label">Recovery Period</div><div class="m-val">${f(l2.meanPRPDuration,'ms')}</div></div></div>`:''}
-        ${l3?`<h4>Layer 3 — Full Cognitive Load</h4><div class="metrics-row"><div class="metric-item"><div class="m-label">Tracking Error</div><div class="m-val">${f(l3.meanTrackingError,'px')}</div></div><div class="metric-item"><div class="m-label">Audio Response</div><div class="m-val">${f(l3.meanAudioRT,'ms')}</div></div><div class="metric-item"><div class="m-label">Recovery Period</div><div class="m-val">${f(l3.meanPRPDuration,'ms')}</div></div><div class="metric-item"><div class="m-label">Cooldown Delay</div><div class="m-val">${f(l3.meanCooldownDelay,'ms')}</div></div><div class="metric-item"><div class="m-label">Peripheral Response</div><div class="m-val">${f(l3.meanPeripheralRT,'ms')}</div></div><div class="metric-item"><div class="m-label">Peripheral Missed</div><div class="m-val">${l3.peripheralMissRate!=null?(l3.peripheralMissRate*100).toFixed(0)+'%':'\u2014'}</div></div></div>`:''}
+        ${session.protocol.layers.map(l => { const v = MetricRegistry.byName(mvs, l.id); return Object.keys(v).length ? `<h4>Layer ${l.id} — ${l.name}</h4><div class="metrics-row">${MetricRegistry.displayItems(l, v).map(([k,v]) => `<div class="metric-item"><div class="m-label">${k}</div><div class="m-val">${v}</div></div>`).join('')}</div>` : ''; }).join('')}
       </div>
       <div style="margin-top:1.1rem"><div id="degradation-chart-${sid}" style="width:100%;height:200px"></div></div>
+      <div style="margin-top:1.1rem"><div id="bode-chart-${sid}" style="width:100%"></div></div>
       <div style="margin-top:1.1rem"><label style="font-size:.82rem;font-weight:600;color:#555;display:block;margin-bottom:.35rem">Notes</label>
         <textarea class="notes-area" id="d-notes" placeholder="Add notes...">${session.notes||''}</textarea>
         <button class="btn btn-sm btn-secondary" id="save-notes" style="margin-top:.3rem">Save Notes</button></div>
@@ -443,8 +721,8 @@ export class MainApp {
           ${session.tags.map(t=>`<span class="tag-chip">${t} <span class="rm-tag" data-tag="${t}">\u00d7</span></span>`).join('')}
           <input type="text" id="add-tag" placeholder="Add tag..." style="border:1px solid #ddd;border-radius:6px;padding:.2rem .45rem;font-size:.8rem;width:95px;background:var(--card,#fff);color:var(--text,#333)">
         </div></div>
-      <div style="margin-top:.6rem;font-size:.78rem;color:#999">Stalls: ${session.systemStalls}</div>
-      <div class="detail-actions"><button class="btn btn-secondary btn-sm" id="d-exp">Export</button><button class="btn btn-danger btn-sm" id="d-del">Delete</button><button class="btn btn-secondary btn-sm" id="d-close">Close</button></div></div>`;
+      <div style="margin-top:.6rem;font-size:.78rem;color:#999">Protocol: ${session.protocol.name}${session.validity?` \u00b7 Validity: ${session.validity.score}/100`:''} \u00b7 Stalls: ${session.systemStalls}${session.droppedEvents?` \u00b7 Dropped events: ${session.droppedEvents}`:''}${session.inputLag?` \u00b7 Input lag: ${session.inputLag.meanMs.toFixed(1)} ms mean, ${session.inputLag.p95Ms.toFixed(1)} ms p95, ${session.inputLag.maxMs.toFixed(1)} ms max`:''}${session.onsetJitter?` \u00b7 Onset delay: ${session.onsetJitter.meanMs.toFixed(1)} ± ${session.onsetJitter.sdMs.toFixed(1)} ms`:''}${session.configSnapshot.seed!=null?` \u00b7 Seed: ${session.configSnapshot.seedMode==='canonical'?'canonical':session.configSnapshot.seed}`:''}</div>
+      <div class="detail-actions"><button class="btn btn-primary btn-sm" id="d-replay">\u25b6 Replay</button><button class="btn btn-secondary btn-sm" id="d-exp">Export</button>${session.status !== 'aborted' ? `<button class="btn btn-secondary btn-sm" id="d-valid">${session.status === 'invalid' ? 'Mark Valid' : 'Mark Invalid'}</button>` : ''}<button class="btn btn-danger btn-sm" id="d-del">Delete</button><button class="btn btn-secondary btn-sm" id="d-close">Close</button></div></div>`;
 
     document.getElementById('save-notes')?.addEventListener('click', async () => {
       const n = (document.getElementById('d-notes') as HTMLTextAreaElement).value;
@@ -453,6 +731,7 @@ export class MainApp {
 
     // Render degradation curve chart
     this.renderDegradationCurve(sid, session);
+    this.renderBodePlot(sid, session);
     document.getElementById('d-tags')?.addEventListener('click', async e => {
       const rm = (e.target as HTMLElement).closest('.rm-tag') as HTMLElement;
       if (rm) { await db.removeSessionTag(sid, rm.dataset.tag!); session.tags = session.tags.filter(t=>t!==rm.dataset.tag); this.showSessionDetail(sid, sessions); }
@@ -465,6 +744,8 @@ export class MainApp {
       }
     });
     document.getElementById('d-exp')?.addEventListener('click', () => this.exportSession(session));
+    document.getElementById('d-replay')?.addEventListener('click', () => this.showReplay(session));
+    document.getElementById('d-valid')?.addEventListener('click', () => this.setSessionStatus(session, session.status === 'invalid' ? 'completed' : 'invalid'));
     document.getElementById('d-del')?.addEventListener('click', () => this.confirmDel(session));
     document.getElementById('d-close')?.addEventListener('click', () => { target.innerHTML = ''; document.querySelectorAll('.session-table tr.selected').forEach(r=>r.classList.remove('selected')); });
     target.scrollIntoView({ behavior:'smooth', block:'nearest' });
@@ -546,23 +827,25 @@ export class MainApp {
     target.scrollIntoView({ behavior:'smooth', block:'nearest' });
   }
 
+  // === REPLAY ===
+  private async showReplay(session: Session): Promise<void> {
+    const { ReplayViewer } = await import('@/components/ReplayViewer');
+    const events = await db.getRawEvents(session.id);
+    await new ReplayViewer(document.body, { session, events }).render();
+  }
+
   // === DEGRADATION CURVE (per-session detail) ===
   private renderDegradationCurve(sid: string, session: Session): void {
     const container = document.getElementById(`degradation-chart-${sid}`);
     if (!container) return;
     container.innerHTML = '';
 
-    // Skip chart if session has no computed scores (calibration period)
-    if (session.lpi0 == null && session.lpi1 == null && session.lpi2 == null && session.lpi3 == null) {
+    // Skip chart if session has no computed scores (calibration period) or no load progression (PVT)
+    if (session.sessionType === 'pvt' || session.protocol.layers.every(l => session.lpis[l.id] == null)) {
       return;
     }
 
-    const data = [
-      { layer: 0, lpi: session.lpi0 ?? 0, label: 'Reaction' },
-      { layer: 1, lpi: session.lpi1 ?? 0, label: 'Tracking' },
-      { layer: 2, lpi: session.lpi2 ?? 0, label: 'Audio' },
-      { layer: 3, lpi: session.lpi3 ?? 0, label: 'Full Load' }
-    ];
+    const data = session.protocol.layers.map(l => ({ layer: l.id, lpi: session.lpis[l.id] ?? 0, label: l.name }));
 
     const rect = container.getBoundingClientRect();
     const W = rect.width || 500, H = 200;
@@ -614,30 +897,167 @@ export class MainApp {
       .style('font-size', '11px').style('fill', '#888').text('Performance Degradation Under Load');
   }
 
+  // === BODE PLOT (per-session detail, tracking layers) ===
+  private async renderBodePlot(sid: string, session: Session): Promise<void> {
+    const layers = session.protocol.layers.filter(l => l.components.includes('tracking'));
+    if (layers.length === 0) return;
+    const events = await db.getRawEvents(sid);
+    const series = layers
+      .map(l => ({ layer: l, tf: MetricsCalculator.trackingTransferFunction(events.filter(e => e.layer === l.id)) }))
+      .filter((x): x is { layer: LayerDefinition; tf: TrackingTransferFunction } => x.tf != null && x.tf.points.length > 1);
+    // Detail panel may have been closed or switched while events loaded
+    const container = document.getElementById(`bode-chart-${sid}`);
+    if (!container || series.length === 0) return;
+    container.innerHTML = '';
+
+    const W = container.getBoundingClientRect().width || 500, H = 320;
+    const mg = { top: 22, right: 70, bottom: 32, left: 46 }, gap = 26;
+    const iW = W - mg.left - mg.right, pH = (H - mg.top - mg.bottom - gap) / 2;
+    const colors = ['#2196f3', '#ff9800', '#9c27b0', '#4caf50', '#f44336'];
+    const all = series.flatMap(x => x.tf.points);
+
+    const svg = d3.select(container).append('svg').attr('viewBox', `0 0 ${W} ${H}`);
+    const g = svg.append('g').attr('transform', `translate(${mg.left},${mg.top})`);
+    const xS = d3.scaleLog().domain(d3.extent(all, p => p.frequencyHz) as [number, number]).range([0, iW]);
+    const gS = d3.scaleLinear().domain([0, Math.max(1.2, d3.max(all, p => p.gain)!)]).nice().range([pH, 0]);
+    const pS = d3.scaleLinear().domain([0, Math.max(45, d3.max(all, p => p.phaseLagDeg)!)]).nice().range([pH, 0]);
+    const phase = g.append('g').attr('transform', `translate(0,${pH + gap})`);
+
+    for (const [panel, yS, label] of [[g, gS, 'Gain'], [phase, pS, 'Phase lag (\u00b0)']] as const) {
+      panel.append('g').attr('class', 'chart-grid').call(d3.axisLeft(yS).ticks(4).tickSize(-iW).tickFormat(() => ''));
+      panel.append('g').attr('class', 'chart-axis').call(d3.axisLeft(yS).ticks(4));
+      panel.append('g').attr('class', 'chart-axis').attr('transform', `translate(0,${pH})`).call(d3.axisBottom(xS).ticks(4, '~g'));
+      panel.append('text').attr('x', 4).attr('y', 10).style('font-size', '10px').style('fill', '#888').text(label);
+    }
+    // Unity gain reference
+    g.append('line').attr('x1', 0).attr('x2', iW).attr('y1', gS(1)).attr('y2', gS(1)).attr('stroke', '#bbb').attr('stroke-dasharray', '4,3');
+
+    series.forEach(({ layer, tf }, i) => {
+      const color = colors[i % colors.length];
+      g.append('path').datum(tf.points).attr('fill', 'none').attr('stroke', color).attr('stroke-width', 2)
+        .attr('d', d3.line<typeof tf.points[0]>().x(p => xS(p.frequencyHz)).y(p => gS(p.gain)));
+      phase.append('path').datum(tf.points).attr('fill', 'none').attr('stroke', color).attr('stroke-width', 2)
+        .attr('d', d3.line<typeof tf.points[0]>().x(p => xS(p.frequencyHz)).y(p => pS(p.phaseLagDeg)));
+      // Low-coherence bins drawn faint: little of the cursor motion there follows the target
+      for (const [panel, yS, key] of [[g, gS, 'gain'], [phase, pS, 'phaseLagDeg']] as const) {
+        panel.selectAll(`.bode-dot-${i}-${key}`).data(tf.points).join('circle')
+          .attr('cx', p => xS(p.frequencyHz)).attr('cy', p => yS(p[key])).attr('r', 3)
+          .attr('fill', color).attr('opacity', p => 0.25 + 0.75 * p.coherence);
+      }
+      svg.append('text').attr('x', W - mg.right + 8).attr('y', mg.top + 12 + i * 14)
+        .style('font-size', '10px').style('fill', color).text(`L${layer.id}${tf.timeDelayMs != null ? ` ${tf.timeDelayMs.toFixed(0)}ms` : ''}`);
+    });
+
+    phase.append('text').attr('x', iW / 2).attr('y', pH + 28).attr('text-anchor', 'middle').style('font-size', '10px').style('fill', '#888').text('Frequency (Hz)');
+    g.append('text').attr('x', iW / 2).attr('y', -8).attr('text-anchor', 'middle')
+      .style('font-size', '11px').style('fill', '#888').text('Tracking Transfer Function (Target \u2192 Cursor)');
+  }
+
+  // === TIME ON TASK (results screen) ===
+  /** Tracking error, RT and miss rate against time within each layer, one panel each; the legend carries each layer's slopes */
+  private renderTimeOnTaskChart(container: HTMLElement, layers: Array<{ layer: number; series: TimeOnTaskSeries }>): void {
+    container.innerHTML = '';
+    const panels: Array<{ key: keyof Omit<TimeOnTaskBin, 'startS'>; slope: keyof TimeOnTaskSeries; label: string; unit: string; scale: number }> = [
+      { key: 'trackingError', slope: 'trackingErrorSlope', label: 'Tracking error (px)', unit: 'px', scale: 1 },
+      { key: 'meanRT', slope: 'rtSlope', label: 'RT (ms)', unit: 'ms', scale: 1 },
+      { key: 'missRate', slope: 'missRateSlope', label: 'Miss rate (%)', unit: '%', scale: 100 }
+    ];
+    const shown = panels.filter(p => layers.some(l => l.series.bins.some(b => b[p.key] != null)));
+    if (shown.length === 0) return;
+
+    const W = container.getBoundingClientRect().width || 720, pH = 150;
+    const mg = { top: 22, right: 12, bottom: 30, left: 44 }, gap = 18;
+    const pW = (W - gap * (shown.length - 1)) / shown.length - mg.left - mg.right;
+    const colors = ['#2196f3', '#ff9800', '#9c27b0', '#4caf50', '#f44336'];
+    const maxS = d3.max(layers, l => l.series.bins.length * l.series.binSeconds) ?? 1;
+    const svg = d3.select(container).append('svg').attr('viewBox', `0 0 ${W} ${pH + mg.top + mg.bottom + 16 * layers.length + 6}`).style('width', '100%');
+
+    shown.forEach((panel, pi) => {
+      const g = svg.append('g').attr('transform', `translate(${pi * (pW + mg.left + mg.right + gap) + mg.left},${mg.top})`);
+      const values = layers.flatMap(l => l.series.bins.flatMap(b => b[panel.key] != null ? [b[panel.key]! * panel.scale] : []));
+      const xS = d3.scaleLinear().domain([0, maxS]).range([0, pW]);
+      const yS = d3.scaleLinear().domain([0, Math.max(1, d3.max(values) ?? 1)]).nice().range([pH, 0]);
+      g.append('g').attr('class', 'chart-axis').attr('transform', `translate(0,${pH})`).call(d3.axisBottom(xS).ticks(4).tickFormat(d => `${d}s`));
+      g.append('g').attr('class', 'chart-axis').call(d3.axisLeft(yS).ticks(4));
+      g.append('text').attr('x', 0).attr('y', -8).style('font-size', '11px').style('fill', '#888').text(panel.label);
+      layers.forEach(({ series }, li) => {
+        const points = series.bins.filter(b => b[panel.key] != null).map(b => ({ t: b.startS + series.binSeconds / 2, v: b[panel.key]! * panel.scale }));
+        const color = colors[li % colors.length];
+        g.append('path').datum(points).attr('fill', 'none').attr('stroke', color).attr('stroke-width', 2)
+          .attr('d', d3.line<typeof points[0]>().x(d => xS(d.t)).y(d => yS(d.v)));
+        g.selectAll(`.tot-dot-${li}`).data(points).join('circle').attr('cx', d => xS(d.t)).attr('cy', d => yS(d.v)).attr('r', 2.5).attr('fill', color);
+      });
+    });
+
+    const fmt = (v: number | null, scale: number, unit: string) => v != null ? `${v * scale >= 0 ? '+' : ''}${(v * scale).toFixed(1)}${unit}/min` : '\u2014';
+    layers.forEach(({ layer, series }, li) => {
+      svg.append('text').attr('x', mg.left).attr('y', pH + mg.top + mg.bottom + 14 + li * 16).style('font-size', '11px').style('fill', colors[li % colors.length])
+        .text(`L${layer}: ${shown.map(p => `${p.label.split(' (')[0]} ${fmt(series[p.slope] as number | null, p.scale, p.unit)}`).join('  \u00b7  ')}`);
+    });
+  }
+
   // === TREND CHART (D3) ===
+  /** Metric values and rolling baselines (scored metrics only) for the layer-metric trend options */
+  private async loadTrendMetrics(): Promise<void> {
+    this.trendValues = await db.getAllMetricValues('battery'); this.trendBaselines.clear();
+    for (const { metrics } of TREND_LAYER_METRICS) for (const n of metrics) {
+      if (!MetricRegistry.get(n)?.scored) continue;
+      for (const l of this.trendLayers(n)) { const b = await db.getBaseline('rolling', n, l); if (b) this.trendBaselines.set(`layer:${n}:${l}`, b); }
+    }
+  }
+  private trendLayers(name: string): number[] {
+    return [...new Set(this.trendValues.filter(v => v.metric === name).map(v => v.layer))].sort((a, b) => a - b);
+  }
+  /** `layer:<name>:<layer>` options for the trend chart; empty when no session has any */
+  private trendMetricSelect(): string {
+    const groups = TREND_LAYER_METRICS.map(g => {
+      const opts = g.metrics.flatMap(n => this.trendLayers(n).map(l => `<option value="layer:${n}:${l}">${this.trendLabel(`layer:${n}:${l}`)}</option>`));
+      return opts.length ? `<optgroup label="${g.label}">${opts.join('')}</optgroup>` : '';
+    }).join('');
+    return groups ? `<select class="trend-select" id="trend-select"><option value="">More\u2026</option>${groups}</select>` : '';
+  }
+  private trendLabel(metric: string): string {
+    const [, name, layer] = metric.split(':'), label = MetricRegistry.get(name)?.label;
+    return `${typeof label === 'string' ? label : name} (L${layer})`;
+  }
+
   private renderTrendChart(sessions: Session[], metric: string): void {
     const container = document.getElementById('trend-chart'); if (!container) return;
     container.innerHTML = '';
-    const chrono = [...sessions].reverse();
+    const chrono = [...sessions].reverse().filter(s => ScoringEngine.entersBaseline(s));
+    const layerMetric = metric.startsWith('layer:') ? metric.split(':') : null;
     const data: Array<{date:Date;value:number}> = [];
     for (const s of chrono) {
       let v: number|null = null;
-      switch(metric) { case 'crs':v=s.crs;break;case 'lpi0':v=s.lpi0;break;case 'lpi1':v=s.lpi1;break;case 'lpi2':v=s.lpi2;break;case 'lpi3':v=s.lpi3;break;
+      if (layerMetric) v = this.trendValues.find(x => x.sessionId === s.id && x.layer === Number(layerMetric[2]) && x.metric === layerMetric[1])?.value ?? null;
+      else switch(metric) { case 'crs':v=s.crs;break;case 'lpi0':v=s.lpi0;break;case 'lpi1':v=s.lpi1;break;case 'lpi2':v=s.lpi2;break;case 'lpi3':v=s.lpi3;break;
         case 'dc':v=s.degradationCoeff!=null?s.degradationCoeff*100:null;break; }
       if (v != null) data.push({date:s.timestamp,value:v});
     }
     if (data.length < 1) { container.innerHTML = '<p style="text-align:center;color:#999;padding:2rem">No data.</p>'; return; }
     const labels: Record<string,string> = {crs:'Cognitive Readiness',lpi0:'Reaction Time (L0)',lpi1:'Tracking (L1)',lpi2:'Track + Audio (L2)',lpi3:'Full Load (L3)',dc:'Load Tolerance %'};
-    const color = metric === 'dc' ? '#ff9800' : '#2196f3';
+    if (layerMetric) labels[metric] = this.trendLabel(metric);
+    const band = this.trendBaselines.get(metric);
+    const color = metric === 'dc' ? '#ff9800' : layerMetric ? '#7e57c2' : '#2196f3';
     const rect = container.getBoundingClientRect();
     const W = rect.width||800, H = 230, mg = {top:18,right:25,bottom:32,left:42};
     const iW = W-mg.left-mg.right, iH = H-mg.top-mg.bottom;
     const svg = d3.select(container).append('svg').attr('viewBox',`0 0 ${W} ${H}`);
     const g = svg.append('g').attr('transform',`translate(${mg.left},${mg.top})`);
     const xS = d3.scaleTime().domain(d3.extent(data,d=>d.date) as [Date,Date]).range([0,iW]);
-    const yMin = Math.min(d3.min(data,d=>d.value)!*0.9,0), yMax = Math.max(d3.max(data,d=>d.value)!*1.1,100);
+    let yMin = Math.min(d3.min(data,d=>d.value)!*0.9,0), yMax = Math.max(d3.max(data,d=>d.value)!*1.1,100);
+    if (layerMetric) {
+      // Raw values (ms, % cost) can be negative and far from 0–100: fit the data and the baseline band
+      const lo = Math.min(d3.min(data,d=>d.value)!, band?.q1 ?? Infinity), hi = Math.max(d3.max(data,d=>d.value)!, band?.q3 ?? -Infinity);
+      const pad = (hi-lo)*0.1 || Math.abs(hi)*0.1 || 1; yMin = Math.min(lo-pad, 0); yMax = hi+pad;
+    }
     const yS = d3.scaleLinear().domain([yMin,yMax]).range([iH,0]);
     g.append('g').attr('class','chart-grid').call(d3.axisLeft(yS).ticks(5).tickSize(-iW).tickFormat(()=>''));
+    if (band) {
+      g.append('rect').attr('x',0).attr('y',yS(band.q3)).attr('width',iW).attr('height',Math.max(yS(band.q1)-yS(band.q3),1)).attr('fill',color).attr('opacity',.1);
+      g.append('line').attr('x1',0).attr('x2',iW).attr('y1',yS(band.median)).attr('y2',yS(band.median)).attr('stroke',color).attr('stroke-dasharray','4,3').attr('opacity',.6);
+      g.append('text').attr('x',iW-4).attr('y',yS(band.median)-4).attr('text-anchor','end').style('font-size','9px').style('fill',color).text('Baseline (median, IQR)');
+    }
     g.append('g').attr('class','chart-axis').attr('transform',`translate(0,${iH})`).call(d3.axisBottom(xS).ticks(Math.min(data.length,7)).tickFormat(d=>{const dt=d as Date;return`${dt.getMonth()+1}/${dt.getDate()}`;}));
     g.append('g').attr('class','chart-axis').call(d3.axisLeft(yS).ticks(5));
     g.append('path').datum(data).attr('class','chart-area').attr('fill',color).attr('d',d3.area<typeof data[0]>().x(d=>xS(d.date)).y0(iH).y1(d=>yS(d.value)).curve(d3.curveMonotoneX));
@@ -655,7 +1075,32 @@ export class MainApp {
 
   // === UTILITIES ===
   private crsClass(crs:number|null):string { if(crs==null)return'none';if(crs>=70)return'good';if(crs>=40)return'ok';return'bad'; }
+  /** ⚑ with the quality-flag messages as tooltip; empty without flags */
+  private flagMarker(s: Session): string {
+    const flags = s.validity?.flags ?? [];
+    return flags.length ? ` <span title="${flags.map(f => f.message).join('\n')}" style="color:#e65100;font-size:.8rem;cursor:help">\u2691${flags.length}</span>` : '';
+  }
+  /** Validity score and quality flags; empty for sessions without flags */
+  private validityBlock(s: Session): string {
+    if (!s.validity?.flags.length) return '';
+    return `<div style="margin:1rem auto;max-width:560px;padding:.9rem 1.2rem;background:#fff8e1;border-radius:12px;font-size:.85rem;color:#6d4c41"><strong>\u2691 Quality flags \u2014 validity ${s.validity.score}/100</strong>
+      <ul style="margin:.4rem 0 0 1.1rem">${s.validity.flags.map(f => `<li>${f.message} (limit ${f.rule === 'anticipations' ? `${(f.limit*100).toFixed(0)}%` : f.limit})</li>`).join('')}</ul></div>`;
+  }
+  /** Pill shown instead of the score of an aborted or invalid session; null for completed ones */
+  private statusPill(s: Session): string | null {
+    if (s.status === 'completed') return null;
+    const title = s.abort ? this.describeAbort(s.abort, s.protocol) : s.status === 'aborted' ? 'Aborted' : 'Marked invalid';
+    return `<span class="crs-pill ${s.status}" title="${title.replace(/"/g,'&quot;')}">${s.status === 'aborted' ? `Aborted${s.abort?.layer != null ? ` L${s.abort.layer}` : ''}` : 'Invalid'}</span>`;
+  }
 
+  /** Mark a session (in)valid and rebuild its scope's baselines with or without it */
+  private async setSessionStatus(s: Session, status: SessionStatus): Promise<void> {
+    if (status === 'invalid' && !confirm('Mark this session invalid? It is left out of calibration counts and baselines.')) return;
+    await db.updateSessionStatus(s.id, status);
+    const scope = ScoringEngine.baselineScope(s.protocol);
+    for (const l of s.protocol.layers) for (const n of ScoringEngine.getMetricNames(l)) await db.updateRollingBaseline(n, l.id, 20, scope);
+    await this.showState('dashboard');
+  }
   private async confirmDel(s: Session): Promise<void> {
     if (!confirm(`Delete session from ${s.timestamp.toLocaleString()}?`)) return;
     await db.deleteSession(s.id); await this.showState('dashboard');
@@ -667,20 +1112,33 @@ export class MainApp {
   }
   private exportSession(s: Session): void {
     const rows = [['Metric','Value'],['ID',s.id],['Time',s.timestamp.toISOString()],['CRS',s.crs?.toString()??''],['DC',s.degradationCoeff?.toString()??''],
-      ['LPI0',s.lpi0?.toString()??''],['LPI1',s.lpi1?.toString()??''],['LPI2',s.lpi2?.toString()??''],['LPI3',s.lpi3?.toString()??''],
-      ['Stalls',s.systemStalls.toString()],['Tags',s.tags.join(';')],['Notes',(s.notes||'').replace(/,/g,';')]];
+      ['Protocol',s.protocol.id],...s.protocol.layers.map(l=>[`LPI${l.id}`,s.lpis[l.id]?.toString()??'']),
+      ['Stalls',s.systemStalls.toString()],['Dropped Events',s.droppedEvents.toString()],['Input Lag Mean (ms)',s.inputLag?.meanMs.toFixed(2)??''],['Input Lag P95 (ms)',s.inputLag?.p95Ms.toFixed(2)??''],['Onset Delay Mean (ms)',s.onsetJitter?.meanMs.toFixed(2)??''],['Onset Jitter SD (ms)',s.onsetJitter?.sdMs.toFixed(2)??''],['Pipeline Version',s.pipelineVersion?.toString()??''],['Status',s.status],['Abort Layer',s.abort?.layer?.toString()??''],['Abort Time (s)',s.abort?.elapsedSeconds?.toFixed(1)??''],['Abort Reason',(s.abort?.reason||'').replace(/,/g,';')],['Validity Score',s.validity?.score.toString()??''],['Quality Flags',s.validity?.flags.map(f=>f.message).join(';')??''],['Seed',s.configSnapshot.seed?.toString()??''],['Tags',s.tags.join(';')],['Notes',(s.notes||'').replace(/,/g,';')]];
     this.dlCSV(rows.map(r=>r.join(',')).join('\n'), `clst-${s.id.slice(0,8)}.csv`);
   }
+  /** Dry-run the recompute for a before/after report, then apply it on request. One run at a time: both buttons are disabled while it goes */
+  private async recomputeScores(): Promise<void> {
+    const st = document.getElementById('rcp-status'), rcp = document.getElementById('dash-rcp') as HTMLButtonElement | null; if (!st) return;
+    const progress = (label: string) => (p: RecomputeProgress) => { st.textContent = `${label} ${p.done}/${p.total} sessions\u2026`; };
+    const fail = (e: unknown) => { st.textContent = `Recompute failed: ${e instanceof Error ? e.message : String(e)}`; };
+    if (rcp) rcp.disabled = true;
+    let preview: RecomputeReport;
+    try { preview = await Recompute.run({ dryRun: true, onProgress: progress('Checking') }); }
+    catch (e) { fail(e); return; }
+    finally { if (rcp) rcp.disabled = false; }
+    st.innerHTML = `<span>Pipeline v${preview.toVersion}: ${preview.diffs.length} of ${preview.recomputed} sessions change (max score \u0394 ${preview.maxScoreDelta.toFixed(1)})${preview.outdated?` \u00b7 ${preview.outdated} outdated`:''}${preview.skipped.length?` \u00b7 ${preview.skipped.length} without raw events kept as stored`:''}</span>
+      ${preview.diffs.length?'<button class="btn btn-sm btn-secondary" id="rcp-csv">Download Diff</button>':''}${preview.recomputed?'<button class="btn btn-sm btn-primary" id="rcp-apply">Apply &amp; Rebuild Baselines</button>':''}`;
+    document.getElementById('rcp-csv')?.addEventListener('click', () => this.dlCSV(Recompute.toCSV(preview), `clst-recompute-${new Date().toISOString().slice(0,10)}.csv`));
+    document.getElementById('rcp-apply')?.addEventListener('click', async e => {
+      (e.currentTarget as HTMLButtonElement).disabled = true; if (rcp) rcp.disabled = true;
+      try { await Recompute.run({ onProgress: progress('Recomputing') }); await this.showState('dashboard'); }
+      catch (err) { fail(err); if (rcp) rcp.disabled = false; }
+    });
+  }
   private async exportAll(): Promise<void> { const csv = await db.exportAllSessions(); if (csv) this.dlCSV(csv, `clst-all-${new Date().toISOString().slice(0,10)}.csv`); }
   private dlCSV(csv:string, fn:string): void {
     const b = new Blob([csv],{type:'text/csv'}), u = URL.createObjectURL(b), a = document.createElement('a');
     a.href = u; a.download = fn; a.click(); URL.revokeObjectURL(u);
   }
-  private defaultWP(): WeightProfile {
-    return {id:'balanced',name:'Balanced',isCustom:false,weights:{alpha:0.35,
-      L0:{rt:0.6,rt_variance:0.4},L1:{track_error:0.35,track_variance:0.25,jerk:0.20,overshoot:0.20},
-      L2:{track_error:0.25,audio_rt:0.25,audio_accuracy:0.20,prp:0.30},
-      L3:{track_error:0.15,audio_rt:0.15,prp:0.20,cooldown:0.15,periph_rt:0.15,periph_miss:0.20}}};
-  }
   destroy(): void { this.cleanupCurrentState(); }
 }